@@ -1,6 +1,6 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { CSSInjector } from './CSSInjector';
-import { lightTheme } from './themes';
+import { darkTheme, lightTheme } from './themes';
 
 describe('CSSInjector', () => {
   let injector: CSSInjector;
@@ -27,6 +27,15 @@ describe('CSSInjector', () => {
       const css = inj.toCSSString(lightTheme.tokens);
       expect(css).toMatch(/^#app \{\n/);
     });
+
+    it('uses a stable scope id for targets without an id', () => {
+      const el = document.createElement('div');
+      const inj = new CSSInjector({ useRoot: false, target: el });
+      const first = inj.toCSSString(lightTheme.tokens).split(' {')[0];
+
+      expect(first).toMatch(/^\[data-themed-scope="scope-\d+"\]$/);
+      expect(inj.toCSSString(lightTheme.tokens).split(' {')[0]).toBe(first);
+    });
   });
 
   describe('inject and clear', () => {
@@ -48,6 +57,250 @@ describe('CSSInjector', () => {
     });
   });
 
+  describe('update', () => {
+    const next = {
+      ...lightTheme.tokens,
+      colors: { ...lightTheme.tokens.colors, primary: '#000000' },
+    };
+
+    it('patches only the changed variables in the injected rule', () => {
+      injector.inject(lightTheme.tokens);
+      const style = document.getElementById('themed-js-styles') as HTMLStyleElement;
+
+      const changed = injector.update(lightTheme.tokens, next);
+
+      expect(changed).toEqual(['--themed-color-primary']);
+      const rule = style.sheet?.cssRules[0] as CSSStyleRule;
+      expect(rule.style.getPropertyValue('--themed-color-primary')).toBe('#000000');
+      expect(rule.style.getPropertyValue('--themed-color-secondary')).toBe(
+        lightTheme.tokens.colors.secondary
+      );
+    });
+
+    it('sets changed variables on the target element when not using :root', () => {
+      const el = document.createElement('div');
+      document.body.appendChild(el);
+      const inj = new CSSInjector({ useRoot: false, target: el });
+      inj.inject(lightTheme.tokens);
+
+      inj.update(lightTheme.tokens, next);
+      expect(el.style.getPropertyValue('--themed-color-primary')).toBe('#000000');
+    });
+
+    it('includes variables whose references changed', () => {
+      const base = {
+        ...lightTheme.tokens,
+        colors: { ...lightTheme.tokens.colors, textInverse: '{colors.primary}' },
+      };
+      const patched = { ...base, colors: { ...base.colors, primary: '#000000' } };
+      injector.inject(base);
+      expect(injector.update(base, patched)).toEqual([
+        '--themed-color-primary',
+        '--themed-color-text-inverse',
+      ]);
+    });
+  });
+
+  describe('scopes', () => {
+    it('injects an independent rule per scoped element', () => {
+      const sidebar = document.createElement('aside');
+      const content = document.createElement('main');
+      document.body.append(sidebar, content);
+
+      const sidebarId = injector.injectScope(sidebar, darkTheme.tokens);
+      const contentId = injector.injectScope(content, lightTheme.tokens);
+
+      expect(sidebarId).not.toBe(contentId);
+      expect(sidebar.getAttribute('data-themed-scope')).toBe(sidebarId);
+      const style = document.getElementById(`themed-js-styles-${sidebarId}`);
+      expect(style?.textContent).toContain(`[data-themed-scope="${sidebarId}"] {`);
+      expect(style?.textContent).toContain(darkTheme.tokens.colors.primary);
+    });
+
+    it('reuses the scope id and style element when re-injecting', () => {
+      const el = document.createElement('div');
+      const scopeId = injector.injectScope(el, lightTheme.tokens);
+
+      expect(injector.injectScope(el, darkTheme.tokens)).toBe(scopeId);
+      expect(document.head.querySelectorAll('style')).toHaveLength(1);
+      expect(document.head.textContent).toContain(darkTheme.tokens.colors.primary);
+    });
+
+    it('clearScope removes the rule and the scope id', () => {
+      const el = document.createElement('div');
+      injector.injectScope(el, lightTheme.tokens);
+
+      expect(injector.clearScope(el)).toBe(true);
+      expect(document.head.querySelectorAll('style')).toHaveLength(0);
+      expect(el.hasAttribute('data-themed-scope')).toBe(false);
+      expect(injector.clearScope(el)).toBe(false);
+    });
+  });
+
+  describe('adopted stylesheets', () => {
+    const shadowRootOf = () => document.createElement('div').attachShadow({ mode: 'open' });
+
+    it('adopts a :root stylesheet instead of creating a style element', () => {
+      const inj = new CSSInjector({ strategy: 'adopted' });
+      inj.inject(lightTheme.tokens);
+
+      expect(document.getElementById('themed-js-styles')).toBeNull();
+      const sheet = document.adoptedStyleSheets.at(-1);
+      expect(sheet?.cssRules[0].cssText).toContain(':root');
+
+      inj.clear();
+      expect(document.adoptedStyleSheets).not.toContain(sheet);
+    });
+
+    it('patches the adopted rule on update', () => {
+      const inj = new CSSInjector({ strategy: 'adopted' });
+      inj.inject(lightTheme.tokens);
+      inj.update(lightTheme.tokens, darkTheme.tokens);
+
+      const rule = document.adoptedStyleSheets.at(-1)?.cssRules[0] as CSSStyleRule;
+      expect(rule.style.getPropertyValue('--themed-color-primary')).toBe(
+        darkTheme.tokens.colors.primary
+      );
+      inj.clear();
+    });
+
+    it('themes shadow roots independently through :host', () => {
+      const inj = new CSSInjector({ strategy: 'adopted' });
+      const first = shadowRootOf();
+      const second = shadowRootOf();
+
+      inj.injectScope(first, lightTheme.tokens);
+      inj.injectScope(second, darkTheme.tokens);
+
+      expect(first.adoptedStyleSheets[0].cssRules[0].cssText).toContain(':host');
+      expect(first.adoptedStyleSheets[0].cssRules[0].cssText).toContain(
+        lightTheme.tokens.colors.primary
+      );
+      expect(second.adoptedStyleSheets[0].cssRules[0].cssText).toContain(
+        darkTheme.tokens.colors.primary
+      );
+
+      inj.clearScopes();
+      expect(first.adoptedStyleSheets).toHaveLength(0);
+      expect(second.host.hasAttribute('data-themed-scope')).toBe(false);
+    });
+
+    it('falls back to a style element inside the shadow root', () => {
+      const root = shadowRootOf();
+      injector.injectScope(root, lightTheme.tokens);
+
+      expect(root.querySelector('style')?.textContent).toContain(':host {');
+      expect(document.head.querySelectorAll('style')).toHaveLength(0);
+    });
+  });
+
+  describe('CSP', () => {
+    it('sets the nonce on injected style elements', () => {
+      const inj = new CSSInjector({ nonce: 'abc123' });
+      inj.inject(lightTheme.tokens);
+      inj.injectScope(document.createElement('div'), darkTheme.tokens);
+
+      const styles = document.head.querySelectorAll('style');
+      expect(styles).toHaveLength(2);
+      for (const style of styles) {
+        expect(style.getAttribute('nonce')).toBe('abc123');
+      }
+    });
+
+    it('reads the nonce from a getter', () => {
+      const inj = new CSSInjector({ nonce: () => 'from-getter' });
+      inj.inject(lightTheme.tokens);
+      expect(document.getElementById('themed-js-styles')?.getAttribute('nonce')).toBe(
+        'from-getter'
+      );
+    });
+
+    it('never creates a style element in inline mode', () => {
+      const inj = new CSSInjector({ strategy: 'inline' });
+      const scoped = document.createElement('div');
+      const shadowRoot = document.createElement('div').attachShadow({ mode: 'open' });
+
+      inj.inject(lightTheme.tokens);
+      inj.update(lightTheme.tokens, darkTheme.tokens);
+      inj.injectScope(scoped, lightTheme.tokens);
+      inj.injectScope(shadowRoot, lightTheme.tokens);
+
+      expect(document.querySelectorAll('style')).toHaveLength(0);
+      expect(shadowRoot.querySelectorAll('style')).toHaveLength(0);
+      expect(document.documentElement.style.getPropertyValue('--themed-color-primary')).toBe(
+        darkTheme.tokens.colors.primary
+      );
+      expect(scoped.style.getPropertyValue('--themed-color-primary')).toBe(
+        lightTheme.tokens.colors.primary
+      );
+      expect(
+        (shadowRoot.host as HTMLElement).style.getPropertyValue('--themed-color-primary')
+      ).toBe(lightTheme.tokens.colors.primary);
+
+      inj.clear();
+      inj.clearScopes();
+      expect(document.documentElement.style.getPropertyValue('--themed-color-primary')).toBe('');
+      expect(scoped.style.getPropertyValue('--themed-color-primary')).toBe('');
+    });
+  });
+
+  describe('precompiled themes', () => {
+    afterEach(() => {
+      document.documentElement.removeAttribute('data-theme');
+    });
+
+    it('compiles themes into [data-theme] blocks and switches by attribute', () => {
+      const inj = new CSSInjector({ strategy: 'precompiled' });
+      inj.compile('light', lightTheme.tokens);
+      inj.compile('dark', darkTheme.tokens);
+      inj.inject(darkTheme.tokens, 'dark');
+
+      const css = document.getElementById('themed-js-themes')?.textContent ?? '';
+      expect(css).toContain('[data-theme="light"] {');
+      expect(css).toContain('[data-theme="dark"] {');
+      expect(document.documentElement.getAttribute('data-theme')).toBe('dark');
+      expect(document.getElementById('themed-js-styles')).toBeNull();
+    });
+
+    it('only recompiles themes whose tokens changed', () => {
+      const inj = new CSSInjector({ strategy: 'precompiled' });
+      const toCSSString = vi.spyOn(inj.getResolver(), 'toCSSString');
+
+      inj.compile('light', lightTheme.tokens);
+      inj.compile('light', lightTheme.tokens);
+      expect(toCSSString).toHaveBeenCalledTimes(1);
+
+      inj.removeCompiled('light');
+      expect(document.getElementById('themed-js-themes')?.textContent).toBe('');
+    });
+
+    it('patches a compiled block in place on update and rewrites its text on the next compile', () => {
+      const inj = new CSSInjector({ strategy: 'precompiled' });
+      inj.compile('light', lightTheme.tokens);
+      const style = document.getElementById('themed-js-themes') as HTMLStyleElement;
+      const text = style.textContent;
+      const next = {
+        ...lightTheme.tokens,
+        colors: { ...lightTheme.tokens.colors, primary: '#000000' },
+      };
+
+      inj.update(lightTheme.tokens, next, 'light');
+
+      expect(style.textContent).toBe(text);
+      const rule = style.sheet?.cssRules[0] as CSSStyleRule;
+      expect(rule.style.getPropertyValue('--themed-color-primary')).toBe('#000000');
+
+      inj.compile('dark', darkTheme.tokens);
+      expect(style.textContent).toContain('--themed-color-primary: #000000;');
+      inj.clearCompiled();
+    });
+
+    it('is a no-op for other strategies', () => {
+      injector.compile('light', lightTheme.tokens);
+      expect(document.head.querySelectorAll('style')).toHaveLength(0);
+    });
+  });
+
   describe('getResolver', () => {
     it('returns TokenResolver instance', () => {
       const resolver = injector.getResolver();
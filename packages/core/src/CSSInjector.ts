@@ -2,38 +2,70 @@ import type { ThemeTokens } from './types/tokens';
 import type { CSSOptions } from './types/options';
 import { TokenResolver } from './TokenResolver';
 
+/** Attribute carrying the stable scope id of scoped and targeted elements */
+const SCOPE_ATTRIBUTE = 'data-themed-scope';
+
+/** Attribute selecting a precompiled theme */
+const THEME_ATTRIBUTE = 'data-theme';
+
+let scopeCounter = 0;
+
+/**
+ * Styles mounted for a scope: a <style> element, an adopted constructable stylesheet or inline variables
+ */
+interface MountedStyles {
+  root: Document | ShadowRoot;
+  /** The element holding inline variables in 'inline' mode */
+  style: HTMLStyleElement | CSSStyleSheet | HTMLElement;
+}
+
 /**
  * CSS injector for applying theme tokens to the DOM
  */
 export class CSSInjector {
   private styleElement: HTMLStyleElement | null = null;
+  private adoptedSheet: CSSStyleSheet | null = null;
   private tokenResolver: TokenResolver;
-  private options: Required<CSSOptions>;
+  private options: Required<Omit<CSSOptions, 'nonce'>> & Pick<CSSOptions, 'nonce'>;
   private styleId = 'themed-js-styles';
+  private themesStyleId = 'themed-js-themes';
+  /**
+   * Precompiled rule blocks by theme ID, keyed to the tokens they were compiled from.
+   * css is null after update() patched the block in place; it is regenerated on the next write.
+   */
+  private compiled = new Map<string, { tokens: ThemeTokens; css: string | null }>();
+  private scopes = new Map<HTMLElement | ShadowRoot, MountedStyles>();
 
   constructor(options: CSSOptions = {}) {
     this.options = {
       prefix: options.prefix ?? '--themed',
       target: options.target ?? null,
       useRoot: options.useRoot ?? true,
+      references: options.references ?? 'resolve',
+      strategy: options.strategy ?? 'style',
+      ramps: options.ramps ?? false,
+      colorFormat: options.colorFormat ?? 'preserve',
+      nonce: options.nonce,
     };
-    this.tokenResolver = new TokenResolver({ prefix: this.options.prefix });
+    this.tokenResolver = this.createResolver();
   }
 
   /**
-   * Inject theme tokens as CSS variables
+   * Inject theme tokens as CSS variables.
+   * With the 'precompiled' strategy and a theme ID, compiles the theme if needed and switches data-theme.
    */
-  inject(tokens: ThemeTokens): void {
+  inject(tokens: ThemeTokens, themeId?: string): void {
     // Check if we're in a browser environment
     if (typeof document === 'undefined') {
       return;
     }
 
-    const cssString = this.toCSSString(tokens);
-
-    if (this.options.useRoot) {
-      // Inject via style element for :root
-      this.injectStyleElement(cssString);
+    if (this.options.strategy === 'precompiled' && themeId) {
+      this.compile(themeId, tokens);
+      (this.options.target ?? document.documentElement).setAttribute(THEME_ATTRIBUTE, themeId);
+    } else if (this.options.useRoot && this.options.strategy !== 'inline') {
+      // Inject via style element or adopted stylesheet for :root
+      this.injectRootStyles(this.toCSSString(tokens));
     } else if (this.options.target) {
       // Apply directly to target element
       this.applyToElement(tokens, this.options.target);
@@ -43,6 +75,56 @@ export class CSSInjector {
     }
   }
 
+  /**
+   * Re-inject only the CSS variables that differ between two token sets.
+   * With the 'precompiled' strategy the theme's rule block is patched in place, so frequent updates
+   * (e.g. a streamed preview) do not rewrite every compiled theme.
+   * Returns the names of the variables that changed.
+   */
+  update(previous: ThemeTokens, next: ThemeTokens, themeId?: string): string[] {
+    if (typeof document === 'undefined') {
+      return [];
+    }
+
+    const before = this.tokenResolver.toCSSVariables(previous);
+    const after = this.tokenResolver.toCSSVariables(next);
+    const changed = Object.keys(after).filter((key) => before[key] !== after[key]);
+
+    if (changed.length === 0) {
+      return changed;
+    }
+
+    if (this.options.strategy === 'precompiled' && themeId) {
+      const rule = this.compiled.has(themeId) ? this.findCompiledRule(themeId) : undefined;
+      if (rule) {
+        for (const key of changed) {
+          rule.style.setProperty(key, after[key]);
+        }
+        this.compiled.set(themeId, { tokens: next, css: null });
+      } else {
+        this.compile(themeId, next);
+      }
+    } else if (this.options.useRoot && this.options.strategy !== 'inline') {
+      const sheet = this.adoptedSheet ?? this.styleElement?.sheet;
+      const rule = sheet?.cssRules[0];
+      if (rule instanceof CSSStyleRule) {
+        // Patch the existing rule in place instead of rewriting the whole stylesheet
+        for (const key of changed) {
+          rule.style.setProperty(key, after[key]);
+        }
+      } else {
+        this.injectRootStyles(this.toCSSString(next));
+      }
+    } else {
+      const element = this.options.target ?? document.documentElement;
+      for (const key of changed) {
+        element.style.setProperty(key, after[key]);
+      }
+    }
+
+    return changed;
+  }
+
   /**
    * Clear injected styles
    */
@@ -57,9 +139,123 @@ export class CSSInjector {
       this.styleElement = null;
     }
 
+    // Remove adopted stylesheet
+    if (this.adoptedSheet) {
+      this.unmountStyles({ root: document, style: this.adoptedSheet });
+      this.adoptedSheet = null;
+    }
+
     // Clear inline styles from target
     if (this.options.target) {
       this.clearFromElement(this.options.target);
+    } else if (this.options.strategy === 'inline') {
+      this.clearFromElement(document.documentElement);
+    }
+
+    // Deselect the precompiled theme; the compiled blocks stay until clearCompiled()
+    if (this.options.strategy === 'precompiled') {
+      (this.options.target ?? document.documentElement).removeAttribute(THEME_ATTRIBUTE);
+    }
+  }
+
+  /**
+   * With the 'precompiled' strategy, compile a theme into its [data-theme] rule block.
+   * Only themes whose tokens changed since the last compile are re-resolved. No-op otherwise.
+   */
+  compile(themeId: string, tokens: ThemeTokens): void {
+    if (this.options.strategy !== 'precompiled') {
+      return;
+    }
+    if (this.compiled.get(themeId)?.tokens === tokens) {
+      return;
+    }
+
+    this.compiled.set(themeId, {
+      tokens,
+      css: this.tokenResolver.toCSSString(tokens, getThemeSelector(themeId)),
+    });
+    this.writeCompiled();
+  }
+
+  /**
+   * Remove a theme's precompiled rule block
+   */
+  removeCompiled(themeId: string): void {
+    if (this.compiled.delete(themeId)) {
+      this.writeCompiled();
+    }
+  }
+
+  /**
+   * Remove all precompiled rule blocks
+   */
+  clearCompiled(): void {
+    this.compiled.clear();
+    if (typeof document !== 'undefined') {
+      document.getElementById(this.themesStyleId)?.remove();
+    }
+  }
+
+  /**
+   * Generate [data-theme] rule blocks for several themes (e.g. for server-side rendering)
+   */
+  toThemesCSSString(themes: { id: string; tokens: ThemeTokens }[]): string {
+    return themes
+      .map((theme) => this.tokenResolver.toCSSString(theme.tokens, getThemeSelector(theme.id)))
+      .join('\n\n');
+  }
+
+  /**
+   * Inject theme tokens for a DOM subtree as a rule keyed by the element's scope id.
+   * Shadow roots get a :host rule inside the shadow root, with the scope id on the host.
+   * Nested scopes override their ancestors through regular CSS variable inheritance.
+   * Returns the scope id.
+   */
+  injectScope(target: HTMLElement | ShadowRoot, tokens: ThemeTokens): string {
+    const shadow = isShadowRoot(target);
+    const scopeId = this.getScopeId(shadow ? (target.host as HTMLElement) : target);
+    const selector = shadow ? ':host' : `[${SCOPE_ATTRIBUTE}="${scopeId}"]`;
+    const root = shadow ? target : document;
+
+    if (this.options.strategy === 'inline') {
+      // Variables on the host are inherited by the shadow tree, like a :host rule
+      const element = shadow ? (target.host as HTMLElement) : target;
+      this.applyToElement(tokens, element);
+      this.scopes.set(target, { root, style: element });
+      return scopeId;
+    }
+
+    const mounted = this.mountStyles(
+      root,
+      `${this.styleId}-${scopeId}`,
+      this.tokenResolver.toCSSString(tokens, selector),
+      this.scopes.get(target)?.style
+    );
+    this.scopes.set(target, { root, style: mounted });
+    return scopeId;
+  }
+
+  /**
+   * Remove a scope's styles and id. Returns false if the target is not scoped.
+   */
+  clearScope(target: HTMLElement | ShadowRoot): boolean {
+    const mounted = this.scopes.get(target);
+    if (!mounted) {
+      return false;
+    }
+
+    this.unmountStyles(mounted);
+    this.scopes.delete(target);
+    (isShadowRoot(target) ? target.host : target).removeAttribute(SCOPE_ATTRIBUTE);
+    return true;
+  }
+
+  /**
+   * Remove all scopes
+   */
+  clearScopes(): void {
+    for (const target of Array.from(this.scopes.keys())) {
+      this.clearScope(target);
     }
   }
 
@@ -78,12 +274,26 @@ export class CSSInjector {
     return this.tokenResolver;
   }
 
+  /**
+   * Get the id of the <style> element used by the strategy (the :root or the precompiled stylesheet)
+   */
+  getStyleId(): string {
+    return this.options.strategy === 'precompiled' ? this.themesStyleId : this.styleId;
+  }
+
+  /**
+   * Get the injection strategy
+   */
+  getStrategy(): NonNullable<CSSOptions['strategy']> {
+    return this.options.strategy;
+  }
+
   /**
    * Update the CSS prefix
    */
   setPrefix(prefix: string): void {
     this.options.prefix = prefix;
-    this.tokenResolver = new TokenResolver({ prefix });
+    this.tokenResolver = this.createResolver();
   }
 
   /**
@@ -94,6 +304,100 @@ export class CSSInjector {
     this.options.target = target;
   }
 
+  /**
+   * Create the token resolver for the current options
+   */
+  private createResolver(): TokenResolver {
+    return new TokenResolver({
+      prefix: this.options.prefix,
+      references: this.options.references,
+      ramps: this.options.ramps,
+      colorFormat: this.options.colorFormat,
+    });
+  }
+
+  /**
+   * Inject :root CSS with the configured strategy
+   */
+  private injectRootStyles(cssString: string): void {
+    if (this.options.strategy === 'adopted') {
+      const sheet = this.adoptSheet(document, cssString, this.adoptedSheet);
+      if (sheet) {
+        this.adoptedSheet = sheet;
+        return;
+      }
+    }
+    this.injectStyleElement(cssString);
+  }
+
+  /**
+   * Write CSS into a root with the configured strategy, reusing the previously mounted style
+   */
+  private mountStyles(
+    root: Document | ShadowRoot,
+    id: string,
+    cssString: string,
+    current?: MountedStyles['style']
+  ): HTMLStyleElement | CSSStyleSheet {
+    if (this.options.strategy === 'adopted') {
+      const sheet = this.adoptSheet(
+        root,
+        cssString,
+        current instanceof CSSStyleSheet ? current : null
+      );
+      if (sheet) {
+        return sheet;
+      }
+    }
+
+    let styleEl = current instanceof HTMLStyleElement ? current : null;
+    if (!styleEl) {
+      styleEl = this.createStyleElement(id);
+      (isShadowRoot(root) ? root : document.head).appendChild(styleEl);
+    }
+
+    styleEl.textContent = cssString;
+    return styleEl;
+  }
+
+  /**
+   * Remove mounted styles from their root
+   */
+  private unmountStyles({ root, style }: MountedStyles): void {
+    if (style instanceof HTMLStyleElement) {
+      style.remove();
+    } else if (style instanceof HTMLElement) {
+      this.clearFromElement(style);
+    } else {
+      root.adoptedStyleSheets = root.adoptedStyleSheets.filter((sheet) => sheet !== style);
+    }
+  }
+
+  /**
+   * Write CSS into a constructable stylesheet adopted by the root.
+   * Returns null when constructable stylesheets are unsupported.
+   */
+  private adoptSheet(
+    root: Document | ShadowRoot,
+    cssString: string,
+    sheet: CSSStyleSheet | null
+  ): CSSStyleSheet | null {
+    if (
+      typeof CSSStyleSheet === 'undefined' ||
+      typeof CSSStyleSheet.prototype.replaceSync !== 'function' ||
+      !Array.isArray(root.adoptedStyleSheets)
+    ) {
+      return null;
+    }
+
+    const target = sheet ?? new CSSStyleSheet();
+    target.replaceSync(cssString);
+    if (!root.adoptedStyleSheets.includes(target)) {
+      root.adoptedStyleSheets = [...root.adoptedStyleSheets, target];
+    }
+    return target;
+  }
+
   /**
    * Inject CSS via style element
    */
@@ -102,9 +406,7 @@ export class CSSInjector {
     let styleEl = document.getElementById(this.styleId) as HTMLStyleElement | null;
 
     if (!styleEl) {
-      styleEl = document.createElement('style');
-      styleEl.id = this.styleId;
-      styleEl.setAttribute('data-themed', 'true');
+      styleEl = this.createStyleElement(this.styleId);
       document.head.appendChild(styleEl);
     }
 
@@ -112,6 +414,54 @@ export class CSSInjector {
     this.styleElement = styleEl;
   }
 
+  /**
+   * Write all precompiled rule blocks into their stylesheet
+   */
+  private writeCompiled(): void {
+    if (typeof document === 'undefined') {
+      return;
+    }
+
+    let styleEl = document.getElementById(this.themesStyleId) as HTMLStyleElement | null;
+    if (!styleEl) {
+      styleEl = this.createStyleElement(this.themesStyleId);
+      document.head.appendChild(styleEl);
+    }
+
+    styleEl.textContent = Array.from(this.compiled, ([themeId, entry]) => {
+      entry.css ??= this.tokenResolver.toCSSString(entry.tokens, getThemeSelector(themeId));
+      return entry.css;
+    }).join('\n\n');
+  }
+
+  /**
+   * Find a theme's rule block in the precompiled stylesheet
+   */
+  private findCompiledRule(themeId: string): CSSStyleRule | undefined {
+    const styleEl = document.getElementById(this.themesStyleId) as HTMLStyleElement | null;
+    const selector = getThemeSelector(themeId);
+    return Array.from(styleEl?.sheet?.cssRules ?? []).find(
+      (rule): rule is CSSStyleRule => rule instanceof CSSStyleRule && rule.selectorText === selector
+    );
+  }
+
+  /**
+   * Create a <style> element carrying the CSP nonce, if configured
+   */
+  private createStyleElement(id: string): HTMLStyleElement {
+    const styleEl = document.createElement('style');
+    styleEl.id = id;
+    styleEl.setAttribute('data-themed', 'true');
+
+    const nonce =
+      typeof this.options.nonce === 'function' ? this.options.nonce() : this.options.nonce;
+    if (nonce) {
+      styleEl.setAttribute('nonce', nonce);
+    }
+
+    return styleEl;
+  }
+
   /**
    * Apply tokens directly to an element
    */
@@ -154,9 +504,33 @@ export class CSSInjector {
       return `#${this.options.target.id}`;
     }
 
-    // Use data attribute as fallback
-    const dataId = `themed-target-${Date.now()}`;
-    this.options.target.setAttribute('data-themed-target', dataId);
-    return `[data-themed-target="${dataId}"]`;
+    // Use the stable scope id as fallback
+    return `[${SCOPE_ATTRIBUTE}="${this.getScopeId(this.options.target)}"]`;
+  }
+
+  /**
+   * Get an element's scope id, assigning a new one on first use
+   */
+  private getScopeId(element: HTMLElement): string {
+    let scopeId = element.getAttribute(SCOPE_ATTRIBUTE);
+    if (!scopeId) {
+      scopeId = `scope-${++scopeCounter}`;
+      element.setAttribute(SCOPE_ATTRIBUTE, scopeId);
+    }
+    return scopeId;
   }
 }
+
+/**
+ * Check if a scope target is a shadow root
+ */
+function isShadowRoot(target: Node): target is ShadowRoot {
+  return typeof ShadowRoot !== 'undefined' && target instanceof ShadowRoot;
+}
+
+/**
+ * Get the selector of a precompiled theme
+ */
+function getThemeSelector(themeId: string): string {
+  return `[${THEME_ATTRIBUTE}="${themeId.replace(/["\\]/g, '\\$&')}"]`;
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { ThemeHistory } from './ThemeHistory';
+import type { HistoryEntry } from './types/history';
+
+const entry = (activeThemeId: string): HistoryEntry => ({
+  action: 'apply',
+  before: { activeThemeId: null, themes: {} },
+  after: { activeThemeId, themes: {} },
+  timestamp: Date.now(),
+});
+
+describe('ThemeHistory', () => {
+  it('undoes and redoes in order', () => {
+    const history = new ThemeHistory();
+    history.push(entry('a'));
+    history.push(entry('b'));
+
+    expect(history.undo()?.after.activeThemeId).toBe('b');
+    expect(history.undo()?.after.activeThemeId).toBe('a');
+    expect(history.undo()).toBeNull();
+    expect(history.canUndo()).toBe(false);
+    expect(history.canRedo()).toBe(true);
+
+    expect(history.redo()?.after.activeThemeId).toBe('a');
+    expect(history.canUndo()).toBe(true);
+  });
+
+  it('clears the redo stack on push', () => {
+    const history = new ThemeHistory();
+    history.push(entry('a'));
+    history.undo();
+    history.push(entry('b'));
+    expect(history.canRedo()).toBe(false);
+  });
+
+  it('drops the oldest entries past the limit', () => {
+    const history = new ThemeHistory({ limit: 2 });
+    history.push(entry('a'));
+    history.push(entry('b'));
+    history.push(entry('c'));
+    expect(history.getEntries().map((e) => e.after.activeThemeId)).toEqual(['b', 'c']);
+  });
+
+  it('clear empties both stacks', () => {
+    const history = new ThemeHistory();
+    history.push(entry('a'));
+    history.push(entry('b'));
+    history.undo();
+    history.clear();
+    expect(history.canUndo()).toBe(false);
+    expect(history.canRedo()).toBe(false);
+  });
+});
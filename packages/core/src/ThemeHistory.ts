@@ -0,0 +1,76 @@
+import type { HistoryEntry, HistoryOptions } from './types/history';
+
+/**
+ * Bounded undo/redo stack of theme history entries
+ */
+export class ThemeHistory {
+  private past: HistoryEntry[] = [];
+  private future: HistoryEntry[] = [];
+  private limit: number;
+
+  constructor(options: HistoryOptions = {}) {
+    this.limit = Math.max(1, options.limit ?? 50);
+  }
+
+  /**
+   * Record a new entry. Drops the oldest entry past the limit and clears the redo stack.
+   */
+  push(entry: HistoryEntry): void {
+    this.past.push(entry);
+    if (this.past.length > this.limit) {
+      this.past.shift();
+    }
+    this.future = [];
+  }
+
+  /**
+   * Move the latest entry to the redo stack and return it
+   */
+  undo(): HistoryEntry | null {
+    const entry = this.past.pop();
+    if (!entry) return null;
+
+    this.future.push(entry);
+    return entry;
+  }
+
+  /**
+   * Move the latest undone entry back to the undo stack and return it
+   */
+  redo(): HistoryEntry | null {
+    const entry = this.future.pop();
+    if (!entry) return null;
+
+    this.past.push(entry);
+    return entry;
+  }
+
+  /**
+   * Check if there is an entry to undo
+   */
+  canUndo(): boolean {
+    return this.past.length > 0;
+  }
+
+  /**
+   * Check if there is an entry to redo
+   */
+  canRedo(): boolean {
+    return this.future.length > 0;
+  }
+
+  /**
+   * Get the recorded entries, oldest first
+   */
+  getEntries(): HistoryEntry[] {
+    return [...this.past];
+  }
+
+  /**
+   * Remove all entries
+   */
+  clear(): void {
+    this.past = [];
+    this.future = [];
+  }
+}
@@ -1,6 +1,7 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { ThemeManager } from './ThemeManager';
-import { lightTheme, darkTheme } from './themes';
+import type { Message } from './ai/providers/base';
+import { darkTheme, defaultScheme, lightTheme } from './themes';
 import { createTheme } from './types/theme';
 
 describe('ThemeManager', () => {
@@ -123,4 +124,942 @@ describe('ThemeManager', () => {
       expect(() => manager.updateThemeCustom('nonexistent', {})).toThrow();
     });
   });
+
+  describe('color schemes', () => {
+    let prefersDark: boolean;
+    let changeListeners: Set<(event: MediaQueryListEvent) => void>;
+
+    const setSystemDark = (dark: boolean) => {
+      prefersDark = dark;
+      for (const listener of changeListeners) {
+        listener({ matches: dark } as MediaQueryListEvent);
+      }
+    };
+
+    beforeEach(() => {
+      prefersDark = false;
+      changeListeners = new Set();
+      vi.spyOn(window, 'matchMedia').mockImplementation(
+        (query: string) =>
+          ({
+            media: query,
+            get matches() {
+              return prefersDark;
+            },
+            addEventListener: (_: string, listener: (event: MediaQueryListEvent) => void) =>
+              changeListeners.add(listener),
+            removeEventListener: (_: string, listener: (event: MediaQueryListEvent) => void) =>
+              changeListeners.delete(listener),
+          }) as unknown as MediaQueryList
+      );
+      manager = new ThemeManager({
+        themes: [lightTheme, darkTheme],
+        schemes: [defaultScheme],
+        storage: { type: 'none' },
+      });
+    });
+
+    afterEach(() => {
+      manager.destroy();
+      vi.restoreAllMocks();
+    });
+
+    it('applies the variant for an explicit mode', async () => {
+      await manager.setMode('dark');
+      expect(manager.getMode()).toBe('dark');
+      expect(manager.getColorScheme()).toBe('dark');
+      expect(manager.getActive()?.id).toBe('dark');
+    });
+
+    it('follows prefers-color-scheme live in system mode', async () => {
+      prefersDark = true;
+      await manager.setMode('system');
+      expect(manager.getActive()?.id).toBe('dark');
+
+      setSystemDark(false);
+      await vi.waitFor(() => expect(manager.getActive()?.id).toBe('light'));
+      expect(manager.getColorScheme()).toBe('light');
+    });
+
+    it('does not record OS-driven scheme switches in history', async () => {
+      await manager.setMode('system');
+      const handler = vi.fn();
+      manager.on('history:changed', handler);
+
+      setSystemDark(true);
+      await vi.waitFor(() => expect(manager.getActive()?.id).toBe('dark'));
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('stops following the OS once an explicit mode is set', async () => {
+      await manager.setMode('system');
+      await manager.setMode('light');
+      expect(changeListeners.size).toBe(0);
+    });
+
+    it('emits theme:scheme-changed only when the resolved scheme changes', async () => {
+      const handler = vi.fn();
+      manager.on('theme:scheme-changed', handler);
+
+      await manager.setMode('light');
+      await manager.setMode('system');
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      await manager.setMode('dark');
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(handler).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          colorScheme: 'dark',
+          previousColorScheme: 'light',
+          mode: 'dark',
+          schemeId: 'default',
+        })
+      );
+    });
+
+    it('setScheme applies the matching variant of the new scheme', async () => {
+      const dim = createTheme({ id: 'dim', name: 'Dim', tokens: darkTheme.tokens });
+      manager.register(dim);
+      manager.registerScheme({ id: 'dim', name: 'Dim', light: 'light', dark: 'dim' });
+
+      await manager.setMode('dark');
+      await manager.setScheme('dim');
+      expect(manager.getActive()?.id).toBe('dim');
+    });
+
+    it('throws when no scheme is registered', async () => {
+      const bare = new ThemeManager({ themes: [lightTheme], storage: { type: 'none' } });
+      await expect(bare.setMode('dark')).rejects.toThrow('No theme scheme registered');
+    });
+
+    it('applies the mode option on init and persists the mode choice', async () => {
+      localStorage.clear();
+      const persisted = new ThemeManager({
+        themes: [lightTheme, darkTheme],
+        schemes: [defaultScheme],
+        defaultTheme: 'light',
+        mode: 'dark',
+      });
+      await persisted.init();
+      expect(persisted.getActive()?.id).toBe('dark');
+
+      await persisted.setMode('system');
+      expect(localStorage.getItem('themed:colorMode')).toBe('system');
+
+      const reloaded = new ThemeManager({
+        themes: [lightTheme, darkTheme],
+        schemes: [defaultScheme],
+        mode: 'dark',
+      });
+      await reloaded.init();
+      expect(reloaded.getMode()).toBe('system');
+      expect(reloaded.getActive()?.id).toBe('light');
+
+      persisted.destroy();
+      reloaded.destroy();
+      localStorage.clear();
+    });
+
+    it('does not save the mode option as a mode choice', async () => {
+      localStorage.clear();
+      const initial = new ThemeManager({
+        themes: [lightTheme, darkTheme],
+        schemes: [defaultScheme],
+        mode: 'system',
+      });
+      await initial.init();
+
+      expect(localStorage.getItem('themed:colorMode')).toBeNull();
+
+      initial.destroy();
+      localStorage.clear();
+    });
+
+    it('drops the saved mode when a theme outside the scheme is applied', async () => {
+      localStorage.clear();
+      const ocean = createTheme({ id: 'ocean', name: 'Ocean', tokens: darkTheme.tokens });
+      const options = {
+        themes: [lightTheme, darkTheme, ocean],
+        schemes: [defaultScheme],
+        mode: 'light' as const,
+      };
+      const first = new ThemeManager(options);
+      await first.init();
+      await first.setMode('dark');
+      await first.apply('ocean');
+
+      expect(first.getMode()).toBeNull();
+      expect(localStorage.getItem('themed:colorMode')).toBeNull();
+
+      const reloaded = new ThemeManager(options);
+      await reloaded.init();
+      expect(reloaded.getActive()?.id).toBe('ocean');
+      expect(reloaded.getMode()).toBeNull();
+
+      first.destroy();
+      reloaded.destroy();
+      localStorage.clear();
+    });
+
+    it('stops following the OS when a theme outside the scheme is applied', async () => {
+      manager.register(createTheme({ id: 'ocean', name: 'Ocean', tokens: darkTheme.tokens }));
+      await manager.setMode('system');
+      await manager.apply('ocean');
+
+      expect(changeListeners.size).toBe(0);
+      setSystemDark(true);
+      await Promise.resolve();
+      expect(manager.getActive()?.id).toBe('ocean');
+      expect(manager.getColorScheme()).toBeNull();
+    });
+
+    it('ends the mode when undo restores a theme the mode would not pick', async () => {
+      await manager.apply('light');
+      prefersDark = true;
+      await manager.setMode('system');
+      expect(manager.getActive()?.id).toBe('dark');
+
+      await manager.undo();
+      expect(manager.getActive()?.id).toBe('light');
+      expect(manager.getMode()).toBeNull();
+
+      setSystemDark(false);
+      setSystemDark(true);
+      await Promise.resolve();
+      expect(manager.getActive()?.id).toBe('light');
+    });
+
+    it('keeps the mode when a variant of the scheme is applied', async () => {
+      await manager.setMode('system');
+      await manager.apply('dark');
+      expect(manager.getMode()).toBe('system');
+    });
+  });
+
+  describe('inheritance', () => {
+    it('resolves a multi-level extends chain', () => {
+      manager.register({
+        id: 'teal',
+        name: 'Teal',
+        extends: 'dark',
+        tokens: { colors: { primary: '#14b8a6' } },
+      });
+      manager.register({
+        id: 'teal-round',
+        name: 'Teal Round',
+        extends: 'teal',
+        tokens: { radius: { md: '1rem' } },
+      });
+
+      const theme = manager.get('teal-round')!;
+      expect(theme.tokens.colors.primary).toBe('#14b8a6');
+      expect(theme.tokens.colors.background).toBe(darkTheme.tokens.colors.background);
+      expect(theme.tokens.radius?.md).toBe('1rem');
+    });
+
+    it('throws for a missing parent', () => {
+      expect(() => manager.register({ id: 'orphan', name: 'Orphan', extends: 'missing' })).toThrow(
+        'Parent theme not found: missing'
+      );
+    });
+
+    it('detects cycles', () => {
+      manager.register({ id: 'a', name: 'A', extends: 'dark' });
+      manager.register({ id: 'b', name: 'B', extends: 'a' });
+      expect(() => manager.register({ id: 'a', name: 'A', extends: 'b' })).toThrow(
+        'Circular theme inheritance: a -> b -> a'
+      );
+    });
+
+    it('re-resolves children when the parent changes and re-injects an active child', async () => {
+      manager.register({
+        id: 'teal',
+        name: 'Teal',
+        extends: 'dark',
+        tokens: { colors: { primary: '#14b8a6' } },
+      });
+      await manager.apply('teal');
+
+      manager.register({
+        ...darkTheme,
+        tokens: {
+          ...darkTheme.tokens,
+          colors: { ...darkTheme.tokens.colors, background: '#000000' },
+        },
+      });
+
+      expect(manager.get('teal')?.tokens.colors.background).toBe('#000000');
+      expect(manager.get('teal')?.tokens.colors.primary).toBe('#14b8a6');
+      expect(manager.getActive()?.tokens.colors.background).toBe('#000000');
+      expect(document.getElementById('themed-js-styles')?.textContent).toContain('#000000');
+    });
+  });
+
+  describe('updateTokens', () => {
+    it('deep-merges tokens and bumps updatedAt', async () => {
+      const updated = await manager.updateTokens('light', {
+        colors: { primary: '#000000' },
+        typography: { fontFamily: { sans: 'Inter' } },
+      });
+
+      expect(updated.tokens.colors.primary).toBe('#000000');
+      expect(updated.tokens.colors.secondary).toBe(lightTheme.tokens.colors.secondary);
+      expect(updated.tokens.typography.fontFamily.sans).toBe('Inter');
+      expect(updated.tokens.typography.fontFamily.mono).toBe(
+        lightTheme.tokens.typography.fontFamily.mono
+      );
+      expect(updated.meta.updatedAt).toBeGreaterThan(0);
+      expect(manager.get('light')).toBe(updated);
+    });
+
+    it('emits theme:updated with the changed token paths', async () => {
+      const handler = vi.fn();
+      manager.on('theme:updated', handler);
+
+      await manager.updateTokens('light', {
+        colors: { primary: '#000000', secondary: lightTheme.tokens.colors.secondary },
+      });
+
+      expect(handler).toHaveBeenCalledWith(
+        expect.objectContaining({ changedPaths: ['colors.primary'] })
+      );
+    });
+
+    it('does nothing when no token changes', async () => {
+      const handler = vi.fn();
+      manager.on('theme:updated', handler);
+      const theme = await manager.updateTokens('light', { colors: { primary: '#6366f1' } });
+      expect(theme).toBe(manager.get('light'));
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('updates the active theme CSS', async () => {
+      await manager.apply('light');
+      await manager.updateTokens('light', { colors: { primary: '#000000' } });
+
+      expect(manager.getActive()?.tokens.colors.primary).toBe('#000000');
+      const style = document.getElementById('themed-js-styles') as HTMLStyleElement;
+      const rule = style.sheet?.cssRules[0] as CSSStyleRule;
+      expect(rule.style.getPropertyValue('--themed-color-primary')).toBe('#000000');
+    });
+
+    it('re-resolves children and keeps edits of inherited themes across parent changes', async () => {
+      manager.register({ id: 'teal', name: 'Teal', extends: 'dark' });
+      await manager.updateTokens('dark', { colors: { background: '#000000' } });
+      expect(manager.get('teal')?.tokens.colors.background).toBe('#000000');
+
+      await manager.updateTokens('teal', { colors: { primary: '#14b8a6' } });
+      await manager.updateTokens('dark', { colors: { surface: '#111111' } });
+      expect(manager.get('teal')?.tokens.colors.primary).toBe('#14b8a6');
+      expect(manager.get('teal')?.tokens.colors.surface).toBe('#111111');
+    });
+
+    it('persists the theme when autoSave is on', async () => {
+      localStorage.clear();
+      const persisted = new ThemeManager({ themes: [lightTheme] });
+      await persisted.updateTokens('light', { colors: { primary: '#000000' } });
+
+      const saved = await persisted.getStorageManager()?.getTheme('light');
+      expect(saved?.tokens.colors.primary).toBe('#000000');
+      localStorage.clear();
+    });
+
+    it('throws for unknown themes', async () => {
+      await expect(manager.updateTokens('missing', {})).rejects.toThrow('Theme not found');
+    });
+  });
+
+  describe('history', () => {
+    it('undoes and redoes theme switches', async () => {
+      await manager.apply('light');
+      await manager.apply('dark');
+
+      expect(await manager.undo()).toBe(true);
+      expect(manager.getActive()?.id).toBe('light');
+      expect(manager.canRedo()).toBe(true);
+
+      expect(await manager.redo()).toBe(true);
+      expect(manager.getActive()?.id).toBe('dark');
+      expect(manager.canRedo()).toBe(false);
+    });
+
+    it('undoes token edits and emits theme:updated', async () => {
+      await manager.apply('light');
+      await manager.updateTokens('light', { colors: { primary: '#000000' } });
+
+      const handler = vi.fn();
+      manager.on('theme:updated', handler);
+      await manager.undo();
+
+      expect(manager.get('light')?.tokens.colors.primary).toBe('#6366f1');
+      expect(manager.getActive()?.tokens.colors.primary).toBe('#6366f1');
+      expect(handler).toHaveBeenCalledWith(
+        expect.objectContaining({ changedPaths: ['colors.primary'] })
+      );
+    });
+
+    it('drops the redo stack on a new change and emits history:changed', async () => {
+      const handler = vi.fn();
+      manager.on('history:changed', handler);
+
+      await manager.apply('dark');
+      await manager.undo();
+      await manager.apply('light');
+
+      expect(manager.canRedo()).toBe(false);
+      expect(handler).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          reason: 'record',
+          action: 'apply',
+          canUndo: true,
+          canRedo: false,
+        })
+      );
+    });
+
+    it('records changes made while an undo is being restored', async () => {
+      const stored = new ThemeManager({
+        themes: [lightTheme, darkTheme],
+        storage: { type: 'localStorage' },
+      });
+      await stored.updateTokens('light', { colors: { primary: '#000000' } });
+
+      // The undo awaits storage, so the apply lands in the middle of it
+      const undoing = stored.undo();
+      await stored.apply('dark');
+      await undoing;
+
+      expect(stored.canUndo()).toBe(true);
+      stored.destroy();
+      localStorage.clear();
+    });
+
+    it('returns false when there is nothing to undo and can be disabled', async () => {
+      expect(await manager.undo()).toBe(false);
+
+      const disabled = new ThemeManager({
+        themes: [lightTheme, darkTheme],
+        storage: { type: 'none' },
+        history: false,
+      });
+      await disabled.apply('dark');
+      expect(disabled.canUndo()).toBe(false);
+    });
+  });
+
+  describe('preview', () => {
+    const getPrimary = () => {
+      const style = document.getElementById('themed-js-styles') as HTMLStyleElement;
+      return style.textContent?.match(/--themed-color-primary: ([^;]+);/)?.[1];
+    };
+
+    it('injects CSS without changing the active theme or emitting theme:changed', async () => {
+      await manager.apply('light');
+      const changed = vi.fn();
+      const started = vi.fn();
+      manager.on('theme:changed', changed);
+      manager.on('theme:preview-start', started);
+
+      manager.preview('dark');
+
+      expect(getPrimary()).toBe(darkTheme.tokens.colors.primary);
+      expect(manager.getActive()?.id).toBe('light');
+      expect(manager.getPreview()?.id).toBe('dark');
+      expect(changed).not.toHaveBeenCalled();
+      expect(started).toHaveBeenCalledWith(
+        expect.objectContaining({ theme: darkTheme, activeTheme: lightTheme })
+      );
+    });
+
+    it('cancelPreview restores the active theme', async () => {
+      await manager.apply('light');
+      const ended = vi.fn();
+      manager.on('theme:preview-end', ended);
+
+      manager.preview('dark');
+      manager.cancelPreview();
+
+      expect(getPrimary()).toBe(lightTheme.tokens.colors.primary);
+      expect(manager.getPreview()).toBeNull();
+      expect(ended).toHaveBeenCalledWith(
+        expect.objectContaining({ theme: darkTheme, committed: false })
+      );
+    });
+
+    it('commitPreview registers and applies unregistered themes', async () => {
+      const candidate = createTheme({
+        id: 'candidate',
+        name: 'Candidate',
+        tokens: darkTheme.tokens,
+      });
+      const ended = vi.fn();
+      manager.on('theme:preview-end', ended);
+
+      manager.preview(candidate);
+      expect(manager.has('candidate')).toBe(false);
+
+      expect(await manager.commitPreview()).toBe(candidate);
+      expect(manager.getActive()?.id).toBe('candidate');
+      expect(ended).toHaveBeenCalledWith(expect.objectContaining({ committed: true }));
+    });
+
+    it('does not persist the previewed theme', async () => {
+      localStorage.clear();
+      const persisted = new ThemeManager({ themes: [lightTheme, darkTheme] });
+      await persisted.apply('light');
+
+      persisted.preview('dark');
+      expect(await persisted.getStorageManager()?.getActiveThemeId()).toBe('light');
+      localStorage.clear();
+    });
+
+    it('throws for unknown theme ids', () => {
+      expect(() => manager.preview('missing')).toThrow('Theme not found');
+    });
+  });
+
+  describe('scoped themes', () => {
+    let sidebar: HTMLElement;
+    let card: HTMLElement;
+
+    beforeEach(() => {
+      document.body.innerHTML = '<aside><div class="card"></div></aside>';
+      sidebar = document.querySelector('aside') as HTMLElement;
+      card = document.querySelector('.card') as HTMLElement;
+    });
+
+    const getScopeCSS = (element: HTMLElement) => {
+      const scopeId = element.getAttribute('data-themed-scope');
+      return document.getElementById(`themed-js-styles-${scopeId}`)?.textContent;
+    };
+
+    it('applies a theme to a subtree without changing the active theme', async () => {
+      await manager.apply('light');
+      manager.applyTo(sidebar, 'dark');
+
+      expect(manager.getActive()?.id).toBe('light');
+      expect(getScopeCSS(sidebar)).toContain(darkTheme.tokens.colors.primary);
+    });
+
+    it('resolves the nearest scope for nested elements', async () => {
+      await manager.apply('light');
+      manager.applyTo(sidebar, 'dark');
+      const release = manager.applyTo(card, 'light');
+
+      expect(manager.getThemeFor(card)?.id).toBe('light');
+      expect(manager.getThemeFor(sidebar)?.id).toBe('dark');
+
+      release();
+      expect(manager.getThemeFor(card)?.id).toBe('dark');
+      expect(card.hasAttribute('data-themed-scope')).toBe(false);
+      expect(getScopeCSS(sidebar)).toBeDefined();
+    });
+
+    it('re-injects scopes when their theme changes', async () => {
+      manager.applyTo(sidebar, 'dark');
+      await manager.updateTokens('dark', { colors: { primary: '#000000' } });
+      expect(getScopeCSS(sidebar)).toContain('--themed-color-primary: #000000;');
+    });
+
+    it('releases scopes of unregistered themes', () => {
+      manager.applyTo(sidebar, 'dark');
+      manager.unregister('dark');
+
+      expect(manager.releaseScope(sidebar)).toBe(false);
+      expect(sidebar.hasAttribute('data-themed-scope')).toBe(false);
+    });
+
+    it('throws for unknown themes', () => {
+      expect(() => manager.applyTo(sidebar, 'missing')).toThrow('Theme not found');
+    });
+
+    it('themes shadow roots and cleans them up on destroy', () => {
+      const scoped = new ThemeManager({
+        themes: [lightTheme, darkTheme],
+        storage: { type: 'none' },
+        css: { strategy: 'adopted' },
+      });
+      const host = document.createElement('div');
+      sidebar.appendChild(host);
+      const shadowRoot = host.attachShadow({ mode: 'open' });
+      const inner = document.createElement('span');
+      shadowRoot.appendChild(inner);
+
+      scoped.applyTo(sidebar, 'light');
+      scoped.applyTo(shadowRoot, 'dark');
+      expect(scoped.getThemeFor(inner)?.id).toBe('dark');
+      expect(shadowRoot.adoptedStyleSheets).toHaveLength(1);
+
+      scoped.destroy();
+      expect(shadowRoot.adoptedStyleSheets).toHaveLength(0);
+      expect(host.hasAttribute('data-themed-scope')).toBe(false);
+    });
+  });
+
+  describe('precompiled strategy', () => {
+    let precompiled: ThemeManager;
+
+    beforeEach(() => {
+      document.head.innerHTML = '';
+      precompiled = new ThemeManager({
+        themes: [lightTheme, darkTheme],
+        storage: { type: 'none' },
+        css: { strategy: 'precompiled' },
+      });
+    });
+
+    afterEach(() => {
+      precompiled.destroy();
+    });
+
+    const getThemesCSS = () => document.getElementById('themed-js-themes')?.textContent ?? '';
+
+    it('compiles registered themes up front and applies by attribute', async () => {
+      expect(getThemesCSS()).toContain('[data-theme="light"]');
+      expect(getThemesCSS()).toContain('[data-theme="dark"]');
+
+      await precompiled.apply('dark');
+      expect(document.documentElement.getAttribute('data-theme')).toBe('dark');
+    });
+
+    it('recompiles on register, update and unregister', async () => {
+      precompiled.register({ id: 'teal', name: 'Teal', extends: 'dark' });
+      expect(getThemesCSS()).toContain('[data-theme="teal"]');
+
+      await precompiled.updateTokens('dark', { colors: { primary: '#000000' } });
+      expect(getThemesCSS().match(/--themed-color-primary: #000000;/g)).toHaveLength(2);
+
+      precompiled.unregister('teal');
+      expect(getThemesCSS()).not.toContain('[data-theme="teal"]');
+    });
+
+    it('removes the compiled stylesheet on destroy', () => {
+      precompiled.destroy();
+      expect(document.getElementById('themed-js-themes')).toBeNull();
+    });
+  });
+
+  describe('exportTokens', () => {
+    it('exports the active theme with the configured prefix', async () => {
+      const prefixed = new ThemeManager({
+        themes: [lightTheme, darkTheme],
+        storage: { type: 'none' },
+        css: { prefix: '--app' },
+      });
+      await prefixed.apply('dark');
+      expect(prefixed.exportTokens('less')).toContain(
+        `@app-color-primary: ${darkTheme.tokens.colors.primary};`
+      );
+    });
+
+    it('exports with the configured ramps and color format', () => {
+      const configured = new ThemeManager({
+        themes: [lightTheme],
+        storage: { type: 'none' },
+        css: { ramps: ['primary'], colorFormat: 'oklch' },
+      });
+      const variables = JSON.parse(configured.exportTokens('json', 'light'));
+
+      expect(variables['--themed-color-primary']).toMatch(/^oklch\(/);
+      expect(variables['--themed-color-primary-500']).toMatch(/^oklch\(/);
+      configured.destroy();
+    });
+
+    it('exports a theme by id with a custom exporter', () => {
+      manager.getExporters().register('ids', ({ theme }) => theme?.id ?? '');
+      expect(manager.exportTokens('ids', 'dark')).toBe('dark');
+    });
+
+    it('throws without an active theme', () => {
+      expect(() => manager.exportTokens('json')).toThrow('No active theme to export');
+    });
+  });
+  describe('audit option', () => {
+    it('emits theme:audit-warning for themes with failing pairs', () => {
+      const audited = new ThemeManager({ storage: { type: 'none' }, audit: true });
+      const handler = vi.fn();
+      audited.on('theme:audit-warning', handler);
+
+      audited.register(lightTheme);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler.mock.calls[0][0].theme.id).toBe('light');
+      expect(handler.mock.calls[0][0].result.passes).toBe(false);
+    });
+
+    it('does not audit by default', () => {
+      const handler = vi.fn();
+      manager.on('theme:audit-warning', handler);
+      manager.register({ ...lightTheme, id: 'copy' });
+      expect(handler).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('generate', () => {
+    it('attaches the contrast report to the theme metadata', async () => {
+      const ai = new ThemeManager({
+        storage: { type: 'none' },
+        ai: {
+          provider: { name: 'mock', complete: async () => JSON.stringify(lightTheme.tokens) },
+        },
+      });
+      const theme = await ai.generate('calm', { register: false });
+
+      expect(theme.meta.contrastReport).toMatchObject({ repairRounds: 2, passes: true });
+    });
+
+    it('emits theme:generation-cancelled and registers nothing when aborted', async () => {
+      const complete = vi.fn(
+        (_messages: unknown, options?: { signal?: AbortSignal }) =>
+          new Promise<string>((_resolve, reject) => {
+            options?.signal?.addEventListener('abort', () => reject(options.signal?.reason));
+          })
+      );
+      const ai = new ThemeManager({
+        storage: { type: 'none' },
+        ai: { provider: { name: 'mock', complete } },
+      });
+      const cancelled = vi.fn();
+      const failed = vi.fn();
+      ai.on('theme:generation-cancelled', cancelled);
+      ai.on('theme:error', failed);
+
+      const controller = new AbortController();
+      const pending = ai.generate('calm', { signal: controller.signal });
+      controller.abort();
+
+      await expect(pending).rejects.toMatchObject({ name: 'AbortError' });
+      expect(complete.mock.calls[0][1]?.signal).toBe(controller.signal);
+      expect(cancelled).toHaveBeenCalledWith(
+        expect.objectContaining({ prompt: 'calm', reason: controller.signal.reason })
+      );
+      expect(failed).not.toHaveBeenCalled();
+      expect(ai.getAll().some((theme) => theme.meta.source === 'ai')).toBe(false);
+    });
+
+    it('discards a result that arrives after the signal was aborted', async () => {
+      const controller = new AbortController();
+      const ai = new ThemeManager({
+        storage: { type: 'none' },
+        ai: {
+          provider: {
+            name: 'mock',
+            complete: async () => {
+              controller.abort();
+              return JSON.stringify(lightTheme.tokens);
+            },
+          },
+        },
+      });
+
+      await expect(ai.generate('calm', { signal: controller.signal })).rejects.toMatchObject({
+        name: 'AbortError',
+      });
+      expect(ai.getAll().some((theme) => theme.meta.source === 'ai')).toBe(false);
+    });
+  });
+
+  describe('generate candidates', () => {
+    const palettes = ['#0ea5e9', '#0ea5ea', '#f97316', '#16a34a'].map((primary) => {
+      const brand = { primary, secondary: primary, accent: primary, border: primary };
+      return JSON.stringify({
+        ...lightTheme.tokens,
+        colors: { ...lightTheme.tokens.colors, ...brand },
+      });
+    });
+
+    const createManager = (...responses: string[]) => {
+      let call = 0;
+      const complete = vi.fn(
+        async (_messages: Message[]) => responses[Math.min(call++, responses.length - 1)]
+      );
+      const ai = new ThemeManager({
+        themes: [lightTheme],
+        defaultTheme: 'light',
+        storage: { type: 'none' },
+        ai: { provider: { name: 'mock', complete }, contrast: false },
+      });
+      return { ai, complete };
+    };
+
+    it('registers distinct candidates as a group without applying them', async () => {
+      const { ai, complete } = createManager(`[${palettes[0]}, ${palettes[2]}]`);
+      await ai.init();
+      const generated = vi.fn();
+      ai.on('theme:candidates-generated', generated);
+
+      const group = await ai.generate('calm fintech', { count: 2 });
+
+      expect(complete).toHaveBeenCalledTimes(1);
+      expect(group.candidates.map((theme) => theme.tokens.colors.primary)).toEqual([
+        '#0ea5e9',
+        '#f97316',
+      ]);
+      expect(group.candidates.every((theme) => ai.has(theme.id))).toBe(true);
+      expect(ai.getActive()?.id).toBe('light');
+      expect(ai.getCandidateGroups()).toEqual([group]);
+      expect(generated).toHaveBeenCalledWith(expect.objectContaining({ group }));
+    });
+
+    it('drops near-duplicate palettes and requests more themes once', async () => {
+      const { ai, complete } = createManager(
+        `[${palettes[0]}, ${palettes[1]}]`,
+        `[${palettes[3]}]`
+      );
+
+      const group = await ai.generate('calm fintech', { count: 2 });
+
+      expect(complete).toHaveBeenCalledTimes(2);
+      expect(complete.mock.calls[1][0].at(-1)?.content).toContain('Generate 1 distinct themes');
+      expect(group.candidates.map((theme) => theme.tokens.colors.primary)).toEqual([
+        '#0ea5e9',
+        '#16a34a',
+      ]);
+    });
+
+    it('promotes a candidate and discards the rest of its group', async () => {
+      const { ai } = createManager(`[${palettes[0]}, ${palettes[2]}]`);
+      await ai.init();
+      const promoted = vi.fn();
+      ai.on('theme:candidate-promoted', promoted);
+      const group = await ai.generate('calm fintech', { count: 2 });
+      const [first, second] = group.candidates;
+
+      await ai.promoteCandidate(second.id);
+
+      expect(ai.getActive()?.id).toBe(second.id);
+      expect(ai.has(first.id)).toBe(false);
+      expect(ai.getCandidateGroups()).toEqual([]);
+      expect(promoted).toHaveBeenCalledWith(expect.objectContaining({ theme: second, group }));
+      await expect(ai.promoteCandidate(second.id)).rejects.toThrow('Theme candidate not found');
+    });
+
+    it('discards a group and ends the preview of a candidate', async () => {
+      const { ai } = createManager(`[${palettes[0]}, ${palettes[2]}]`);
+      await ai.init();
+      const group = await ai.generate('calm fintech', { count: 2 });
+      ai.preview(group.candidates[0].id);
+
+      expect(ai.discardCandidates(group.id)).toBe(true);
+      expect(ai.getPreview()).toBeNull();
+      expect(group.candidates.some((theme) => ai.has(theme.id))).toBe(false);
+      expect(ai.discardCandidates(group.id)).toBe(false);
+    });
+
+    it('generates a single theme when count is undefined', async () => {
+      const { ai } = createManager(palettes[0]);
+      const options = { register: false, count: undefined };
+
+      const theme = await ai.generate('calm', options);
+
+      expect(theme.tokens.colors.primary).toBe('#0ea5e9');
+      expect(ai.getCandidateGroups()).toEqual([]);
+    });
+
+    it('rejects an invalid count', async () => {
+      const { ai } = createManager(palettes[0]);
+      await expect(ai.generate('calm', { count: 0 })).rejects.toThrow('Invalid candidate count: 0');
+    });
+  });
+
+  describe('generateStream', () => {
+    const response = JSON.stringify(darkTheme.tokens);
+    const streamingProvider = {
+      name: 'mock',
+      complete: async () => response,
+      stream: async function* () {
+        for (let i = 0; i < response.length; i += 60) {
+          yield response.slice(i, i + 60);
+        }
+      },
+    };
+
+    it('yields growing partial tokens and registers the final theme', async () => {
+      const ai = new ThemeManager({
+        themes: [lightTheme],
+        defaultTheme: 'light',
+        storage: { type: 'none' },
+        ai: { provider: streamingProvider, contrast: false },
+      });
+      await ai.init();
+
+      const chunks = [];
+      for await (const chunk of ai.generateStream('night')) {
+        chunks.push(chunk);
+      }
+      const theme = chunks.at(-1)!.theme!;
+
+      expect(chunks.length).toBeGreaterThan(2);
+      expect(chunks[0].theme).toBeUndefined();
+      const colorCounts = chunks.map((chunk) => Object.keys(chunk.tokens.colors ?? {}).length);
+      expect(colorCounts).toEqual([...colorCounts].sort((a, b) => a - b));
+      expect(theme.tokens.colors.background).toBe(darkTheme.tokens.colors.background);
+      expect(ai.getActive()?.id).toBe(theme.id);
+    });
+
+    it('previews the colors as they arrive and ends the preview when applied', async () => {
+      const ai = new ThemeManager({
+        themes: [lightTheme],
+        defaultTheme: 'light',
+        storage: { type: 'none' },
+        ai: { provider: streamingProvider, contrast: false },
+      });
+      await ai.init();
+      const previewEnd = vi.fn();
+      ai.on('theme:preview-end', previewEnd);
+
+      let previewed = false;
+      for await (const chunk of ai.generateStream('night', { preview: true })) {
+        if (chunk.tokens.colors?.background && !chunk.theme) {
+          const background = ai.getPreview()?.tokens.colors.background;
+          expect(background).toBe(darkTheme.tokens.colors.background);
+          previewed = true;
+        }
+      }
+
+      expect(previewed).toBe(true);
+      expect(ai.getPreview()).toBeNull();
+      expect(previewEnd).toHaveBeenLastCalledWith(expect.objectContaining({ committed: true }));
+    });
+
+    it('patches the streamed preview without recompiling every theme', async () => {
+      const ai = new ThemeManager({
+        themes: [lightTheme, darkTheme],
+        defaultTheme: 'light',
+        storage: { type: 'none' },
+        css: { strategy: 'precompiled' },
+        ai: { provider: streamingProvider, contrast: false },
+      });
+      await ai.init();
+      const toCSSString = vi.spyOn(ai.getCSSInjector().getResolver(), 'toCSSString');
+
+      let previews = 0;
+      for await (const chunk of ai.generateStream('night', { preview: true })) {
+        if (ai.getPreview() && !chunk.theme) previews++;
+      }
+
+      expect(previews).toBeGreaterThan(2);
+      // Once when the preview starts and once for the registered theme
+      expect(toCSSString).toHaveBeenCalledTimes(2);
+      ai.destroy();
+    });
+
+    it('cancels the preview when the caller stops early', async () => {
+      const ai = new ThemeManager({
+        themes: [lightTheme],
+        defaultTheme: 'light',
+        storage: { type: 'none' },
+        ai: { provider: streamingProvider, contrast: false },
+      });
+      await ai.init();
+
+      for await (const chunk of ai.generateStream('night', { preview: true })) {
+        if (chunk.tokens.colors?.background) break;
+      }
+
+      expect(ai.getPreview()).toBeNull();
+      expect(ai.getActive()?.id).toBe('light');
+      expect(ai.getAll().some((theme) => theme.meta.source === 'ai')).toBe(false);
+    });
+  });
 });
@@ -1,18 +1,40 @@
-import type { Theme, ThemeInput } from './types/theme';
+import type {
+  ColorMode,
+  ColorScheme,
+  Theme,
+  ThemeCandidateGroup,
+  ThemeInput,
+  ThemeScheme,
+} from './types/theme';
 import type { ThemeEventType, ThemeEventHandler } from './types/events';
 import type {
   ThemeManagerOptions,
   GenerateOptions,
+  GenerateCandidatesOptions,
+  GenerateStreamOptions,
   AIOptions,
   StorageOptions,
   CSSOptions,
 } from './types/options';
 import { createTheme } from './types/theme';
+import type { PartialThemeTokens } from './types/tokens';
+import { getChangedTokenPaths, mergeTokens } from './types/tokens';
+import type { HistoryAction, HistorySnapshot } from './types/history';
 import { EventBus } from './EventBus';
+import { ThemeHistory } from './ThemeHistory';
 import { CSSInjector } from './CSSInjector';
-import type { IAIThemeGenerator } from './ai/types';
+import { TokenExporterRegistry } from './exporters/TokenExporterRegistry';
+import type { AIGenerateResult, GenerateStreamChunk, IAIThemeGenerator } from './ai/types';
 import { createAIOrchestrator } from './ai/createAIOrchestrator';
 import { StorageManager } from './storage/StorageManager';
+import { auditTheme } from './utils/audit';
+import { paletteDistance } from './utils/palette';
+
+/** Media query used to follow the OS color scheme in 'system' mode */
+const DARK_SCHEME_QUERY = '(prefers-color-scheme: dark)';
+
+/** Minimum paletteDistance() between generated candidates when minDistance is not set */
+const DEFAULT_CANDIDATE_DISTANCE = 5;
 
 /**
  * Main theme manager class.
@@ -21,6 +43,10 @@ import { StorageManager } from './storage/StorageManager';
 export class ThemeManager {
   private themes: Map<string, Theme> = new Map();
   private activeTheme: Theme | null = null;
+  private previewTheme: Theme | null = null;
+  /** Scoped elements and the ID of the theme applied to each */
+  private scopes = new Map<HTMLElement | ShadowRoot, string>();
+  private candidateGroups = new Map<string, ThemeCandidateGroup>();
   private eventBus: EventBus;
   private cssInjector: CSSInjector;
   private aiOrchestrator: IAIThemeGenerator | null = null;
@@ -29,12 +55,25 @@ export class ThemeManager {
   /** Current AI options (updated by configureAI); used so getAIConfig() reflects runtime config */
   private currentAIOptions: AIOptions | null = null;
   private initialized = false;
+  private schemes: Map<string, ThemeScheme> = new Map();
+  private activeSchemeId: string | null = null;
+  private mode: ColorMode | null = null;
+  private colorScheme: ColorScheme | null = null;
+  private mediaQuery: MediaQueryList | null = null;
+  private mediaQueryListener: ((event: MediaQueryListEvent) => void) | null = null;
+  private exporters = new TokenExporterRegistry();
+  private history: ThemeHistory | null = null;
+  /** Suppresses history recording for nested/internal state changes (init, generate, undo/redo) */
 
   constructor(options: ThemeManagerOptions = {}) {
     this.options = options;
     this.eventBus = new EventBus({ debug: options.debug });
     this.cssInjector = new CSSInjector(options.css);
 
+    if (options.history !== false) {
+      this.history = new ThemeHistory(options.history);
+    }
+
     if (options.ai) {
       this.currentAIOptions = options.ai;
       this.aiOrchestrator = createAIOrchestrator(options.ai);
@@ -49,6 +88,16 @@ export class ThemeManager {
     if (options.themes) {
       this.registerMany(options.themes);
     }
+
+    // Register light/dark schemes
+    if (options.schemes) {
+      for (const scheme of options.schemes) {
+        this.registerScheme(scheme);
+      }
+    }
+    if (options.defaultScheme && this.schemes.has(options.defaultScheme)) {
+      this.activeSchemeId = options.defaultScheme;
+    }
   }
 
   /**
@@ -57,10 +106,21 @@ export class ThemeManager {
   async init(): Promise<void> {
     if (this.initialized) return;
 
+    await this.loadInitialTheme();
+
+    this.initialized = true;
+  }
+
+  /**
+   * Apply the saved color mode or theme, the initial color mode, or the default theme.
+   * The initial theme is the baseline, not an undoable step.
+   */
+  private async loadInitialTheme(): Promise<void> {
     // Load saved theme from storage
     if (this.storageManager && this.options.storage?.autoLoad !== false) {
       const savedThemeId = await this.storageManager.getActiveThemeId();
       const savedThemes = await this.storageManager.getThemes();
+      const savedMode = await this.storageManager.getColorMode();
 
       // Register saved themes
       for (const theme of savedThemes) {
@@ -69,30 +129,55 @@ export class ThemeManager {
         }
       }
 
-      // Apply saved theme if exists
-      if (savedThemeId && this.themes.has(savedThemeId)) {
-        await this.apply(savedThemeId);
-        this.initialized = true;
+      // A saved color mode takes precedence over the saved theme ID; apply() of a theme outside
+      // the scheme removes it
+      if (savedMode && this.getScheme()) {
+        await this.enterMode(savedMode, false);
         return;
       }
+
+      // Apply saved theme if exists; a variant of the scheme stays under the initial mode
+      const followsMode = this.options.mode && this.isSchemeTheme(savedThemeId);
+      if (savedThemeId && this.themes.has(savedThemeId) && !followsMode) {
+        await this.applyTheme(savedThemeId, false);
+        return;
+      }
+    }
+
+    // Apply initial color mode; it is a default, so it is not saved as the user's choice
+    if (this.options.mode && this.getScheme()) {
+      await this.enterMode(this.options.mode, false);
+      return;
     }
 
     // Apply default theme
     if (this.options.defaultTheme && this.themes.has(this.options.defaultTheme)) {
-      await this.apply(this.options.defaultTheme);
+      await this.applyTheme(this.options.defaultTheme, false);
     }
-
-    this.initialized = true;
   }
 
   /**
-   * Register a theme
+   * Register a theme.
+   * Themes with `extends` are resolved against their parent chain; re-registering a theme
+   * re-resolves every theme that inherits from it.
    */
   register(theme: Theme | ThemeInput): void {
-    const normalizedTheme = 'meta' in theme ? theme : createTheme(theme);
+    const parent = theme.extends ? this.getParentTheme(theme.id, theme.extends) : undefined;
+    let normalizedTheme = 'meta' in theme ? theme : createTheme(theme, parent);
+    if ('meta' in theme && parent) {
+      normalizedTheme = {
+        ...theme,
+        tokens: mergeTokens(parent.tokens, theme.overrides ?? {}),
+      };
+    }
+
     this.themes.set(normalizedTheme.id, normalizedTheme);
+    this.syncActiveTheme(normalizedTheme);
+    this.refreshThemeStyles(normalizedTheme);
+    this.refreshDescendants(normalizedTheme.id);
 
     this.eventBus.emit('theme:registered', { theme: normalizedTheme });
+    this.auditRegisteredTheme(normalizedTheme);
   }
 
   /**
@@ -112,11 +197,29 @@ export class ThemeManager {
     if (exists) {
       this.themes.delete(themeId);
       this.eventBus.emit('theme:unregistered', { themeId });
+      this.cssInjector.removeCompiled(themeId);
+
+      // Release scopes that used the theme
+      for (const [target, scopedThemeId] of this.scopes) {
+        if (scopedThemeId === themeId) {
+          this.releaseScope(target);
+        }
+      }
+
+      // Drop the theme from its candidate group, and the group once it is empty
+      for (const group of this.candidateGroups.values()) {
+        group.candidates = group.candidates.filter((candidate) => candidate.id !== themeId);
+        if (group.candidates.length === 0) {
+          this.candidateGroups.delete(group.id);
+        }
+      }
 
       // If active theme was unregistered, clear it
       if (this.activeTheme?.id === themeId) {
         this.activeTheme = null;
-        this.cssInjector.clear();
+        if (!this.previewTheme) {
+          this.cssInjector.clear();
+        }
       }
     }
     return exists;
@@ -130,27 +233,94 @@ export class ThemeManager {
     if (!theme) {
       throw new Error(`Theme not found: ${themeId}`);
     }
+    const before = this.captureSnapshot([themeId]);
     const updated = { ...theme, custom };
     this.themes.set(themeId, updated);
     if (this.activeTheme?.id === themeId) {
       this.activeTheme = updated;
     }
+    this.recordHistory('update-custom', before, this.captureSnapshot([themeId]));
+  }
+
+  /**
+   * Deep-merge token changes into a registered theme.
+   * Re-injects only the changed CSS variables when the theme is active, re-resolves themes
+   * that extend it, and persists the theme when autoSave is on.
+   */
+  async updateTokens(themeId: string, tokens: PartialThemeTokens): Promise<Theme> {
+    const theme = this.themes.get(themeId);
+    if (!theme) {
+      throw new Error(`Theme not found: ${themeId}`);
+    }
+
+    const nextTokens = mergeTokens(theme.tokens, tokens);
+    const changedPaths = getChangedTokenPaths(theme.tokens, nextTokens);
+    if (changedPaths.length === 0) {
+      return theme;
+    }
+
+    const before = this.captureSnapshot([themeId]);
+    const updated: Theme = {
+      ...theme,
+      tokens: nextTokens,
+      // Keep inherited themes' overrides in sync so parent changes don't drop the edit
+      ...(theme.extends ? { overrides: mergeTokens(theme.overrides ?? {}, tokens) } : {}),
+      meta: { ...theme.meta, updatedAt: Date.now() },
+    };
+    this.themes.set(themeId, updated);
+
+    if (this.activeTheme?.id === themeId) {
+      // A running preview owns the CSS; cancelPreview() re-injects the updated tokens
+      if (!this.previewTheme) {
+        this.cssInjector.update(this.activeTheme.tokens, nextTokens, themeId);
+      }
+      this.activeTheme = updated;
+    }
+    this.refreshThemeStyles(updated);
+    this.refreshDescendants(themeId);
+    this.recordHistory('update-tokens', before, this.captureSnapshot([themeId]));
+
+    if (this.storageManager && this.options.storage?.autoSave !== false) {
+      await this.storageManager.saveTheme(updated);
+    }
+
+    this.eventBus.emit('theme:updated', { theme: updated, changedPaths });
+
+    return updated;
   }
 
   /**
    * Apply a theme by ID
    */
   async apply(themeId: string): Promise<void> {
+    await this.applyTheme(themeId, true);
+  }
+
+  /**
+   * Apply a theme, recording an undoable step unless `record` is false
+   */
+  private async applyTheme(themeId: string, record: boolean): Promise<void> {
     const theme = this.themes.get(themeId);
     if (!theme) {
       throw new Error(`Theme not found: ${themeId}`);
     }
 
+    // Picking a theme outside the active scheme ends the color mode
+    if (this.mode && !this.isSchemeTheme(themeId)) {
+      await this.clearMode();
+    }
+
+    const before = this.captureSnapshot([]);
     const previousTheme = this.activeTheme;
+    const previewed = this.previewTheme;
     this.activeTheme = theme;
+    this.previewTheme = null;
 
     // Inject CSS variables
-    this.cssInjector.inject(theme.tokens);
+    this.cssInjector.inject(theme.tokens, theme.id);
+    if (record) {
+      this.recordHistory('apply', before, this.captureSnapshot([]));
+    }
 
     // Save to storage
     if (this.storageManager && this.options.storage?.autoSave !== false) {
@@ -158,65 +328,587 @@ export class ThemeManager {
     }
 
     this.eventBus.emit('theme:changed', { theme, previousTheme });
+
+    // Applying any theme ends a running preview
+    if (previewed) {
+      this.eventBus.emit('theme:preview-end', {
+        theme: previewed,
+        committed: previewed.id === themeId,
+      });
+    }
+  }
+
+  /**
+   * Show a theme's CSS without making it active: nothing is persisted, no theme:changed is emitted
+   * and the theme does not need to be registered. End with commitPreview() or cancelPreview().
+   */
+  preview(theme: string | Theme): void {
+    const previewed = typeof theme === 'string' ? this.themes.get(theme) : theme;
+    if (!previewed) {
+      throw new Error(`Theme not found: ${theme}`);
+    }
+
+    this.previewTheme = previewed;
+    this.cssInjector.inject(previewed.tokens, previewed.id);
+    this.eventBus.emit('theme:preview-start', {
+      theme: previewed,
+      activeTheme: this.activeTheme,
+    });
+  }
+
+  /**
+   * Apply the previewed theme, registering it first if needed. Returns null when not previewing.
+   */
+  async commitPreview(): Promise<Theme | null> {
+    const previewed = this.previewTheme;
+    if (!previewed) return null;
+
+    if (this.themes.get(previewed.id) !== previewed) {
+      this.register(previewed);
+    }
+    await this.apply(previewed.id);
+    return previewed;
   }
 
   /**
-   * Generate a theme using AI
+   * Restore the active theme's CSS and end the preview
    */
-  async generate(prompt: string, options: GenerateOptions = {}): Promise<Theme> {
+  cancelPreview(): void {
+    const previewed = this.previewTheme;
+    if (!previewed) return;
+
+    this.previewTheme = null;
+
+    // Restore or drop the precompiled block the preview may have replaced
+    const registered = this.themes.get(previewed.id);
+    if (registered) {
+      this.cssInjector.compile(registered.id, registered.tokens);
+    } else {
+      this.cssInjector.removeCompiled(previewed.id);
+    }
+
+    if (this.activeTheme) {
+      this.cssInjector.inject(this.activeTheme.tokens, this.activeTheme.id);
+    } else {
+      this.cssInjector.clear();
+    }
+    this.eventBus.emit('theme:preview-end', { theme: previewed, committed: false });
+  }
+
+  /**
+   * Show a new version of the previewed theme by patching only the changed CSS variables;
+   * starts the preview if another theme (or none) is previewed
+   */
+  private updatePreview(theme: Theme): void {
+    const previewed = this.previewTheme;
+    if (previewed?.id !== theme.id) {
+      this.preview(theme);
+      return;
+    }
+
+    this.previewTheme = theme;
+    this.cssInjector.update(previewed.tokens, theme.tokens, theme.id);
+  }
+
+  /**
+   * Get the theme currently being previewed
+   */
+  getPreview(): Theme | null {
+    return this.previewTheme;
+  }
+
+  /**
+   * Apply a theme to a DOM subtree or shadow root only, independent of the active theme.
+   * Scopes can be nested; the nearest scope wins. Returns a function that releases the scope.
+   */
+  applyTo(target: HTMLElement | ShadowRoot, themeId: string): () => void {
+    const theme = this.themes.get(themeId);
+    if (!theme) {
+      throw new Error(`Theme not found: ${themeId}`);
+    }
+
+    this.scopes.set(target, themeId);
+    this.cssInjector.injectScope(target, theme.tokens);
+    return () => {
+      this.releaseScope(target);
+    };
+  }
+
+  /**
+   * Remove a scoped theme from an element or shadow root. Returns false if it is not scoped.
+   */
+  releaseScope(target: HTMLElement | ShadowRoot): boolean {
+    if (!this.scopes.delete(target)) return false;
+    this.cssInjector.clearScope(target);
+    return true;
+  }
+
+  /**
+   * Get the theme that applies to an element: its nearest scoped ancestor's theme
+   * (crossing shadow root boundaries), or the active theme
+   */
+  getThemeFor(element: Element): Theme | null {
+    let node: Node | null = element;
+    while (node) {
+      const themeId = this.scopes.get(node as HTMLElement | ShadowRoot);
+      if (themeId) {
+        return this.themes.get(themeId) ?? null;
+      }
+      node = node instanceof ShadowRoot ? node.host : node.parentNode;
+    }
+    return this.activeTheme;
+  }
+
+  /**
+   * Export a theme's tokens (default: the active theme) in a registered format,
+   * e.g. 'scss', 'less', 'json', 'json-nested', 'js' or 'dts'
+   */
+  exportTokens(format: string, themeId?: string): string {
+    const theme = themeId ? this.themes.get(themeId) : this.activeTheme;
+    if (!theme) {
+      throw new Error(themeId ? `Theme not found: ${themeId}` : 'No active theme to export');
+    }
+
+    return this.exporters.export(format, theme.tokens, {
+      resolver: this.cssInjector.getResolver(),
+      theme,
+    });
+  }
+
+  /**
+   * Get the exporter registry, e.g. to register custom formats
+   */
+  getExporters(): TokenExporterRegistry {
+    return this.exporters;
+  }
+
+  /**
+   * Register a light/dark scheme. The first registered scheme becomes active.
+   */
+  registerScheme(scheme: ThemeScheme): void {
+    this.schemes.set(scheme.id, scheme);
+    if (!this.activeSchemeId) {
+      this.activeSchemeId = scheme.id;
+    }
+  }
+
+  /**
+   * Get all registered schemes
+   */
+  getSchemes(): ThemeScheme[] {
+    return Array.from(this.schemes.values());
+  }
+
+  /**
+   * Get the active scheme
+   */
+  getScheme(): ThemeScheme | null {
+    return this.activeSchemeId ? (this.schemes.get(this.activeSchemeId) ?? null) : null;
+  }
+
+  /**
+   * Switch the active scheme. If a color mode is set, applies the matching variant.
+   */
+  async setScheme(schemeId: string): Promise<void> {
+    if (!this.schemes.has(schemeId)) {
+      throw new Error(`Scheme not found: ${schemeId}`);
+    }
+    this.activeSchemeId = schemeId;
+
+    if (this.mode) {
+      await this.applyColorScheme(this.resolveColorScheme(this.mode), true);
+    }
+  }
+
+  /**
+   * Set the color mode. 'system' follows prefers-color-scheme and keeps following it live.
+   */
+  async setMode(mode: ColorMode): Promise<void> {
+    if (!this.getScheme()) {
+      throw new Error('No theme scheme registered');
+    }
+
+    await this.enterMode(mode, true);
+  }
+
+  /**
+   * Get the current color mode (null until setMode() is called)
+   */
+  getMode(): ColorMode | null {
+    return this.mode;
+  }
+
+  /**
+   * Get the resolved color scheme (null until setMode() is called)
+   */
+  getColorScheme(): ColorScheme | null {
+    return this.colorScheme;
+  }
+
+  /**
+   * Generate a theme using AI.
+   * With `count`, generates that many distinct candidate themes instead and registers them as a
+   * candidate group without applying any; show them with preview() and apply the chosen one with
+   * promoteCandidate().
+   */
+  async generate(prompt: string, options: GenerateCandidatesOptions): Promise<ThemeCandidateGroup>;
+  async generate(prompt: string, options?: GenerateOptions): Promise<Theme>;
+  async generate(
+    prompt: string,
+    options: GenerateOptions | GenerateCandidatesOptions = {}
+  ): Promise<Theme | ThemeCandidateGroup> {
     if (!this.aiOrchestrator) {
       throw new Error('AI is not configured. Please provide AI options when creating ThemeManager.');
     }
+    if (options.count !== undefined) {
+      return this.generateCandidates(this.aiOrchestrator, prompt, options);
+    }
 
     this.eventBus.emit('theme:generating', { prompt });
 
     const startTime = Date.now();
 
     try {
+      const { signal } = options;
       const result = options.baseTheme
-        ? await this.aiOrchestrator.adjustTheme(options.baseTheme, prompt, options.customSchema)
-        : await this.aiOrchestrator.generateTheme(prompt, options.customSchema);
-
-      const theme: Theme = {
-        id: `ai-${Date.now()}`,
-        name: prompt.slice(0, 50),
-        description: `AI generated theme from: "${prompt}"`,
-        tokens: result.tokens,
-        custom: result.custom ?? {},
-        meta: {
-          version: '1.0.0',
-          createdAt: Date.now(),
-          source: 'ai',
-          aiPrompt: prompt,
-        },
-      };
+        ? await this.aiOrchestrator.adjustTheme(options.baseTheme, prompt, options.customSchema, {
+            signal,
+          })
+        : await this.aiOrchestrator.generateTheme(prompt, options.customSchema, { signal });
+      // Generators that ignore the signal may still resolve after an abort
+      signal?.throwIfAborted();
 
-      // Register the generated theme
-      this.register(theme);
+      return await this.completeGeneration(prompt, result, options, `ai-${Date.now()}`, startTime);
+    } catch (error) {
+      this.reportGenerationError(prompt, error, options.signal);
+      throw error;
+    }
+  }
+
+  /**
+   * Generate a theme using AI, streaming its tokens as they arrive. Yields the tokens completed so
+   * far; the last chunk also has the theme, which is registered and applied as with generate().
+   * With `preview: true` the colors received so far are previewed on top of the base theme (or the
+   * active theme); the preview ends when the theme is applied and is cancelled otherwise.
+   * Generators without streaming yield only the last chunk.
+   */
+  async *generateStream(
+    prompt: string,
+    options: GenerateStreamOptions = {}
+  ): AsyncGenerator<GenerateStreamChunk, Theme> {
+    const ai = this.aiOrchestrator;
+    if (!ai) {
+      throw new Error(
+        'AI is not configured. Please provide AI options when creating ThemeManager.'
+      );
+    }
+
+    this.eventBus.emit('theme:generating', { prompt });
+
+    const startTime = Date.now();
+    const id = `ai-${startTime}`;
+    const { signal, baseTheme, customSchema } = options;
+    const previewBase = options.preview ? (baseTheme ?? this.activeTheme) : null;
+
+    try {
+      const stream = baseTheme
+        ? ai.adjustThemeStream?.(baseTheme, prompt, customSchema, { signal })
+        : ai.generateThemeStream?.(prompt, customSchema, { signal });
+      let result: AIGenerateResult | undefined;
+
+      if (stream) {
+        let lastTokens = '';
+        let lastColors = '';
+        for await (const chunk of stream) {
+          if (chunk.result) {
+            result = chunk.result;
+            break;
+          }
+
+          const tokens = JSON.stringify(chunk.tokens);
+          if (tokens === lastTokens) continue;
+          lastTokens = tokens;
+
+          const colors = JSON.stringify(chunk.tokens.colors ?? {});
+          if (previewBase && colors !== lastColors) {
+            lastColors = colors;
+            this.updatePreview({
+              ...previewBase,
+              id,
+              tokens: mergeTokens(previewBase.tokens, { colors: chunk.tokens.colors }),
+            });
+          }
+
+          yield { tokens: chunk.tokens };
+        }
+        if (!result) {
+          throw new Error('AI stream ended without a theme');
+        }
+      } else {
+        result = baseTheme
+          ? await ai.adjustTheme(baseTheme, prompt, customSchema, { signal })
+          : await ai.generateTheme(prompt, customSchema, { signal });
+      }
+      signal?.throwIfAborted();
+
+      const theme = await this.completeGeneration(prompt, result, options, id, startTime);
+      yield { tokens: theme.tokens, theme };
+      return theme;
+    } catch (error) {
+      this.reportGenerationError(prompt, error, signal);
+      throw error;
+    } finally {
+      // Also reached when the caller stops iterating early
+      if (this.previewTheme?.id === id) {
+        this.cancelPreview();
+      }
+    }
+  }
+
+  /**
+   * Get the candidate groups that have not been promoted or discarded yet
+   */
+  getCandidateGroups(): ThemeCandidateGroup[] {
+    return Array.from(this.candidateGroups.values());
+  }
+
+  /**
+   * Apply a generated candidate and discard the other candidates of its group.
+   * The theme is saved unless autoSave is false.
+   */
+  async promoteCandidate(
+    themeId: string,
+    options: Pick<GenerateOptions, 'autoSave'> = {}
+  ): Promise<Theme> {
+    const group = this.getCandidateGroups().find((entry) =>
+      entry.candidates.some((candidate) => candidate.id === themeId)
+    );
+    const theme = this.themes.get(themeId);
+    if (!group || !theme) {
+      throw new Error(`Theme candidate not found: ${themeId}`);
+    }
 
-      // Auto-apply if requested
-      if (options.autoApply !== false) {
-        await this.apply(theme.id);
+    await this.apply(themeId);
+    this.candidateGroups.delete(group.id);
+    for (const candidate of group.candidates) {
+      if (candidate.id !== themeId) {
+        this.unregister(candidate.id);
       }
+    }
+
+    if (options.autoSave !== false && this.storageManager) {
+      await this.storageManager.saveTheme(theme);
+    }
+
+    this.eventBus.emit('theme:candidate-promoted', { theme, group });
+    return theme;
+  }
+
+  /**
+   * Unregister every candidate of a group, ending a preview of one of them.
+   * Returns false when the group does not exist.
+   */
+  discardCandidates(groupId: string): boolean {
+    const group = this.candidateGroups.get(groupId);
+    if (!group) return false;
+
+    if (group.candidates.some((candidate) => candidate.id === this.previewTheme?.id)) {
+      this.cancelPreview();
+    }
+    this.candidateGroups.delete(groupId);
+    for (const candidate of group.candidates) {
+      this.unregister(candidate.id);
+    }
+    return true;
+  }
+
+  /**
+   * Generate distinct candidate themes and register them as a group.
+   * Near-duplicate palettes are dropped and requested once more, so the group may hold fewer than
+   * `count` themes.
+   */
+  private async generateCandidates(
+    ai: IAIThemeGenerator,
+    prompt: string,
+    options: GenerateCandidatesOptions
+  ): Promise<ThemeCandidateGroup> {
+    const { count, customSchema, signal, minDistance = DEFAULT_CANDIDATE_DISTANCE } = options;
+    if (!Number.isInteger(count) || count < 1) {
+      throw new Error(`Invalid candidate count: ${count}`);
+    }
+
+    this.eventBus.emit('theme:generating', { prompt });
 
-      // Auto-save if requested
-      if (options.autoSave !== false && this.storageManager) {
-        await this.storageManager.saveTheme(theme);
+    const startTime = Date.now();
+
+    try {
+      const request = (n: number) =>
+        ai.generateThemeCandidates
+          ? ai.generateThemeCandidates(prompt, n, customSchema, { signal })
+          : Promise.all(
+              Array.from({ length: n }, () => ai.generateTheme(prompt, customSchema, { signal }))
+            );
+
+      const results: AIGenerateResult[] = [];
+      const addDistinct = (batch: AIGenerateResult[]) => {
+        for (const result of batch) {
+          const distinct = results.every(
+            (kept) => paletteDistance(kept.tokens.colors, result.tokens.colors) >= minDistance
+          );
+          if (distinct && results.length < count) results.push(result);
+        }
+      };
+
+      addDistinct(await request(count));
+      if (results.length < count) {
+        addDistinct(await request(count - results.length));
       }
+      // Generators that ignore the signal may still resolve after an abort
+      signal?.throwIfAborted();
+
+      const group: ThemeCandidateGroup = {
+        id: `candidates-${startTime}`,
+        prompt,
+        candidates: results.map((result, index) =>
+          this.createAITheme(prompt, result, `ai-${startTime}-${index + 1}`)
+        ),
+        createdAt: startTime,
+      };
+      this.candidateGroups.set(group.id, group);
+      this.registerMany(group.candidates);
 
       const duration = Date.now() - startTime;
-      this.eventBus.emit('theme:generated', { theme, prompt, duration });
+      this.eventBus.emit('theme:candidates-generated', { group, prompt, duration });
 
-      return theme;
+      return group;
     } catch (error) {
-      this.eventBus.emit('theme:error', {
-        error: error instanceof Error ? error : new Error(String(error)),
-        context: 'generate',
-      });
+      this.reportGenerationError(prompt, error, signal);
       throw error;
     }
   }
 
+  /**
+   * Turn a generation result into a theme: register, apply and save it as requested
+   */
+  private async completeGeneration(
+    prompt: string,
+    result: AIGenerateResult,
+    options: GenerateOptions,
+    id: string,
+    startTime: number
+  ): Promise<Theme> {
+    const theme = this.createAITheme(prompt, result, id);
+
+    // Unregistered themes are only returned, e.g. for preview()
+    if (options.register === false) {
+      const duration = Date.now() - startTime;
+      this.eventBus.emit('theme:generated', { theme, prompt, duration });
+      return theme;
+    }
+
+    // Register and apply as a single history step
+    const before = this.captureSnapshot([theme.id]);
+    this.register(theme);
+
+    // Auto-apply if requested
+    if (options.autoApply !== false) {
+      await this.applyTheme(theme.id, false);
+    }
+    this.recordHistory('generate', before, this.captureSnapshot([theme.id]));
+
+    // Auto-save if requested
+    if (options.autoSave !== false && this.storageManager) {
+      await this.storageManager.saveTheme(theme);
+    }
+
+    const duration = Date.now() - startTime;
+    this.eventBus.emit('theme:generated', { theme, prompt, duration });
+
+    return theme;
+  }
+
+  /**
+   * Build the theme for a generation result
+   */
+  private createAITheme(prompt: string, result: AIGenerateResult, id: string): Theme {
+    return {
+      id,
+      name: prompt.slice(0, 50),
+      description: `AI generated theme from: "${prompt}"`,
+      tokens: result.tokens,
+      custom: result.custom ?? {},
+      meta: {
+        version: '1.0.0',
+        createdAt: Date.now(),
+        source: 'ai',
+        aiPrompt: prompt,
+        ...(result.contrastReport && { contrastReport: result.contrastReport }),
+      },
+    };
+  }
+
+  /**
+   * Emit theme:generation-cancelled for aborted generations and theme:error otherwise
+   */
+  private reportGenerationError(prompt: string, error: unknown, signal?: AbortSignal): void {
+    if (signal?.aborted) {
+      this.eventBus.emit('theme:generation-cancelled', { prompt, reason: signal.reason });
+      return;
+    }
+
+    this.eventBus.emit('theme:error', {
+      error: error instanceof Error ? error : new Error(String(error)),
+      context: 'generate',
+    });
+  }
+
+  /**
+   * Undo the latest recorded change. Returns false when there is nothing to undo.
+   */
+  async undo(): Promise<boolean> {
+    const entry = this.history?.undo();
+    if (!entry) return false;
+
+    await this.restoreSnapshot(entry.before);
+    this.emitHistoryChanged('undo', entry.action);
+    return true;
+  }
+
+  /**
+   * Redo the latest undone change. Returns false when there is nothing to redo.
+   */
+  async redo(): Promise<boolean> {
+    const entry = this.history?.redo();
+    if (!entry) return false;
+
+    await this.restoreSnapshot(entry.after);
+    this.emitHistoryChanged('redo', entry.action);
+    return true;
+  }
+
+  /**
+   * Check if there is a change to undo
+   */
+  canUndo(): boolean {
+    return this.history?.canUndo() ?? false;
+  }
+
+  /**
+   * Check if there is a change to redo
+   */
+  canRedo(): boolean {
+    return this.history?.canRedo() ?? false;
+  }
+
+  /**
+   * Clear the undo/redo history
+   */
+  clearHistory(): void {
+    if (!this.history) return;
+    this.history.clear();
+    this.emitHistoryChanged('clear', null);
+  }
+
   /**
    * Get the currently active theme
    */
@@ -311,21 +1003,336 @@ export class ThemeManager {
    * Configure CSS options
    */
   configureCSS(options: CSSOptions): void {
+    this.cssInjector.clear();
+    this.cssInjector.clearScopes();
+    this.cssInjector.clearCompiled();
     this.cssInjector = new CSSInjector(options);
-    // Re-apply active theme if exists
-    if (this.activeTheme) {
-      this.cssInjector.inject(this.activeTheme.tokens);
+    for (const theme of this.themes.values()) {
+      this.cssInjector.compile(theme.id, theme.tokens);
+    }
+    // Re-apply the previewed or active theme if exists
+    const current = this.previewTheme ?? this.activeTheme;
+    if (current) {
+      this.cssInjector.inject(current.tokens, current.id);
+    }
+    for (const [target, themeId] of this.scopes) {
+      this.cssInjector.injectScope(target, this.themes.get(themeId)!.tokens);
+    }
+  }
+
+  /**
+   * Audit a newly registered theme when the audit option is enabled
+   */
+  private auditRegisteredTheme(theme: Theme): void {
+    const { audit } = this.options;
+    if (!audit) return;
+
+    const result = auditTheme(theme, audit === true ? {} : audit);
+    if (!result.passes) {
+      this.eventBus.emit('theme:audit-warning', { theme, result });
+    }
+  }
+
+  /**
+   * Capture the active theme ID and the given themes for history
+   */
+  private captureSnapshot(themeIds: string[]): HistorySnapshot {
+    const themes: Record<string, Theme | null> = {};
+    for (const id of themeIds) {
+      themes[id] = this.themes.get(id) ?? null;
+    }
+    return { activeThemeId: this.activeTheme?.id ?? null, themes };
+  }
+
+  /**
+   * Push a history entry if recording is enabled and the state actually changed
+   */
+  private recordHistory(
+    action: HistoryAction,
+    before: HistorySnapshot,
+    after: HistorySnapshot
+  ): void {
+    if (!this.history) return;
+
+    const unchanged =
+      before.activeThemeId === after.activeThemeId &&
+      Object.keys(after.themes).every((id) => before.themes[id] === after.themes[id]);
+    if (unchanged) return;
+
+    this.history.push({ action, before, after, timestamp: Date.now() });
+    this.emitHistoryChanged('record', action);
+  }
+
+  /**
+   * Restore a history snapshot without recording it
+   */
+  private async restoreSnapshot(snapshot: HistorySnapshot): Promise<void> {
+    const autoSave = this.storageManager !== null && this.options.storage?.autoSave !== false;
+
+    // Restore themes first so the active theme can be re-applied
+    for (const [id, theme] of Object.entries(snapshot.themes)) {
+      if (!theme) continue;
+
+      const current = this.themes.get(id);
+      this.themes.set(id, theme);
+      this.syncActiveTheme(theme);
+      this.refreshThemeStyles(theme);
+      this.refreshDescendants(id);
+
+      if (current) {
+        this.eventBus.emit('theme:updated', {
+          theme,
+          changedPaths: getChangedTokenPaths(current.tokens, theme.tokens),
+        });
+      } else {
+        this.eventBus.emit('theme:registered', { theme });
+      }
+      if (autoSave) {
+        await this.storageManager!.saveTheme(theme);
+      }
+    }
+
+    if (snapshot.activeThemeId !== (this.activeTheme?.id ?? null)) {
+      if (snapshot.activeThemeId && this.themes.has(snapshot.activeThemeId)) {
+        await this.applyTheme(snapshot.activeThemeId, false);
+      } else if (!snapshot.activeThemeId) {
+        this.activeTheme = null;
+        this.cssInjector.clear();
+      }
+    }
+
+    // A restored theme the color mode would not pick ends the mode, so the next OS change or
+    // reload does not replace it
+    const scheme = this.getScheme();
+    const modeThemeId = this.mode && scheme ? scheme[this.resolveColorScheme(this.mode)] : null;
+    if (this.mode && this.activeTheme?.id !== modeThemeId) {
+      await this.clearMode();
+    }
+
+    // Remove themes that did not exist in the snapshot
+    for (const [id, theme] of Object.entries(snapshot.themes)) {
+      if (theme || !this.themes.has(id)) continue;
+
+      this.unregister(id);
+      if (autoSave) {
+        await this.storageManager!.removeTheme(id);
+      }
+    }
+  }
+
+  /**
+   * Emit history:changed with the current undo/redo availability
+   */
+  private emitHistoryChanged(
+    reason: 'record' | 'undo' | 'redo' | 'clear',
+    action: HistoryAction | null
+  ): void {
+    this.eventBus.emit('history:changed', {
+      reason,
+      action,
+      canUndo: this.canUndo(),
+      canRedo: this.canRedo(),
+    });
+  }
+
+  /**
+   * Look up a parent theme, walking the inheritance chain to detect missing parents and cycles
+   */
+  private getParentTheme(themeId: string, parentId: string): Theme {
+    const chain = [themeId];
+    let currentId: string | undefined = parentId;
+
+    while (currentId) {
+      if (chain.includes(currentId)) {
+        throw new Error(`Circular theme inheritance: ${[...chain, currentId].join(' -> ')}`);
+      }
+      chain.push(currentId);
+
+      const current = this.themes.get(currentId);
+      if (!current) {
+        throw new Error(
+          `Parent theme not found: ${currentId} (extended by ${chain[chain.length - 2]})`
+        );
+      }
+      currentId = current.extends;
+    }
+
+    return this.themes.get(parentId)!;
+  }
+
+  /**
+   * Re-resolve all themes inheriting (directly or transitively) from a theme
+   */
+  private refreshDescendants(parentId: string): void {
+    const parent = this.themes.get(parentId);
+    if (!parent) return;
+
+    for (const theme of this.themes.values()) {
+      if (theme.extends !== parentId) continue;
+
+      const resolved: Theme = {
+        ...theme,
+        tokens: mergeTokens(parent.tokens, theme.overrides ?? {}),
+      };
+      this.themes.set(theme.id, resolved);
+      this.syncActiveTheme(resolved);
+      this.refreshThemeStyles(resolved);
+      this.refreshDescendants(theme.id);
+    }
+  }
+
+  /**
+   * Recompile a theme's precompiled block and re-inject the scopes that use it
+   * after its definition changed
+   */
+  private refreshThemeStyles(theme: Theme): void {
+    this.cssInjector.compile(theme.id, theme.tokens);
+    for (const [target, themeId] of this.scopes) {
+      if (themeId === theme.id) {
+        this.cssInjector.injectScope(target, theme.tokens);
+      }
+    }
+  }
+
+  /**
+   * Keep the active theme reference (and injected CSS) in sync when its definition changes
+   */
+  private syncActiveTheme(theme: Theme): void {
+    if (this.activeTheme?.id !== theme.id || this.activeTheme === theme) return;
+
+    const tokensChanged = this.activeTheme.tokens !== theme.tokens;
+    this.activeTheme = theme;
+    if (tokensChanged && !this.previewTheme) {
+      this.cssInjector.inject(theme.tokens, theme.id);
+    }
+  }
+
+  /**
+   * Switch to a color mode and apply the matching variant of the active scheme.
+   * `persist` is false for modes the user did not choose (the saved or the initial mode); they are
+   * neither saved nor recorded in history.
+   */
+  private async enterMode(mode: ColorMode, persist: boolean): Promise<void> {
+    this.mode = mode;
+    if (mode === 'system') {
+      this.watchSystemColorScheme();
+    } else {
+      this.unwatchSystemColorScheme();
+    }
+
+    if (persist && this.storageManager && this.options.storage?.autoSave !== false) {
+      await this.storageManager.setColorMode(mode);
+    }
+
+    await this.applyColorScheme(this.resolveColorScheme(mode), persist);
+  }
+
+  /**
+   * Whether a theme is the light or dark variant of the active scheme
+   */
+  private isSchemeTheme(themeId: string | null): boolean {
+    const scheme = this.getScheme();
+    return scheme !== null && (scheme.light === themeId || scheme.dark === themeId);
+  }
+
+  /**
+   * Leave the color mode: stop following the OS and remove the saved mode
+   */
+  private async clearMode(): Promise<void> {
+    this.mode = null;
+    this.colorScheme = null;
+    this.unwatchSystemColorScheme();
+
+    if (this.storageManager && this.options.storage?.autoSave !== false) {
+      await this.storageManager.setColorMode(null);
+    }
+  }
+
+  /**
+   * Apply the active scheme's variant for a color scheme, recording an undoable step if `record`
+   */
+  private async applyColorScheme(colorScheme: ColorScheme, record: boolean): Promise<void> {
+    const scheme = this.getScheme();
+    if (!scheme || !this.mode) return;
+
+    await this.applyTheme(scheme[colorScheme], record);
+
+    const previousColorScheme = this.colorScheme;
+    this.colorScheme = colorScheme;
+
+    if (previousColorScheme !== colorScheme && this.activeTheme) {
+      this.eventBus.emit('theme:scheme-changed', {
+        colorScheme,
+        previousColorScheme,
+        mode: this.mode,
+        schemeId: scheme.id,
+        theme: this.activeTheme,
+      });
+    }
+  }
+
+  /**
+   * Resolve a color mode to a concrete color scheme
+   */
+  private resolveColorScheme(mode: ColorMode): ColorScheme {
+    if (mode !== 'system') return mode;
+    if (typeof window === 'undefined' || typeof window.matchMedia !== 'function') {
+      return 'light';
+    }
+    return window.matchMedia(DARK_SCHEME_QUERY).matches ? 'dark' : 'light';
+  }
+
+  /**
+   * Start following prefers-color-scheme changes
+   */
+  private watchSystemColorScheme(): void {
+    if (this.mediaQuery) return;
+    if (typeof window === 'undefined' || typeof window.matchMedia !== 'function') return;
+
+    this.mediaQuery = window.matchMedia(DARK_SCHEME_QUERY);
+    this.mediaQueryListener = (event) => {
+      if (this.mode !== 'system') return;
+      // The OS switched, not the user: nothing to undo
+      this.applyColorScheme(event.matches ? 'dark' : 'light', false).catch((error) => {
+        this.eventBus.emit('theme:error', {
+          error: error instanceof Error ? error : new Error(String(error)),
+          context: 'scheme',
+        });
+      });
+    };
+    this.mediaQuery.addEventListener('change', this.mediaQueryListener);
+  }
+
+  /**
+   * Stop following prefers-color-scheme changes
+   */
+  private unwatchSystemColorScheme(): void {
+    if (this.mediaQuery && this.mediaQueryListener) {
+      this.mediaQuery.removeEventListener('change', this.mediaQueryListener);
     }
+    this.mediaQuery = null;
+    this.mediaQueryListener = null;
   }
 
   /**
    * Destroy the theme manager and clean up
    */
   destroy(): void {
+    this.unwatchSystemColorScheme();
+    this.history?.clear();
     this.cssInjector.clear();
     this.eventBus.clear();
     this.themes.clear();
     this.activeTheme = null;
+    this.previewTheme = null;
+    this.cssInjector.clearScopes();
+    this.cssInjector.clearCompiled();
+    this.scopes.clear();
+    this.candidateGroups.clear();
+    this.schemes.clear();
+    this.activeSchemeId = null;
+    this.mode = null;
+    this.colorScheme = null;
     this.aiOrchestrator = null;
     this.storageManager = null;
     this.currentAIOptions = null;
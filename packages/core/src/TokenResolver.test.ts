@@ -87,4 +87,63 @@ describe('TokenResolver', () => {
       expect(vars['--app-color-primary']).toBe(lightTheme.tokens.colors.primary);
     });
   });
+
+  describe('references', () => {
+    const tokens = {
+      ...lightTheme.tokens,
+      colors: { ...lightTheme.tokens.colors, textInverse: '{colors.background}' },
+    };
+
+    it('resolves references to literals by default', () => {
+      expect(resolver.flatten(tokens)['color-text-inverse']).toBe(
+        lightTheme.tokens.colors.background
+      );
+    });
+
+    it('emits var() references in var mode, honoring the prefix', () => {
+      const varResolver = new TokenResolver({ prefix: '--app', references: 'var' });
+      expect(varResolver.toCSSVariables(tokens)['--app-color-text-inverse']).toBe(
+        'var(--app-color-background)'
+      );
+    });
+  });
+
+  describe('ramps', () => {
+    it('emits 50-950 steps for the requested colors only when enabled', () => {
+      expect(resolver.flatten(lightTheme.tokens)['color-primary-100']).toBeUndefined();
+
+      const vars = new TokenResolver({ ramps: ['primary', 'error'] }).toCSSVariables(
+        lightTheme.tokens
+      );
+      expect(vars['--themed-color-primary-50']).toMatch(/^#[0-9a-f]{6}$/);
+      expect(vars['--themed-color-error-950']).toMatch(/^#[0-9a-f]{6}$/);
+      expect(vars['--themed-color-success-500']).toBeUndefined();
+    });
+
+    it('generates ramps for all semantic colors with true, from literals in var mode', () => {
+      const rampResolver = new TokenResolver({ ramps: true, references: 'var' });
+      const tokens = {
+        ...lightTheme.tokens,
+        colors: { ...lightTheme.tokens.colors, accent: '{colors.primary}' },
+      };
+      const flat = rampResolver.flatten(tokens);
+
+      expect(rampResolver.getRampColors()).toHaveLength(7);
+      expect(flat['color-info-500']).toBeDefined();
+      expect(flat['color-accent-300']).toBe(flat['color-primary-300']);
+      expect(rampResolver.getRampVariableName('primary', 100)).toBe('--themed-color-primary-100');
+    });
+  });
+
+  describe('colorFormat', () => {
+    it('emits hex colors as oklch() strings', () => {
+      const vars = new TokenResolver({ colorFormat: 'oklch', ramps: ['primary'] }).toCSSVariables(
+        lightTheme.tokens
+      );
+
+      expect(vars['--themed-color-primary']).toMatch(/^oklch\([\d.]+% [\d.]+ [\d.]+\)$/);
+      expect(vars['--themed-color-primary-100']).toMatch(/^oklch\(/);
+      expect(vars['--themed-shadow-sm']).toBe(lightTheme.tokens.shadow!.sm);
+    });
+  });
 });
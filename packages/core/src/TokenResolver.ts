@@ -1,6 +1,8 @@
 import type {
   ThemeTokens,
   ColorTokens,
+  RampColor,
+  RampStep,
   TypographyTokens,
   SpacingTokens,
   RadiusTokens,
@@ -12,7 +14,13 @@ import {
   defaultRadiusTokens,
   defaultShadowTokens,
   defaultTransitionTokens,
+  rampColors,
+  rampSteps,
 } from './types/tokens';
+import { formatOklch, oklabToOklch, rgbToOklab } from './utils/colorSpaces';
+import { parseColor } from './utils/parseColor';
+import { generateTonalRamp } from './utils/palette';
+import { resolveTokenReferences } from './utils/references';
 
 /**
  * Token path type for nested access
@@ -33,25 +41,80 @@ export type TokenPath =
  */
 export type FlattenedTokens = Record<string, string | number>;
 
+/**
+ * How token references ("{colors.primary}") are emitted:
+ * 'resolve' inlines the referenced value, 'var' emits var(--prefix-...) for plain references
+ */
+export type TokenReferenceMode = 'resolve' | 'var';
+
+/**
+ * How color values are emitted: 'preserve' keeps them as written, 'oklch' converts hex colors to oklch()
+ */
+export type ColorFormat = 'preserve' | 'oklch';
+
 /**
  * Token resolver for converting nested tokens to flat CSS variables
  */
 export class TokenResolver {
   private prefix: string;
+  private references: TokenReferenceMode;
+  private ramps: RampColor[];
+  private colorFormat: ColorFormat;
 
-  constructor(options: { prefix?: string } = {}) {
+  constructor(
+    options: {
+      prefix?: string;
+      references?: TokenReferenceMode;
+      /** Emit 50-950 tonal ramps for these semantic colors (true: all of them) */
+      ramps?: boolean | RampColor[];
+      colorFormat?: ColorFormat;
+    } = {}
+  ) {
     this.prefix = options.prefix ?? '--themed';
+    this.references = options.references ?? 'resolve';
+    this.ramps = options.ramps === true ? rampColors : options.ramps || [];
+    this.colorFormat = options.colorFormat ?? 'preserve';
   }
 
   /**
-   * Flatten nested tokens to a flat map
+   * Get the CSS variable prefix
    */
-  flatten(tokens: ThemeTokens): FlattenedTokens {
+  getPrefix(): string {
+    return this.prefix;
+  }
+
+  /**
+   * Resolve references and expressions ("{colors.primary | darken(10)}") in tokens
+   */
+  resolveReferences(tokens: ThemeTokens): ThemeTokens {
+    return resolveTokenReferences(tokens, {
+      toVariable: this.references === 'var' ? (path) => this.var(path as TokenPath) : undefined,
+    });
+  }
+
+  /**
+   * Flatten nested tokens to a flat map (references are resolved first)
+   */
+  flatten(rawTokens: ThemeTokens): FlattenedTokens {
+    const tokens = this.resolveReferences(rawTokens);
     const result: FlattenedTokens = {};
 
     // Flatten colors
     for (const [key, value] of Object.entries(tokens.colors)) {
-      result[`color-${this.camelToKebab(key)}`] = value;
+      result[`color-${this.camelToKebab(key)}`] = this.formatColor(value);
+    }
+
+    // Tonal ramps (opt-in), e.g. color-primary-100; computed from literal colors even in 'var' mode
+    if (this.ramps.length > 0) {
+      const colors =
+        this.references === 'var' ? resolveTokenReferences(rawTokens).colors : tokens.colors;
+      for (const color of this.ramps) {
+        const ramp = generateTonalRamp(colors[color]);
+        if (!ramp) continue;
+        for (const step of rampSteps) {
+          result[`color-${this.camelToKebab(color)}-${step}`] = this.formatColor(ramp[step]);
+        }
+      }
     }
 
     // Flatten typography
@@ -175,6 +238,20 @@ export class TokenResolver {
     return `${this.prefix}-${parts.join('-')}`;
   }
 
+  /**
+   * Get the CSS variable name of a tonal ramp step, e.g. "--themed-color-primary-100"
+   */
+  getRampVariableName(color: RampColor, step: RampStep): string {
+    return `${this.prefix}-color-${this.camelToKebab(color)}-${step}`;
+  }
+
+  /**
+   * Get the semantic colors that get tonal ramps
+   */
+  getRampColors(): RampColor[] {
+    return this.ramps;
+  }
+
   /**
    * Get CSS var() reference for a token path
    */
@@ -183,6 +260,15 @@ export class TokenResolver {
     return fallback ? `var(${varName}, ${fallback})` : `var(${varName})`;
   }
 
+  /**
+   * Apply the color format to a color value; translucent and unparseable values are kept as
+   * written
+   */
+  private formatColor(value: string): string {
+    const rgba = this.colorFormat === 'oklch' ? parseColor(value) : null;
+    return rgba && rgba.alpha === 1 ? formatOklch(oklabToOklch(rgbToOklab(rgba))) : value;
+  }
+
   /**
    * Convert camelCase to kebab-case
    */
@@ -0,0 +1,157 @@
+import { describe, expect, it, vi } from 'vitest';
+import { lightTheme } from '../themes';
+import type { ThemeTokens } from '../types/tokens';
+import { getContrastRatio } from '../utils/contrast';
+import { AIOrchestrator } from './AIOrchestrator';
+import type { AIProvider, Message, RequestOptions } from './providers/base';
+
+const withColors = (colors: Partial<ThemeTokens['colors']>) =>
+  JSON.stringify({ ...lightTheme.tokens, colors: { ...lightTheme.tokens.colors, ...colors } });
+
+// Readable text on the light background and surface; textInverse passes on the primary
+const readable = { textSecondary: '#4b5563', textInverse: '#ffffff', primary: '#4f46e5' };
+const unreadable = { ...readable, textSecondary: '#d1d5db' };
+
+function mockProvider(...responses: string[]): AIProvider & { calls: Message[][] } {
+  const calls: Message[][] = [];
+  return {
+    name: 'mock',
+    calls,
+    complete: vi.fn(async (messages: Message[], _options?: RequestOptions) => {
+      calls.push(messages);
+      return responses[Math.min(calls.length - 1, responses.length - 1)];
+    }),
+  };
+}
+
+describe('AIOrchestrator contrast enforcement', () => {
+  it('accepts a passing answer without follow-up requests', async () => {
+    const provider = mockProvider(withColors(readable));
+    const result = await new AIOrchestrator({ provider }).generateTheme('calm');
+
+    expect(provider.calls).toHaveLength(1);
+    expect(result.contrastReport).toMatchObject({
+      passes: true,
+      repairRounds: 0,
+      initialFailures: [],
+      fixedColors: {},
+    });
+  });
+
+  it('re-prompts with the failing pairs until the model fixes them', async () => {
+    const provider = mockProvider(withColors(unreadable), withColors(readable));
+    const result = await new AIOrchestrator({ provider }).generateTheme('calm');
+
+    expect(provider.calls).toHaveLength(2);
+    const followUp = provider.calls[1];
+    expect(followUp.at(-2)).toMatchObject({ role: 'assistant' });
+    expect(followUp.at(-1)!.content).toContain('textSecondary (#d1d5db) on background');
+
+    expect(result.tokens.colors.textSecondary).toBe('#4b5563');
+    expect(result.contrastReport!.repairRounds).toBe(1);
+    expect(result.contrastReport!.initialFailures.length).toBeGreaterThan(0);
+    expect(result.contrastReport!.passes).toBe(true);
+  });
+
+  it('fixes colors deterministically after the last repair round', async () => {
+    const provider = mockProvider(withColors(unreadable));
+    const result = await new AIOrchestrator({
+      provider,
+      contrast: { maxRepairRounds: 1 },
+    }).generateTheme('calm');
+
+    expect(provider.calls).toHaveLength(2);
+    expect(result.contrastReport!.fixedColors.textSecondary).toBeDefined();
+    expect(result.contrastReport!.passes).toBe(true);
+    expect(
+      getContrastRatio(result.tokens.colors.textSecondary, result.tokens.colors.surface)
+    ).toBeGreaterThanOrEqual(4.5);
+  });
+
+  it('keeps the last usable answer when a repair answer cannot be parsed', async () => {
+    const provider = mockProvider(withColors(unreadable), 'not json');
+    const result = await new AIOrchestrator({ provider }).generateTheme('calm');
+
+    expect(provider.calls).toHaveLength(2);
+    expect(result.contrastReport!.passes).toBe(true);
+  });
+
+  it('skips checks when disabled', async () => {
+    const provider = mockProvider(withColors(unreadable));
+    const result = await new AIOrchestrator({ provider, contrast: false }).adjustTheme(
+      lightTheme,
+      'lighter'
+    );
+
+    expect(provider.calls).toHaveLength(1);
+    expect(result.contrastReport).toBeUndefined();
+    expect(result.tokens.colors.textSecondary).toBe('#d1d5db');
+  });
+});
+
+describe('AIOrchestrator cancellation', () => {
+  it('passes the signal to every provider request, including repair rounds', async () => {
+    const provider = mockProvider(withColors(unreadable), withColors(readable));
+    const { signal } = new AbortController();
+    await new AIOrchestrator({ provider }).generateTheme('calm', undefined, { signal });
+
+    expect(provider.complete).toHaveBeenCalledTimes(2);
+    for (const [, options] of vi.mocked(provider.complete).mock.calls) {
+      expect(options?.signal).toBe(signal);
+    }
+  });
+});
+
+describe('AIOrchestrator streaming', () => {
+  it('yields the tokens received so far and ends with the contrast-checked result', async () => {
+    const response = withColors(readable);
+    const provider = {
+      ...mockProvider(response),
+      stream: async function* () {
+        for (let i = 0; i < response.length; i += 40) {
+          yield response.slice(i, i + 40);
+        }
+      },
+    };
+
+    const chunks = [];
+    for await (const chunk of new AIOrchestrator({ provider }).generateThemeStream('calm')) {
+      chunks.push(chunk);
+    }
+    const last = chunks.at(-1)!;
+
+    expect(chunks.length).toBeGreaterThan(2);
+    expect(chunks[1].tokens.colors?.primary).toBe(readable.primary);
+    expect(last.complete).toBe(true);
+    expect(last.result!.contrastReport!.passes).toBe(true);
+    expect(provider.complete).not.toHaveBeenCalled();
+  });
+
+  it('falls back to a single chunk without provider streaming', async () => {
+    const provider = mockProvider(withColors(readable));
+    const chunks = [];
+    for await (const chunk of new AIOrchestrator({ provider }).generateThemeStream('calm')) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks).toHaveLength(1);
+    expect(chunks[0]).toMatchObject({ complete: true, result: { tokens: chunks[0].tokens } });
+  });
+});
+
+describe('AIOrchestrator candidates', () => {
+  it('requests several themes at once and repairs each candidate separately', async () => {
+    const [good, bad] = [withColors(readable), withColors(unreadable)];
+    const provider = mockProvider(`[${good}, ${bad}, ${good}]`, good);
+
+    const results = await new AIOrchestrator({ provider }).generateThemeCandidates('calm', 2);
+
+    expect(results).toHaveLength(2);
+    expect(provider.calls[0].at(-1)!.content).toContain('Generate 2 distinct themes');
+    // The repair continues a single-theme conversation with the failing candidate
+    expect(provider.calls).toHaveLength(2);
+    expect(provider.calls[1].at(-2)!.content).toContain('#d1d5db');
+    expect(results.map((result) => result.contrastReport!.repairRounds)).toEqual([0, 1]);
+    expect(results.every((result) => result.contrastReport!.passes)).toBe(true);
+  });
+});
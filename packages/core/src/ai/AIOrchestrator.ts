@@ -1,10 +1,14 @@
-import type { AIOptions } from '../types/options';
+import type { AIContrastOptions, AIOptions } from '../types/options';
 import type { Theme } from '../types/theme';
-import type { AIProvider } from './providers/base';
-import type { AIGenerateResult } from './types';
+import { auditTokens, getContrastFixes } from '../utils/audit';
+import type { AIProvider, Message, RequestOptions } from './providers/base';
+import type { AIGenerateResult, AIStreamChunk } from './types';
 import { createAIProvider } from './createAIProvider';
 import { PromptEngine } from './PromptEngine';
 
+/** Contrast enforcement used when AIOptions.contrast is not set */
+const DEFAULT_CONTRAST_OPTIONS: AIContrastOptions = { roles: ['text'] };
+
 /**
  * AI orchestrator for managing theme generation.
  * Uses the shared provider factory so provider list lives in one place.
@@ -12,10 +16,12 @@ import { PromptEngine } from './PromptEngine';
 export class AIOrchestrator {
   private provider: AIProvider;
   private promptEngine: PromptEngine;
+  private contrast: AIContrastOptions | false;
 
   constructor(options: AIOptions) {
     this.provider = createAIProvider(options);
     this.promptEngine = new PromptEngine();
+    this.contrast = options.contrast ?? DEFAULT_CONTRAST_OPTIONS;
   }
 
   /**
@@ -35,45 +41,180 @@ export class AIOrchestrator {
   /**
    * Generate a new theme from a prompt
    */
-  async generateTheme(prompt: string, customSchema?: string): Promise<AIGenerateResult> {
+  async generateTheme(
+    prompt: string,
+    customSchema?: string,
+    options: RequestOptions = {}
+  ): Promise<AIGenerateResult> {
+    const messages = this.promptEngine.buildGeneratePrompt(prompt, customSchema);
+    return this.completeWithContrast(messages, options);
+  }
+
+  /**
+   * Generate several distinct themes from a prompt with a single request.
+   * Each candidate is contrast-checked on its own; returns at most `count` results, fewer when the
+   * model answers with fewer valid themes.
+   */
+  async generateThemeCandidates(
+    prompt: string,
+    count: number,
+    customSchema?: string,
+    options: RequestOptions = {}
+  ): Promise<AIGenerateResult[]> {
+    const response = await this.provider.complete(
+      this.promptEngine.buildGenerateCandidatesPrompt(prompt, count, customSchema),
+      options
+    );
+    const candidates = this.promptEngine.parseCandidatesResponse(response).slice(0, count);
+
+    // Repair rounds continue a single-theme conversation per candidate
     const messages = this.promptEngine.buildGeneratePrompt(prompt, customSchema);
-    const response = await this.provider.complete(messages);
-    return this.promptEngine.parseFullResponse(response);
+    return Promise.all(
+      candidates.map(({ tokens, custom }) =>
+        this.enforceContrast(messages, JSON.stringify({ ...tokens, custom }), options)
+      )
+    );
   }
 
   /**
    * Adjust an existing theme based on instructions
    */
-  async adjustTheme(theme: Theme, instruction: string, customSchema?: string): Promise<AIGenerateResult> {
+  async adjustTheme(
+    theme: Theme,
+    instruction: string,
+    customSchema?: string,
+    options: RequestOptions = {}
+  ): Promise<AIGenerateResult> {
     const messages = this.promptEngine.buildAdjustPrompt(theme, instruction, customSchema);
-    const response = await this.provider.complete(messages);
-    return this.promptEngine.parseFullResponse(response);
+    return this.completeWithContrast(messages, options);
   }
 
   /**
    * Generate theme with streaming (if supported).
-   * Yields partial text chunks; the final chunk has complete=true.
-   * When customSchema is provided, the streamed/complete JSON will include a "custom" field.
+   * Yields the text and tokens received so far; the final chunk has complete=true and the parsed,
+   * contrast-checked result. When customSchema is provided, the result includes the custom data.
    */
   async *generateThemeStream(
     prompt: string,
-    customSchema?: string
-  ): AsyncIterable<{ partial: string; complete: boolean }> {
+    customSchema?: string,
+    options: RequestOptions = {}
+  ): AsyncIterable<AIStreamChunk> {
+    const messages = this.promptEngine.buildGeneratePrompt(prompt, customSchema);
+    yield* this.streamWithContrast(messages, options);
+  }
+
+  /**
+   * Adjust an existing theme with streaming (if supported); chunks as in generateThemeStream()
+   */
+  async *adjustThemeStream(
+    theme: Theme,
+    instruction: string,
+    customSchema?: string,
+    options: RequestOptions = {}
+  ): AsyncIterable<AIStreamChunk> {
+    const messages = this.promptEngine.buildAdjustPrompt(theme, instruction, customSchema);
+    yield* this.streamWithContrast(messages, options);
+  }
+
+  private async *streamWithContrast(
+    messages: Message[],
+    requestOptions: RequestOptions
+  ): AsyncIterable<AIStreamChunk> {
     if (!this.provider.stream) {
       // Fall back to non-streaming; preserve full result including custom
-      const result = await this.generateTheme(prompt, customSchema);
-      yield { partial: JSON.stringify({ tokens: result.tokens, custom: result.custom }), complete: true };
+      const result = await this.completeWithContrast(messages, requestOptions);
+      yield {
+        partial: JSON.stringify({ tokens: result.tokens, custom: result.custom }),
+        tokens: result.tokens,
+        complete: true,
+        result,
+      };
       return;
     }
 
-    const messages = this.promptEngine.buildGeneratePrompt(prompt, customSchema);
     let accumulated = '';
 
-    for await (const chunk of this.provider.stream(messages)) {
+    for await (const chunk of this.provider.stream(messages, requestOptions)) {
       accumulated += chunk;
-      yield { partial: accumulated, complete: false };
+      yield {
+        partial: accumulated,
+        tokens: this.promptEngine.parsePartialResponse(accumulated),
+        complete: false,
+      };
+    }
+
+    // Repair rounds use complete(); only the first answer is streamed
+    const result = await this.enforceContrast(messages, accumulated, requestOptions);
+    yield { partial: accumulated, tokens: result.tokens, complete: true, result };
+  }
+
+  private async completeWithContrast(
+    messages: Message[],
+    requestOptions: RequestOptions
+  ): Promise<AIGenerateResult> {
+    const response = await this.provider.complete(messages, requestOptions);
+    return this.enforceContrast(messages, response, requestOptions);
+  }
+
+  /**
+   * Parse a response, then audit its contrast: failing pairs are sent back to the model for a
+   * bounded number of rounds, and whatever still fails is fixed deterministically
+   */
+  private async enforceContrast(
+    messages: Message[],
+    firstResponse: string,
+    requestOptions: RequestOptions
+  ): Promise<AIGenerateResult> {
+    let response = firstResponse;
+    let result = this.promptEngine.parseFullResponse(response);
+
+    const options = this.contrast;
+    if (!options) return result;
+
+    const { maxRepairRounds = 2, autoFix = true, ...auditOptions } = options;
+    const failuresOf = (tokens: AIGenerateResult['tokens']) =>
+      auditTokens(tokens, auditOptions).filter((finding) => !finding.passes);
+
+    const initialFailures = failuresOf(result.tokens);
+    let failures = initialFailures;
+    let conversation = messages;
+    let repairRounds = 0;
+
+    while (failures.length > 0 && repairRounds < maxRepairRounds) {
+      repairRounds++;
+      conversation = [
+        ...conversation,
+        { role: 'assistant', content: response },
+        this.promptEngine.buildContrastRepairPrompt(failures),
+      ];
+      response = await this.provider.complete(conversation, requestOptions);
+
+      try {
+        result = this.promptEngine.parseFullResponse(response);
+      } catch {
+        // Keep the last usable answer; the deterministic fallback handles the rest
+        break;
+      }
+      failures = failuresOf(result.tokens);
     }
 
-    yield { partial: accumulated, complete: true };
+    const fixedColors =
+      failures.length > 0 && autoFix
+        ? getContrastFixes(result.tokens, auditOptions.level, auditOptions)
+        : {};
+    const tokens = { ...result.tokens, colors: { ...result.tokens.colors, ...fixedColors } };
+    const findings = auditTokens(tokens, auditOptions);
+
+    return {
+      ...result,
+      tokens,
+      contrastReport: {
+        passes: findings.every((finding) => finding.passes),
+        repairRounds,
+        initialFailures,
+        fixedColors,
+        findings,
+      },
+    };
   }
 }
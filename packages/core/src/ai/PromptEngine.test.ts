@@ -35,6 +35,22 @@ describe('PromptEngine', () => {
     });
   });
 
+  describe('buildGenerateCandidatesPrompt', () => {
+    it('asks for a JSON array with the requested number of themes', () => {
+      const messages = engine.buildGenerateCandidatesPrompt('calm fintech', 3);
+      expect(messages[0].content).toContain('JSON array');
+      expect(messages[1].content).toContain('Generate 3 distinct themes');
+      expect(messages[1].content).toContain('calm fintech');
+      expect(messages[1].content).not.toContain('Custom structure');
+    });
+
+    it('asks for custom data in every theme when customSchema provided', () => {
+      const messages = engine.buildGenerateCandidatesPrompt('calm fintech', 2, 'brand name');
+      expect(messages[0].content).toContain('"custom"');
+      expect(messages[1].content).toContain('Custom structure: brand name');
+    });
+  });
+
   describe('buildAdjustPrompt', () => {
     it('includes current theme JSON and instruction', () => {
       const messages = engine.buildAdjustPrompt(lightTheme, 'make it darker');
@@ -50,6 +66,28 @@ describe('PromptEngine', () => {
     });
   });
 
+  describe('buildContrastRepairPrompt', () => {
+    it('lists failing pairs with their ratios', () => {
+      const message = engine.buildContrastRepairPrompt([
+        {
+          foreground: 'textSecondary',
+          background: 'surface',
+          role: 'text',
+          colors: ['#94a3b8', '#f8fafc'],
+          contrast: 2.56,
+          required: 4.5,
+          passes: false,
+          severity: 'error',
+        },
+      ]);
+
+      expect(message.role).toBe('user');
+      expect(message.content).toContain(
+        'textSecondary (#94a3b8) on surface (#f8fafc): 2.56:1, needs at least 4.50:1'
+      );
+    });
+  });
+
   describe('parseResponse', () => {
     it('parses valid JSON theme', () => {
       const json = JSON.stringify(lightTheme.tokens);
@@ -155,4 +193,58 @@ describe('PromptEngine', () => {
       expect((tokens as Record<string, unknown>).custom).toBeUndefined();
     });
   });
+
+  describe('parseCandidatesResponse', () => {
+    const dark = { colors: { primary: '#0ea5e9' }, custom: { name: 'Deep' } };
+    const light = { colors: { primary: '#f97316' } };
+
+    it('parses an array in a code block and keeps custom data per theme', () => {
+      const results = engine.parseCandidatesResponse(
+        `Here you go:\n\`\`\`json\n${JSON.stringify([dark, light])}\n\`\`\``
+      );
+      expect(results.map((result) => result.tokens.colors.primary)).toEqual(['#0ea5e9', '#f97316']);
+      expect(results[0].custom).toEqual({ name: 'Deep' });
+      expect(results[1].custom).toBeUndefined();
+    });
+
+    it('accepts a "themes" array or a single theme object', () => {
+      const wrapped = JSON.stringify({ themes: [dark, light] });
+      expect(engine.parseCandidatesResponse(wrapped)).toHaveLength(2);
+      expect(engine.parseCandidatesResponse(JSON.stringify(light))).toHaveLength(1);
+    });
+
+    it('skips entries that are not themes and throws when none is left', () => {
+      expect(engine.parseCandidatesResponse(JSON.stringify([light, 'x', {}]))).toHaveLength(1);
+      expect(() => engine.parseCandidatesResponse('[1, 2]')).toThrow(
+        'expected an array of theme objects'
+      );
+    });
+  });
+
+  describe('parsePartialResponse', () => {
+    it('returns only completed, valid tokens without defaults', () => {
+      const tokens = engine.parsePartialResponse(
+        '```json\n{"colors": {"primary": "#6366f1", "secondary": "nope", "surface": "#f8f'
+      );
+      expect(tokens).toEqual({ colors: { primary: '#6366f1' } });
+    });
+
+    it('keeps known typography, radius and shadow values', () => {
+      const tokens = engine.parsePartialResponse(
+        '{"colors": {}, "typography": {"fontFamily": {"sans": "Inter"}, ' +
+          '"fontWeight": {"bold": 700, "heavy": 900}}, ' +
+          '"radius": {"md": "6px", "lg": "huge"}, "shadow": {"sm": "none", '
+      );
+      expect(tokens).toEqual({
+        colors: {},
+        typography: { fontFamily: { sans: 'Inter' }, fontWeight: { bold: 700 } },
+        radius: { md: '6px' },
+        shadow: { sm: 'none' },
+      });
+    });
+
+    it('returns empty tokens before the object starts', () => {
+      expect(engine.parsePartialResponse('Here')).toEqual({});
+    });
+  });
 });
@@ -2,6 +2,7 @@ import type { Message } from './providers/base';
 import type { Theme } from '../types/theme';
 import type {
   ThemeTokens,
+  PartialThemeTokens,
   ColorTokens,
   TypographyTokens,
   RadiusTokens,
@@ -15,6 +16,11 @@ import {
   defaultShadowTokens,
   defaultTransitionTokens,
 } from '../types/tokens';
+import type { AuditFinding } from '../types/audit';
+import { formatApcaContrast } from '../utils/apca';
+import { formatContrastRatio } from '../utils/contrast';
+import { isValidColor } from '../utils/parseColor';
+import { parsePartialJson } from '../utils/partialJson';
 
 /**
  * System prompt for theme generation
@@ -97,6 +103,28 @@ Guidelines for color generation:
 4. Use appropriate colors for semantic states (error=red tones, success=green tones, etc.)
 5. Text colors should be readable on their intended backgrounds`;
 
+/**
+ * Color tokens every generated theme has
+ */
+const COLOR_KEYS: readonly (keyof ColorTokens)[] = [
+  'primary',
+  'secondary',
+  'accent',
+  'background',
+  'surface',
+  'error',
+  'warning',
+  'success',
+  'info',
+  'textPrimary',
+  'textSecondary',
+  'textDisabled',
+  'textInverse',
+  'border',
+  'borderLight',
+  'borderDark',
+];
+
 /**
  * Prompt engine for building AI prompts
  */
@@ -114,6 +142,13 @@ export class PromptEngine {
 
 Additionally, if the user provides a "Custom structure" description, you MUST include a top-level "custom" field in your JSON response containing the generated data. The "custom" field must be a plain JSON object (not an array). If the input looks like a JSON skeleton (starts with "{"), treat it as a structure template and fill in appropriate values that match the theme; otherwise treat it as a natural language description and generate a suitable JSON structure.`;
 
+  /**
+   * Extra instruction appended to system prompt when several themes are requested.
+   */
+  private static readonly CANDIDATES_SYSTEM_ADDENDUM = `
+
+When the user asks for several themes, respond with a JSON array instead, containing one theme object in the structure above per requested theme.`;
+
   /**
    * Build messages for generating a new theme
    */
@@ -132,6 +167,32 @@ Additionally, if the user provides a "Custom structure" description, you MUST in
     ];
   }
 
+  /**
+   * Build messages for generating several distinct themes in one response (a JSON array of theme
+   * objects, see parseCandidatesResponse())
+   */
+  buildGenerateCandidatesPrompt(
+    userPrompt: string,
+    count: number,
+    customSchema?: string
+  ): Message[] {
+    const systemContent = customSchema
+      ? this.systemPrompt + PromptEngine.CUSTOM_SCHEMA_SYSTEM_ADDENDUM
+      : this.systemPrompt;
+
+    const customPart = customSchema
+      ? `\n\nCustom structure: ${customSchema}\n\nGive every theme object its own top-level "custom" field alongside "colors", "typography", etc.`
+      : '';
+
+    return [
+      { role: 'system', content: systemContent + PromptEngine.CANDIDATES_SYSTEM_ADDENDUM },
+      {
+        role: 'user',
+        content: `Generate ${count} distinct themes based on this description: "${userPrompt}"\n\nMake each one a clearly different interpretation (different hues, contrast and mood), not a small variation of another.${customPart}\n\nRemember: Respond with ONLY a JSON array of ${count} theme objects, no other text or formatting.`,
+      },
+    ];
+  }
+
   /**
    * Build messages for adjusting an existing theme
    */
@@ -153,11 +214,130 @@ Additionally, if the user provides a "Custom structure" description, you MUST in
     ];
   }
 
+  /**
+   * Build a follow-up message asking the model to fix failing contrast pairs.
+   * Send it after the model's previous answer so it can keep everything else unchanged.
+   */
+  buildContrastRepairPrompt(failures: AuditFinding[]): Message {
+    const format = (finding: AuditFinding, value: number) =>
+      finding.apca ? formatApcaContrast(value) : formatContrastRatio(value);
+    const lines = failures.map(
+      (finding) =>
+        `- ${finding.foreground} (${finding.colors[0]}) on ${finding.background} (${finding.colors[1]}): ${format(finding, finding.contrast)}, needs at least ${format(finding, finding.required)}`
+    );
+
+    return {
+      role: 'user',
+      content: `These color pairs in your theme do not have enough contrast:\n\n${lines.join('\n')}\n\nAdjust only these colors (keep their hue, change lightness) and respond with the complete corrected JSON object, no other text or formatting.`,
+    };
+  }
+
   /**
    * Parse AI response into tokens + optional custom data.
    * The "custom" top-level field (if present and a plain object) is extracted before token normalisation.
    */
   parseFullResponse(response: string): AIGenerateResult {
+    const parsed = this.parseJson(response, /\{[\s\S]*\}/);
+
+    if (typeof parsed !== 'object' || parsed === null) {
+      throw new Error('Invalid AI response: expected an object');
+    }
+
+    return this.toResult(parsed as Record<string, unknown>);
+  }
+
+  /**
+   * Parse a response to buildGenerateCandidatesPrompt() into one result per theme.
+   * Accepts a JSON array, an object with a "themes" array or a single theme object; entries that
+   * are not valid themes are skipped.
+   */
+  parseCandidatesResponse(response: string): AIGenerateResult[] {
+    const parsed = this.parseJson(response, /\[[\s\S]*\]|\{[\s\S]*\}/);
+
+    let entries: unknown[];
+    if (Array.isArray(parsed)) {
+      entries = parsed;
+    } else if (isRecord(parsed) && Array.isArray(parsed.themes)) {
+      entries = parsed.themes;
+    } else {
+      entries = [parsed];
+    }
+
+    const results: AIGenerateResult[] = [];
+    for (const entry of entries) {
+      if (!isRecord(entry)) continue;
+      try {
+        results.push(this.toResult(entry));
+      } catch {
+        // Skip entries without colors
+      }
+    }
+
+    if (results.length === 0) {
+      throw new Error('Invalid AI response: expected an array of theme objects');
+    }
+    return results;
+  }
+
+  /**
+   * Parse AI response to ThemeTokens (backward-compatible, tokens only).
+   */
+  parseResponse(response: string): ThemeTokens {
+    return this.parseFullResponse(response).tokens;
+  }
+
+  /**
+   * Parse a response that is still streaming into the tokens completed so far.
+   * Unlike parseFullResponse() nothing is filled in with defaults: invalid or unfinished values
+   * are left out, so every token present is final.
+   */
+  parsePartialResponse(response: string): PartialThemeTokens {
+    const parsed = parsePartialJson(response);
+    const tokens: PartialThemeTokens = {};
+    if (!parsed) return tokens;
+
+    const colors = pickValues(
+      parsed.colors,
+      COLOR_KEYS,
+      (value) => typeof value === 'string' && isValidColor(value)
+    );
+    if (colors) tokens.colors = colors as Partial<ColorTokens>;
+
+    if (isRecord(parsed.typography)) {
+      const typography: Record<string, unknown> = {};
+      for (const group of ['fontFamily', 'fontSize', 'fontWeight', 'lineHeight'] as const) {
+        const isText = group === 'fontFamily' || group === 'fontSize';
+        const values = pickValues(
+          parsed.typography[group],
+          Object.keys(defaultTypographyTokens[group]),
+          (value) => (isText ? typeof value === 'string' : typeof value === 'number')
+        );
+        if (values) typography[group] = values;
+      }
+      tokens.typography = typography as PartialThemeTokens['typography'];
+    }
+
+    const radius = pickValues(
+      parsed.radius,
+      Object.keys(defaultRadiusTokens),
+      (value) => typeof value === 'string' && this.isValidRadiusValue(value)
+    );
+    if (radius) tokens.radius = radius as Partial<RadiusTokens>;
+
+    const shadow = pickValues(
+      parsed.shadow,
+      Object.keys(defaultShadowTokens),
+      (value) => typeof value === 'string' && this.isValidShadowValue(value)
+    );
+    if (shadow) tokens.shadow = shadow as Partial<ShadowTokens>;
+
+    return tokens;
+  }
+
+  /**
+   * Parse the JSON in a response, skipping code fences and text around the part matching `pattern`
+   */
+  private parseJson(response: string, pattern: RegExp): unknown {
     let jsonStr = response.trim();
 
     const codeBlockMatch = jsonStr.match(/```(?:json)?\s*([\s\S]*?)```/);
@@ -165,24 +345,22 @@ Additionally, if the user provides a "Custom structure" description, you MUST in
       jsonStr = codeBlockMatch[1].trim();
     }
 
-    const jsonMatch = jsonStr.match(/\{[\s\S]*\}/);
+    const jsonMatch = jsonStr.match(pattern);
     if (jsonMatch) {
       jsonStr = jsonMatch[0];
     }
 
-    let parsed: unknown;
     try {
-      parsed = JSON.parse(jsonStr);
+      return JSON.parse(jsonStr);
     } catch (error) {
       throw new Error(`Failed to parse AI response as JSON: ${error}`);
     }
+  }
 
-    if (typeof parsed !== 'object' || parsed === null) {
-      throw new Error('Invalid AI response: expected an object');
-    }
-
-    const obj = parsed as Record<string, unknown>;
-
+  /**
+   * Split a parsed theme object into normalized tokens and its "custom" field
+   */
+  private toResult(obj: Record<string, unknown>): AIGenerateResult {
     // Extract and remove "custom" before passing the rest to normalizeTokens
     let custom: Record<string, unknown> | undefined;
     if (
@@ -200,13 +378,6 @@ Additionally, if the user provides a "Custom structure" description, you MUST in
     return { tokens, ...(custom !== undefined ? { custom } : {}) };
   }
 
-  /**
-   * Parse AI response to ThemeTokens (backward-compatible, tokens only).
-   */
-  parseResponse(response: string): ThemeTokens {
-    return this.parseFullResponse(response).tokens;
-  }
-
   /**
    * Normalize and validate parsed tokens
    */
@@ -298,30 +469,11 @@ Additionally, if the user provides a "Custom structure" description, you MUST in
    * Normalize color tokens
    */
   private normalizeColors(colors: Record<string, unknown>): ColorTokens {
-    const requiredColors: (keyof ColorTokens)[] = [
-      'primary',
-      'secondary',
-      'accent',
-      'background',
-      'surface',
-      'error',
-      'warning',
-      'success',
-      'info',
-      'textPrimary',
-      'textSecondary',
-      'textDisabled',
-      'textInverse',
-      'border',
-      'borderLight',
-      'borderDark',
-    ];
-
     const result: Partial<ColorTokens> = {};
 
-    for (const key of requiredColors) {
+    for (const key of COLOR_KEYS) {
       const value = colors[key];
-      if (typeof value === 'string' && this.isValidColor(value)) {
+      if (typeof value === 'string' && isValidColor(value)) {
         result[key] = value;
       } else {
         // Generate fallback colors based on primary/background
@@ -402,29 +554,6 @@ Additionally, if the user provides a "Custom structure" description, you MUST in
     };
   }
 
-  /**
-   * Check if a string is a valid CSS color
-   */
-  private isValidColor(color: string): boolean {
-    // Basic hex color validation
-    if (/^#([0-9A-Fa-f]{3}|[0-9A-Fa-f]{6}|[0-9A-Fa-f]{8})$/.test(color)) {
-      return true;
-    }
-    // RGB/RGBA
-    if (/^rgba?\([\d\s,%.]+\)$/.test(color)) {
-      return true;
-    }
-    // HSL/HSLA
-    if (/^hsla?\([\d\s,%.]+\)$/.test(color)) {
-      return true;
-    }
-    // Named colors (basic check)
-    if (/^[a-zA-Z]+$/.test(color) && color.length <= 20) {
-      return true;
-    }
-    return false;
-  }
-
   /**
    * Generate fallback color for missing tokens
    */
@@ -455,3 +584,22 @@ Additionally, if the user provides a "Custom structure" description, you MUST in
     return fallbacks[key];
   }
 }
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Copy the known keys of a parsed token group whose values pass a check; undefined if the group
+ * is missing
+ */
+function pickValues(
+  group: unknown,
+  keys: readonly string[],
+  isValid: (value: unknown) => boolean
+): Record<string, unknown> | undefined {
+  if (!isRecord(group)) return undefined;
+  return Object.fromEntries(
+    keys.filter((key) => isValid(group[key])).map((key) => [key, group[key]])
+  );
+}
@@ -0,0 +1,164 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  type AIProviderConfig,
+  BaseAIProvider,
+  type EventStreamOptions,
+  type RequestOptions,
+  readEventStream,
+} from './base';
+
+class TestProvider extends BaseAIProvider {
+  readonly name = 'test';
+
+  constructor(config: Partial<AIProviderConfig> = {}) {
+    super({ apiKey: 'key', ...config });
+  }
+
+  async complete(): Promise<string> {
+    return '';
+  }
+
+  runRetry<T>(fn: () => Promise<T>, options?: RequestOptions): Promise<T> {
+    return this.retry(fn, options);
+  }
+
+  fetch(options: RequestInit = {}): Promise<Response> {
+    return this.fetchWithTimeout('https://example.com', options);
+  }
+}
+
+/** fetch that never responds and rejects like the real one when its signal aborts */
+function hangingFetch() {
+  return vi.fn(
+    (_url: string, init?: RequestInit) =>
+      new Promise<Response>((_resolve, reject) => {
+        init?.signal?.addEventListener('abort', () =>
+          reject(new DOMException('The operation was aborted.', 'AbortError'))
+        );
+      })
+  );
+}
+
+/** Response body that delivers the given chunks */
+function body(...chunks: string[]): ReadableStream<Uint8Array> {
+  const encoder = new TextEncoder();
+  return new ReadableStream({
+    start(controller) {
+      for (const chunk of chunks) controller.enqueue(encoder.encode(chunk));
+      controller.close();
+    },
+  });
+}
+
+async function collect(stream: ReadableStream<Uint8Array>, options?: EventStreamOptions) {
+  const payloads: string[] = [];
+  for await (const payload of readEventStream(stream, options)) {
+    payloads.push(payload);
+  }
+  return payloads;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('BaseAIProvider', () => {
+  describe('retry', () => {
+    it('stops retrying when aborted during the backoff', async () => {
+      const controller = new AbortController();
+      const fn = vi.fn(async () => {
+        setTimeout(() => controller.abort(), 0);
+        throw new Error('rate limited');
+      });
+
+      await expect(
+        new TestProvider().runRetry(fn, { signal: controller.signal })
+      ).rejects.toMatchObject({ name: 'AbortError' });
+      expect(fn).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not start when the signal is already aborted', async () => {
+      const fn = vi.fn(async () => 'ok');
+
+      await expect(
+        new TestProvider().runRetry(fn, { signal: AbortSignal.abort() })
+      ).rejects.toMatchObject({ name: 'AbortError' });
+      expect(fn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('fetchWithTimeout', () => {
+    it('rejects with the abort reason when the caller aborts', async () => {
+      vi.stubGlobal('fetch', hangingFetch());
+      const controller = new AbortController();
+      const pending = new TestProvider().fetch({ signal: controller.signal });
+      controller.abort(new Error('superseded'));
+
+      await expect(pending).rejects.toThrow('superseded');
+    });
+
+    it('still reports timeouts', async () => {
+      vi.stubGlobal('fetch', hangingFetch());
+      const { signal } = new AbortController();
+
+      await expect(new TestProvider({ timeout: 10 }).fetch({ signal })).rejects.toThrow(
+        'Request timeout after 10ms'
+      );
+    });
+  });
+});
+
+describe('readEventStream', () => {
+  it('yields server-sent event data split across chunks', async () => {
+    const payloads = await collect(body('data: {"a"', ':1}\n\ndata: {"a":2}\n', '\n'));
+    expect(payloads).toEqual(['{"a":1}', '{"a":2}']);
+  });
+
+  it('joins multi-line data and skips comments and other fields', async () => {
+    const payloads = await collect(
+      body(': keep-alive\r\nevent: delta\r\nid: 1\r\ndata: first\r\ndata:second\r\n\r\n')
+    );
+    expect(payloads).toEqual(['first\nsecond']);
+  });
+
+  it('stops at [DONE] and yields a last event without a blank line', async () => {
+    expect(await collect(body('data: 1\n\ndata: [DONE]\n\ndata: 2\n\n'))).toEqual(['1']);
+    expect(await collect(body('data: 1\n\ndata: 2'))).toEqual(['1', '2']);
+  });
+
+  it('yields NDJSON lines', async () => {
+    const payloads = await collect(body('{"a":1}\n\n{"a"', ':2}\n{"a":3}'), { format: 'ndjson' });
+    expect(payloads).toEqual(['{"a":1}', '{"a":2}', '{"a":3}']);
+  });
+
+  it('cancels the body when the caller stops early', async () => {
+    const cancel = vi.fn();
+    const stream = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(new TextEncoder().encode('data: 1\n\ndata: 2\n\n'));
+      },
+      cancel,
+    });
+
+    for await (const payload of readEventStream(stream)) {
+      expect(payload).toBe('1');
+      break;
+    }
+    expect(cancel).toHaveBeenCalled();
+  });
+
+  it('fails when no data arrives within the timeout', async () => {
+    const silent = new ReadableStream<Uint8Array>();
+    await expect(collect(silent, { timeout: 10 })).rejects.toThrow(
+      'Stream timeout: no data for 10ms'
+    );
+  });
+
+  it('rejects with the abort reason when the signal is aborted', async () => {
+    const controller = new AbortController();
+    const pending = collect(new ReadableStream<Uint8Array>(), { signal: controller.signal });
+    controller.abort(new Error('superseded'));
+
+    await expect(pending).rejects.toThrow('superseded');
+  });
+});
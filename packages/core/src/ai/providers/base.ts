@@ -22,6 +22,141 @@ export interface AIProviderConfig {
   maxRetries?: number;
 }
 
+/**
+ * Per-request options for AI providers
+ */
+export interface RequestOptions {
+  /** Aborts the request, including pending retries */
+  signal?: AbortSignal;
+}
+
+/**
+ * Options for BaseAIProvider.retry()
+ */
+export interface RetryOptions extends RequestOptions {
+  /** Defaults to the provider's maxRetries */
+  maxRetries?: number;
+}
+
+/**
+ * Wire format of a streamed response: server-sent events or newline-delimited JSON
+ */
+export type StreamFormat = 'sse' | 'ndjson';
+
+/**
+ * Options for readEventStream()
+ */
+export interface EventStreamOptions extends RequestOptions {
+  /** Default: 'sse' */
+  format?: StreamFormat;
+  /** Fail when no data arrives for this many milliseconds */
+  timeout?: number;
+}
+
+/**
+ * Read a streamed response body and yield the payload of each event: the data of each
+ * server-sent event (multi-line data joined with "\n", comments and other fields skipped, ending
+ * at "[DONE]") or each non-empty NDJSON line. The body is cancelled when reading stops early.
+ */
+export async function* readEventStream(
+  body: ReadableStream<Uint8Array>,
+  options: EventStreamOptions = {}
+): AsyncIterable<string> {
+  const { format = 'sse', timeout, signal } = options;
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  /** Data lines of the current server-sent event */
+  let data: string[] = [];
+
+  try {
+    while (true) {
+      const { done, value } = await readChunk(reader, timeout, signal);
+      buffer += done ? decoder.decode() : decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = done ? '' : (lines.pop() ?? '');
+
+      for (const rawLine of lines) {
+        const line = rawLine.endsWith('\r') ? rawLine.slice(0, -1) : rawLine;
+
+        if (format === 'ndjson') {
+          if (line.trim()) yield line.trim();
+          continue;
+        }
+
+        // A blank line dispatches the event
+        if (line === '') {
+          if (data.length === 0) continue;
+          const payload = data.join('\n');
+          data = [];
+          if (payload === '[DONE]') return;
+          yield payload;
+          continue;
+        }
+
+        const colon = line.indexOf(':');
+        if (colon === 0) continue;
+        const field = colon === -1 ? line : line.slice(0, colon);
+        if (field !== 'data') continue;
+        const value = colon === -1 ? '' : line.slice(colon + 1);
+        data.push(value.startsWith(' ') ? value.slice(1) : value);
+      }
+
+      if (done) break;
+    }
+
+    // Some servers end the last event without a blank line
+    const payload = data.join('\n');
+    if (data.length > 0 && payload !== '[DONE]') {
+      yield payload;
+    }
+  } finally {
+    // Closes the connection when the caller stops early; a no-op after the last chunk
+    reader.cancel().catch(() => {});
+  }
+}
+
+/**
+ * Read one chunk, failing after `timeout` ms without data or when the signal is aborted
+ */
+function readChunk(
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  timeout?: number,
+  signal?: AbortSignal
+): Promise<ReadableStreamReadResult<Uint8Array>> {
+  signal?.throwIfAborted();
+  if (!timeout && !signal) return reader.read();
+
+  return new Promise((resolve, reject) => {
+    const settle = () => {
+      clearTimeout(timeoutId);
+      signal?.removeEventListener('abort', onAbort);
+    };
+    const onAbort = () => {
+      settle();
+      reject(signal?.reason);
+    };
+    const timeoutId = timeout
+      ? setTimeout(() => {
+          settle();
+          reject(new Error(`Stream timeout: no data for ${timeout}ms`));
+        }, timeout)
+      : undefined;
+    signal?.addEventListener('abort', onAbort, { once: true });
+
+    reader.read().then(
+      (result) => {
+        settle();
+        resolve(result);
+      },
+      (error) => {
+        settle();
+        reject(error);
+      }
+    );
+  });
+}
+
 /**
  * AI provider interface
  */
@@ -32,12 +167,12 @@ export interface AIProvider {
   /**
    * Send a completion request
    */
-  complete(messages: Message[]): Promise<string>;
+  complete(messages: Message[], options?: RequestOptions): Promise<string>;
 
   /**
    * Stream a completion request (optional)
    */
-  stream?(messages: Message[]): AsyncIterable<string>;
+  stream?(messages: Message[], options?: RequestOptions): AsyncIterable<string>;
 }
 
 /**
@@ -55,23 +190,27 @@ export abstract class BaseAIProvider implements AIProvider {
     };
   }
 
-  abstract complete(messages: Message[]): Promise<string>;
+  abstract complete(messages: Message[], options?: RequestOptions): Promise<string>;
 
   /**
-   * Retry a function with exponential backoff
+   * Retry a function with exponential backoff.
+   * Stops with the signal's abort reason once the signal is aborted; aborts are never retried.
    */
-  protected async retry<T>(fn: () => Promise<T>, maxRetries?: number): Promise<T> {
-    const retries = maxRetries ?? this.config.maxRetries ?? 3;
+  protected async retry<T>(fn: () => Promise<T>, options: RetryOptions = {}): Promise<T> {
+    const { signal } = options;
+    const retries = options.maxRetries ?? this.config.maxRetries ?? 3;
     let lastError: Error | null = null;
 
     for (let i = 0; i <= retries; i++) {
+      signal?.throwIfAborted();
       try {
         return await fn();
       } catch (error) {
+        signal?.throwIfAborted();
         lastError = error instanceof Error ? error : new Error(String(error));
         if (i < retries) {
           // Exponential backoff: 1s, 2s, 4s, ...
-          await this.sleep(Math.pow(2, i) * 1000);
+          await this.sleep(Math.pow(2, i) * 1000, signal);
         }
       }
     }
@@ -80,32 +219,85 @@ export abstract class BaseAIProvider implements AIProvider {
   }
 
   /**
-   * Sleep for a given duration
+   * Yield the text of each event of a streamed response. Events are parsed as JSON and passed to
+   * extractDelta; events without text and invalid JSON are skipped. Reading fails after the
+   * provider's timeout without data and stops with the abort reason when the signal is aborted.
    */
-  protected sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  protected async *readDeltas<T>(
+    response: Response,
+    extractDelta: (event: T) => string | null | undefined,
+    options: RequestOptions & { format?: StreamFormat } = {}
+  ): AsyncIterable<string> {
+    if (!response.body) {
+      throw new Error('Failed to get response reader');
+    }
+
+    const events = readEventStream(response.body, { ...options, timeout: this.config.timeout });
+    for await (const payload of events) {
+      let event: T;
+      try {
+        event = JSON.parse(payload);
+      } catch {
+        // Skip invalid JSON
+        continue;
+      }
+
+      const delta = extractDelta(event);
+      if (delta) {
+        yield delta;
+      }
+    }
   }
 
   /**
-   * Create a fetch request with timeout
+   * Sleep for a given duration; rejects with the abort reason when the signal is aborted
    */
-  protected async fetchWithTimeout(
-    url: string,
-    options: RequestInit
-  ): Promise<Response> {
+  protected sleep(ms: number, signal?: AbortSignal): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(signal.reason);
+        return;
+      }
+
+      const onAbort = () => {
+        clearTimeout(timeoutId);
+        reject(signal?.reason);
+      };
+      const timeoutId = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }, ms);
+      signal?.addEventListener('abort', onAbort, { once: true });
+    });
+  }
+
+  /**
+   * Create a fetch request with timeout. A signal in the options aborts the request as well
+   * (rejecting with the signal's abort reason) and, once the response arrives, reading its body.
+   */
+  protected async fetchWithTimeout(url: string, options: RequestInit): Promise<Response> {
+    const { signal, ...init } = options;
+    signal?.throwIfAborted();
+
     const controller = new AbortController();
     const timeoutId = setTimeout(
       () => controller.abort(new Error(`Request timeout after ${this.config.timeout}ms`)),
       this.config.timeout
     );
+    const onAbort = () => controller.abort(signal?.reason);
+    signal?.addEventListener('abort', onAbort, { once: true });
 
     try {
       const response = await fetch(url, {
-        ...options,
+        ...init,
         signal: controller.signal,
       });
       return response;
     } catch (error) {
+      signal?.removeEventListener('abort', onAbort);
+      if (signal?.aborted) {
+        throw signal.reason;
+      }
       if (error instanceof Error && error.name === 'AbortError') {
         throw new Error(`Request timeout after ${this.config.timeout}ms`);
       }
@@ -1,4 +1,4 @@
-import { BaseAIProvider, type AIProviderConfig, type Message } from './base';
+import { BaseAIProvider, type AIProviderConfig, type Message, type RequestOptions } from './base';
 
 /**
  * Claude API response structure
@@ -19,6 +19,17 @@ interface ClaudeResponse {
   };
 }
 
+/**
+ * Claude streaming event structure
+ */
+interface ClaudeStreamEvent {
+  type: string;
+  delta?: {
+    type: string;
+    text?: string;
+  };
+}
+
 /**
  * Claude provider for AI theme generation
  */
@@ -36,35 +47,9 @@ export class ClaudeProvider extends BaseAIProvider {
   /**
    * Send a completion request to Claude
    */
-  async complete(messages: Message[]): Promise<string> {
+  async complete(messages: Message[], options: RequestOptions = {}): Promise<string> {
     return this.retry(async () => {
-      // Extract system message if present
-      const systemMessage = messages.find((m) => m.role === 'system');
-      const otherMessages = messages.filter((m) => m.role !== 'system');
-
-      const response = await this.fetchWithTimeout(`${this.baseURL}/messages`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'x-api-key': this.config.apiKey,
-          'anthropic-version': '2023-06-01',
-        },
-        body: JSON.stringify({
-          model: this.model,
-          max_tokens: 2000,
-          system: systemMessage?.content,
-          messages: otherMessages.map((m) => ({
-            role: m.role === 'assistant' ? 'assistant' : 'user',
-            content: m.content,
-          })),
-        }),
-      });
-
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`Claude API error: ${response.status} - ${error}`);
-      }
-
+      const response = await this.send(messages, false, options);
       const data: ClaudeResponse = await response.json();
       const content = data.content[0]?.text;
 
@@ -73,18 +58,37 @@ export class ClaudeProvider extends BaseAIProvider {
       }
 
       return content;
-    });
+    }, options);
   }
 
   /**
    * Stream a completion request
    */
-  async *stream(messages: Message[]): AsyncIterable<string> {
+  async *stream(messages: Message[], options: RequestOptions = {}): AsyncIterable<string> {
+    const response = await this.retry(() => this.send(messages, true, options), options);
+    yield* this.readDeltas(
+      response,
+      (event: ClaudeStreamEvent) =>
+        event.type === 'content_block_delta' ? event.delta?.text : undefined,
+      options
+    );
+  }
+
+  /**
+   * Post a messages request; error responses throw
+   */
+  private async send(
+    messages: Message[],
+    stream: boolean,
+    options: RequestOptions
+  ): Promise<Response> {
+    // Extract system message if present
     const systemMessage = messages.find((m) => m.role === 'system');
     const otherMessages = messages.filter((m) => m.role !== 'system');
 
     const response = await this.fetchWithTimeout(`${this.baseURL}/messages`, {
       method: 'POST',
+      signal: options.signal,
       headers: {
         'Content-Type': 'application/json',
         'x-api-key': this.config.apiKey,
@@ -98,7 +102,7 @@ export class ClaudeProvider extends BaseAIProvider {
           role: m.role === 'assistant' ? 'assistant' : 'user',
           content: m.content,
         })),
-        stream: true,
+        ...(stream && { stream: true }),
       }),
     });
 
@@ -107,41 +111,6 @@ export class ClaudeProvider extends BaseAIProvider {
       throw new Error(`Claude API error: ${response.status} - ${error}`);
     }
 
-    const reader = response.body?.getReader();
-    if (!reader) {
-      throw new Error('Failed to get response reader');
-    }
-
-    const decoder = new TextDecoder();
-    let buffer = '';
-
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() ?? '';
-
-        for (const line of lines) {
-          const trimmed = line.trim();
-          if (!trimmed) continue;
-
-          if (trimmed.startsWith('data: ')) {
-            try {
-              const json = JSON.parse(trimmed.slice(6));
-              if (json.type === 'content_block_delta' && json.delta?.text) {
-                yield json.delta.text;
-              }
-            } catch {
-              // Skip invalid JSON
-            }
-          }
-        }
-      }
-    } finally {
-      reader.releaseLock();
-    }
+    return response;
   }
 }
@@ -0,0 +1,51 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { CustomProvider } from './custom';
+
+async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('CustomProvider', () => {
+  it('streams NDJSON with the default extractor and adds stream to the request', async () => {
+    const fetch = vi.fn(
+      async (_url: string, _init?: RequestInit) =>
+        new Response('{"message":{"content":"a"}}\n{"message":{"content":"b"},"done":true}\n')
+    );
+    vi.stubGlobal('fetch', fetch);
+
+    const provider = new CustomProvider({
+      apiKey: '',
+      endpoint: 'http://localhost:11434/api/chat',
+      streamFormat: 'ndjson',
+      maxRetries: 0,
+    });
+    const chunks = await collect(provider.stream([{ role: 'user', content: 'calm' }]));
+
+    expect(chunks).toEqual(['a', 'b']);
+    expect(JSON.parse(fetch.mock.calls[0][1]?.body as string)).toMatchObject({ stream: true });
+  });
+
+  it('uses a configured delta extractor', async () => {
+    vi.stubGlobal(
+      'fetch',
+      async () => new Response('data: {"token":"x"}\n\ndata: {"token":"y"}\n\n')
+    );
+
+    const provider = new CustomProvider({
+      apiKey: 'key',
+      endpoint: 'https://example.com/generate',
+      extractDelta: (event) => (event as { token: string }).token,
+      maxRetries: 0,
+    });
+
+    expect(await collect(provider.stream([{ role: 'user', content: 'calm' }]))).toEqual(['x', 'y']);
+  });
+});
@@ -1,4 +1,10 @@
-import { BaseAIProvider, type AIProviderConfig, type Message } from './base';
+import {
+  BaseAIProvider,
+  type AIProviderConfig,
+  type Message,
+  type RequestOptions,
+  type StreamFormat,
+} from './base';
 
 /**
  * Custom provider configuration
@@ -12,6 +18,10 @@ export interface CustomProviderConfig extends AIProviderConfig {
   transformRequest?: (messages: Message[]) => unknown;
   /** Response content extractor */
   extractContent?: (response: unknown) => string;
+  /** Text extractor for each streamed event (default: OpenAI, Claude and Ollama formats) */
+  extractDelta?: (event: unknown) => string | null | undefined;
+  /** Wire format of streamed responses (default: 'sse') */
+  streamFormat?: StreamFormat;
 }
 
 /**
@@ -23,6 +33,8 @@ export class CustomProvider extends BaseAIProvider {
   private customHeaders: Record<string, string>;
   private transformRequest: (messages: Message[]) => unknown;
   private extractContent: (response: unknown) => string;
+  private extractDelta: (event: unknown) => string | null | undefined;
+  private streamFormat: StreamFormat;
 
   constructor(config: CustomProviderConfig) {
     super(config);
@@ -68,34 +80,71 @@ export class CustomProvider extends BaseAIProvider {
 
         throw new Error('Could not extract content from response');
       });
+
+    // Default delta extractor (OpenAI, Claude and Ollama streaming formats)
+    this.extractDelta =
+      config.extractDelta ??
+      ((event: unknown) => {
+        const e = event as {
+          choices?: Array<{ delta?: { content?: string } }>;
+          delta?: { text?: string };
+          message?: { content?: string };
+          response?: string;
+        };
+
+        return e.choices?.[0]?.delta?.content ?? e.delta?.text ?? e.message?.content ?? e.response;
+      });
+    this.streamFormat = config.streamFormat ?? 'sse';
   }
 
   /**
    * Send a completion request to custom endpoint
    */
-  async complete(messages: Message[]): Promise<string> {
+  async complete(messages: Message[], options: RequestOptions = {}): Promise<string> {
     return this.retry(async () => {
-      const body = this.transformRequest(messages);
+      const response = await this.send(messages, false, options);
+      const data = await response.json();
+      return this.extractContent(data);
+    }, options);
+  }
 
-      const response = await this.fetchWithTimeout(this.endpoint, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          ...(this.config.apiKey
-            ? { Authorization: `Bearer ${this.config.apiKey}` }
-            : {}),
-          ...this.customHeaders,
-        },
-        body: JSON.stringify(body),
-      });
+  /**
+   * Stream a completion request; object request bodies get `stream: true`
+   */
+  async *stream(messages: Message[], options: RequestOptions = {}): AsyncIterable<string> {
+    const response = await this.retry(() => this.send(messages, true, options), options);
+    yield* this.readDeltas(response, this.extractDelta, { ...options, format: this.streamFormat });
+  }
 
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`Custom API error: ${response.status} - ${error}`);
-      }
+  /**
+   * Post a request to the endpoint; error responses throw
+   */
+  private async send(
+    messages: Message[],
+    stream: boolean,
+    options: RequestOptions
+  ): Promise<Response> {
+    const body = this.transformRequest(messages);
+    const isObject = typeof body === 'object' && body !== null && !Array.isArray(body);
 
-      const data = await response.json();
-      return this.extractContent(data);
+    const response = await this.fetchWithTimeout(this.endpoint, {
+      method: 'POST',
+      signal: options.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.config.apiKey
+          ? { Authorization: `Bearer ${this.config.apiKey}` }
+          : {}),
+        ...this.customHeaders,
+      },
+      body: JSON.stringify(stream && isObject ? { ...body, stream: true } : body),
     });
+
+    if (!response.ok) {
+      const error = await response.text();
+      throw new Error(`Custom API error: ${response.status} - ${error}`);
+    }
+
+    return response;
   }
 }
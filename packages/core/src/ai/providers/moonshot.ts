@@ -1,4 +1,4 @@
-import { BaseAIProvider, type AIProviderConfig, type Message } from './base';
+import { BaseAIProvider, type AIProviderConfig, type Message, type RequestOptions } from './base';
 
 /**
  * Moonshot/Kimi API response structure (OpenAI-compatible format)
@@ -23,6 +23,17 @@ interface MoonshotResponse {
   };
 }
 
+/**
+ * Moonshot streaming event structure
+ */
+interface MoonshotStreamChunk {
+  choices: Array<{
+    delta?: {
+      content?: string;
+    };
+  }>;
+}
+
 /**
  * Moonshot (Kimi) provider for AI theme generation
  * Uses Moonshot AI's OpenAI-compatible API
@@ -43,33 +54,9 @@ export class MoonshotProvider extends BaseAIProvider {
   /**
    * Send a completion request to Moonshot/Kimi
    */
-  async complete(messages: Message[]): Promise<string> {
+  async complete(messages: Message[], options: RequestOptions = {}): Promise<string> {
     return this.retry(async () => {
-      const response = await this.fetchWithTimeout(
-        `${this.baseURL}/chat/completions`,
-        {
-          method: 'POST',
-          headers: {
-            'Content-Type': 'application/json',
-            Authorization: `Bearer ${this.config.apiKey}`,
-          },
-          body: JSON.stringify({
-            model: this.model,
-            messages: messages.map((m) => ({
-              role: m.role,
-              content: m.content,
-            })),
-            temperature: 0.6,
-            max_completion_tokens: 2000,
-          }),
-        }
-      );
-
-      if (!response.ok) {
-        const error = await response.text();
-        throw new Error(`Moonshot API error: ${response.status} - ${error}`);
-      }
-
+      const response = await this.send(messages, false, options);
       const data: MoonshotResponse = await response.json();
       const content = data.choices[0]?.message?.content;
 
@@ -78,75 +65,53 @@ export class MoonshotProvider extends BaseAIProvider {
       }
 
       return content;
-    });
+    }, options);
   }
 
   /**
    * Stream a completion request
    */
-  async *stream(messages: Message[]): AsyncIterable<string> {
-    const response = await this.fetchWithTimeout(
-      `${this.baseURL}/chat/completions`,
-      {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          Authorization: `Bearer ${this.config.apiKey}`,
-        },
-        body: JSON.stringify({
-          model: this.model,
-          messages: messages.map((m) => ({
-            role: m.role,
-            content: m.content,
-          })),
-          temperature: 0.6,
-          max_completion_tokens: 2000,
-          stream: true,
-        }),
-      }
+  async *stream(messages: Message[], options: RequestOptions = {}): AsyncIterable<string> {
+    const response = await this.retry(() => this.send(messages, true, options), options);
+    yield* this.readDeltas(
+      response,
+      (event: MoonshotStreamChunk) => event.choices?.[0]?.delta?.content,
+      options
     );
+  }
+
+  /**
+   * Post a chat completion request; error responses throw
+   */
+  private async send(
+    messages: Message[],
+    stream: boolean,
+    options: RequestOptions
+  ): Promise<Response> {
+    const response = await this.fetchWithTimeout(`${this.baseURL}/chat/completions`, {
+      method: 'POST',
+      signal: options.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${this.config.apiKey}`,
+      },
+      body: JSON.stringify({
+        model: this.model,
+        messages: messages.map((m) => ({
+          role: m.role,
+          content: m.content,
+        })),
+        temperature: 0.6,
+        max_completion_tokens: 2000,
+        ...(stream && { stream: true }),
+      }),
+    });
 
     if (!response.ok) {
       const error = await response.text();
       throw new Error(`Moonshot API error: ${response.status} - ${error}`);
     }
 
-    const reader = response.body?.getReader();
-    if (!reader) {
-      throw new Error('Failed to get response reader');
-    }
-
-    const decoder = new TextDecoder();
-    let buffer = '';
-
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        buffer += decoder.decode(value, { stream: true });
-        const lines = buffer.split('\n');
-        buffer = lines.pop() ?? '';
-
-        for (const line of lines) {
-          const trimmed = line.trim();
-          if (!trimmed || trimmed === 'data: [DONE]') continue;
-
-          if (trimmed.startsWith('data: ')) {
-            try {
-              const json = JSON.parse(trimmed.slice(6));
-              const content = json.choices?.[0]?.delta?.content;
-              if (content) {
-                yield content;
-              }
-            } catch {
-              // Skip invalid JSON
-            }
-          }
-        }
-      }
-    } finally {
-      reader.releaseLock();
-    }
+    return response;
   }
 }
@@ -0,0 +1,64 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { OpenAIProvider } from './openai';
+
+function sseResponse(...events: unknown[]): Response {
+  const text = events.map((event) => `data: ${JSON.stringify(event)}\n\n`).join('');
+  return new Response(`${text}data: [DONE]\n\n`, { status: 200 });
+}
+
+async function collect(stream: AsyncIterable<string>): Promise<string[]> {
+  const chunks: string[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('OpenAIProvider', () => {
+  it('streams content deltas', async () => {
+    const fetch = vi.fn(async (_url: string, _init?: RequestInit) =>
+      sseResponse(
+        { choices: [{ delta: { role: 'assistant' } }] },
+        { choices: [{ delta: { content: '{"colors"' } }] },
+        { choices: [{ delta: { content: ': {}}' } }] }
+      )
+    );
+    vi.stubGlobal('fetch', fetch);
+
+    const provider = new OpenAIProvider({ apiKey: 'key', maxRetries: 0 });
+    const chunks = await collect(provider.stream([{ role: 'user', content: 'calm' }]));
+
+    expect(chunks).toEqual(['{"colors"', ': {}}']);
+    expect(JSON.parse(fetch.mock.calls[0][1]?.body as string)).toMatchObject({ stream: true });
+  });
+
+  it('retries a failed stream request before any data arrives', async () => {
+    vi.useFakeTimers();
+    const fetch = vi
+      .fn()
+      .mockResolvedValueOnce(new Response('busy', { status: 503 }))
+      .mockResolvedValueOnce(sseResponse({ choices: [{ delta: { content: 'ok' } }] }));
+    vi.stubGlobal('fetch', fetch);
+
+    const provider = new OpenAIProvider({ apiKey: 'key', maxRetries: 1 });
+    const pending = collect(provider.stream([{ role: 'user', content: 'calm' }]));
+    await vi.runAllTimersAsync();
+
+    expect(await pending).toEqual(['ok']);
+    expect(fetch).toHaveBeenCalledTimes(2);
+    vi.useRealTimers();
+  });
+
+  it('reports API errors', async () => {
+    vi.stubGlobal('fetch', async () => new Response('bad key', { status: 401 }));
+    const provider = new OpenAIProvider({ apiKey: 'key', maxRetries: 0 });
+
+    await expect(collect(provider.stream([{ role: 'user', content: 'calm' }]))).rejects.toThrow(
+      'OpenAI API error: 401 - bad key'
+    );
+  });
+});
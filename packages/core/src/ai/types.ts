@@ -1,5 +1,23 @@
+import type { AuditFinding } from '../types/audit';
 import type { Theme } from '../types/theme';
-import type { ThemeTokens } from '../types/tokens';
+import type { ColorTokens, PartialThemeTokens, ThemeTokens } from '../types/tokens';
+import type { RequestOptions } from './providers/base';
+
+/**
+ * Contrast checks run on a generated theme
+ */
+export interface AIContrastReport {
+  /** Whether the final tokens pass every checked pair */
+  passes: boolean;
+  /** Follow-up requests sent to the model to fix failing pairs */
+  repairRounds: number;
+  /** Failing pairs of the model's first answer */
+  initialFailures: AuditFinding[];
+  /** Colors changed by the deterministic fallback after the last round (empty if none) */
+  fixedColors: Partial<ColorTokens>;
+  /** Findings for the final tokens */
+  findings: AuditFinding[];
+}
 
 /**
  * Result of AI theme generation: tokens plus optional custom structured data.
@@ -7,13 +25,72 @@ import type { ThemeTokens } from '../types/tokens';
 export interface AIGenerateResult {
   tokens: ThemeTokens;
   custom?: Record<string, unknown>;
+  /** Contrast checks, present unless disabled with ai.contrast: false */
+  contrastReport?: AIContrastReport;
+}
+
+/**
+ * Progress of a streamed generation
+ */
+export interface AIStreamChunk {
+  /** Response text received so far */
+  partial: string;
+  /** Tokens completed so far */
+  tokens: PartialThemeTokens;
+  /** True on the last chunk */
+  complete: boolean;
+  /** Parsed and contrast-checked result, set on the last chunk */
+  result?: AIGenerateResult;
+}
+
+/**
+ * Progress of ThemeManager.generateStream()
+ */
+export interface GenerateStreamChunk {
+  /** Tokens completed so far; the full tokens on the last chunk */
+  tokens: PartialThemeTokens;
+  /** The generated theme, set on the last chunk */
+  theme?: Theme;
 }
 
 /**
  * Interface for AI-powered theme generation.
  * ThemeManager depends only on this interface; concrete implementation is created by the AI factory.
+ * Aborting options.signal rejects with the signal's abort reason.
  */
 export interface IAIThemeGenerator {
-  generateTheme(prompt: string, customSchema?: string): Promise<AIGenerateResult>;
-  adjustTheme(theme: Theme, instruction: string, customSchema?: string): Promise<AIGenerateResult>;
+  generateTheme(
+    prompt: string,
+    customSchema?: string,
+    options?: RequestOptions
+  ): Promise<AIGenerateResult>;
+  adjustTheme(
+    theme: Theme,
+    instruction: string,
+    customSchema?: string,
+    options?: RequestOptions
+  ): Promise<AIGenerateResult>;
+  /**
+   * Generate up to `count` distinct themes with one request; without it, candidates are generated
+   * with parallel generateTheme() calls
+   */
+  generateThemeCandidates?(
+    prompt: string,
+    count: number,
+    customSchema?: string,
+    options?: RequestOptions
+  ): Promise<AIGenerateResult[]>;
+  /** Streaming variant of generateTheme(); generators without it are not streamed */
+  generateThemeStream?(
+    prompt: string,
+    customSchema?: string,
+    options?: RequestOptions
+  ): AsyncIterable<AIStreamChunk>;
+  /** Streaming variant of adjustTheme() */
+  adjustThemeStream?(
+    theme: Theme,
+    instruction: string,
+    customSchema?: string,
+    options?: RequestOptions
+  ): AsyncIterable<AIStreamChunk>;
 }
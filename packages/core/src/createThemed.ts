@@ -1,6 +1,6 @@
 import { ThemeManager } from './ThemeManager';
 import type { ThemeManagerOptions } from './types/options';
-import { builtinThemes } from './themes';
+import { builtinSchemes, builtinThemes } from './themes';
 
 /**
  * Create a configured ThemeManager instance
@@ -20,6 +20,9 @@ import { builtinThemes } from './themes';
  *   },
  * });
  *
+ * // Follow the OS light/dark preference
+ * await themed.setMode('system');
+ *
  * // Generate a theme
  * const theme = await themed.generate('A warm autumn theme');
  * ```
@@ -28,12 +31,15 @@ export function createThemed(options: ThemeManagerOptions = {}): ThemeManager {
   // Include built-in themes by default
   const themes = [...builtinThemes, ...(options.themes ?? [])];
 
+  const schemes = [...builtinSchemes, ...(options.schemes ?? [])];
+
   // Set default theme if not specified
   const defaultTheme = options.defaultTheme ?? 'light';
 
   const manager = new ThemeManager({
     ...options,
     themes,
+    schemes,
     defaultTheme,
   });
 
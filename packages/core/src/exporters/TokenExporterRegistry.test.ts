@@ -0,0 +1,37 @@
+import { describe, expect, it, vi } from 'vitest';
+import { lightTheme } from '../themes';
+import { TokenExporterRegistry } from './TokenExporterRegistry';
+
+describe('TokenExporterRegistry', () => {
+  it('registers the built-in formats', () => {
+    expect(new TokenExporterRegistry().getFormats()).toEqual([
+      'scss',
+      'less',
+      'json',
+      'json-nested',
+      'js',
+      'dts',
+    ]);
+  });
+
+  it('passes resolved tokens, flat tokens and the prefix to custom exporters', () => {
+    const registry = new TokenExporterRegistry({});
+    const exporter = vi.fn(() => 'out');
+    registry.register('custom', exporter);
+
+    expect(registry.export('custom', lightTheme.tokens, { prefix: '--brand' })).toBe('out');
+    expect(exporter).toHaveBeenCalledWith(
+      expect.objectContaining({
+        prefix: '--brand',
+        name: 'brand',
+        flat: expect.objectContaining({ 'color-primary': '#6366f1' }),
+      })
+    );
+  });
+
+  it('throws for unknown formats', () => {
+    const registry = new TokenExporterRegistry();
+    registry.unregister('scss');
+    expect(() => registry.export('scss', lightTheme.tokens)).toThrow('Unknown export format: scss');
+  });
+});
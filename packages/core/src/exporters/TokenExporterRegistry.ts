@@ -0,0 +1,66 @@
+import { TokenResolver } from '../TokenResolver';
+import type { TokenExportOptions, TokenExporter } from '../types/exporters';
+import type { ThemeTokens } from '../types/tokens';
+import { builtinExporters } from './builtin';
+
+/**
+ * Registry of token exporters keyed by format name
+ */
+export class TokenExporterRegistry {
+  private exporters = new Map<string, TokenExporter>();
+
+  constructor(exporters: Record<string, TokenExporter> = builtinExporters) {
+    for (const [format, exporter] of Object.entries(exporters)) {
+      this.register(format, exporter);
+    }
+  }
+
+  /**
+   * Register an exporter, replacing any exporter of the same format
+   */
+  register(format: string, exporter: TokenExporter): void {
+    this.exporters.set(format, exporter);
+  }
+
+  /**
+   * Unregister an exporter
+   */
+  unregister(format: string): boolean {
+    return this.exporters.delete(format);
+  }
+
+  /**
+   * Check if a format is registered
+   */
+  has(format: string): boolean {
+    return this.exporters.has(format);
+  }
+
+  /**
+   * Get all registered format names
+   */
+  getFormats(): string[] {
+    return Array.from(this.exporters.keys());
+  }
+
+  /**
+   * Export tokens in a registered format
+   */
+  export(format: string, tokens: ThemeTokens, options: TokenExportOptions = {}): string {
+    const exporter = this.exporters.get(format);
+    if (!exporter) {
+      throw new Error(`Unknown export format: ${format}`);
+    }
+
+    const resolver = options.resolver ?? new TokenResolver({ prefix: options.prefix });
+    const prefix = resolver.getPrefix();
+
+    return exporter({
+      tokens: resolver.resolveReferences(tokens),
+      flat: resolver.flatten(tokens),
+      prefix,
+      name: prefix.replace(/^-+/, ''),
+      theme: options.theme,
+    });
+  }
+}
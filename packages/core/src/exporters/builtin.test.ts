@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+import { lightTheme } from '../themes';
+import { TokenExporterRegistry } from './TokenExporterRegistry';
+
+describe('builtin exporters', () => {
+  const registry = new TokenExporterRegistry();
+  const tokens = {
+    ...lightTheme.tokens,
+    colors: { ...lightTheme.tokens.colors, textInverse: '{colors.background}' },
+  };
+
+  it('scss emits variables and a map with the prefix', () => {
+    const scss = registry.export('scss', tokens, { prefix: '--brand' });
+    expect(scss).toContain('$brand-color-primary: #6366f1;');
+    expect(scss).toContain('$brand-color-text-inverse: #ffffff;');
+    expect(scss).toContain("$brand: (\n  'color-primary': #6366f1,");
+    expect(scss).toMatch(/'font-family-sans': \(.+\),/);
+  });
+
+  it('less emits variables', () => {
+    expect(registry.export('less', tokens)).toContain('@themed-color-primary: #6366f1;');
+  });
+
+  it('json emits flat CSS variable names and json-nested the resolved token tree', () => {
+    const flat = JSON.parse(registry.export('json', tokens));
+    expect(flat['--themed-color-text-inverse']).toBe('#ffffff');
+
+    const nested = JSON.parse(registry.export('json-nested', tokens));
+    expect(nested.colors.textInverse).toBe('#ffffff');
+    expect(nested.typography.fontWeight.bold).toBe(700);
+  });
+
+  it('js emits constants, variables and the nested tokens', () => {
+    const js = registry.export('js', tokens, { theme: lightTheme });
+    expect(js).toMatch(/^\/\/ Generated by themed.js from theme "Light"/);
+    expect(js).toContain('export const colorPrimary = "#6366f1";');
+    expect(js).toContain('export const fontWeightBold = 700;');
+    expect(js).toContain('export const spacing2xl = "2rem";');
+    expect(js).toContain('"--themed-color-primary": "#6366f1"');
+    expect(js).toContain('export default tokens;');
+  });
+
+  it('dts declares the variable names and constants', () => {
+    const dts = registry.export('dts', tokens);
+    expect(dts).toContain("export type ThemeVariableName =\n  | '--themed-color-primary'");
+    expect(dts).toContain('export declare const fontWeightBold: number;');
+    expect(dts).toContain("'2xl': string;");
+  });
+});
@@ -0,0 +1,135 @@
+import type { TokenExportContext, TokenExporter } from '../types/exporters';
+
+/**
+ * SCSS variables plus a map of all tokens
+ */
+export const scssExporter: TokenExporter = (context) => {
+  const entries = Object.entries(context.flat);
+  const variables = entries.map(([key, value]) => `$${context.name}-${key}: ${value};`);
+  const map = entries.map(([key, value]) => {
+    const mapValue = String(value).includes(',') ? `(${value})` : value;
+    return `  '${key}': ${mapValue},`;
+  });
+
+  return `${header(context, '//')}${variables.join('\n')}\n\n$${context.name}: (\n${map.join('\n')}\n);\n`;
+};
+
+/**
+ * Less variables
+ */
+export const lessExporter: TokenExporter = (context) => {
+  const variables = Object.entries(context.flat).map(
+    ([key, value]) => `@${context.name}-${key}: ${value};`
+  );
+
+  return `${header(context, '//')}${variables.join('\n')}\n`;
+};
+
+/**
+ * Flat JSON keyed by CSS variable name
+ */
+export const jsonExporter: TokenExporter = (context) => {
+  return `${JSON.stringify(getVariables(context), null, 2)}\n`;
+};
+
+/**
+ * Nested JSON in the ThemeTokens shape
+ */
+export const nestedJsonExporter: TokenExporter = (context) => {
+  return `${JSON.stringify(context.tokens, null, 2)}\n`;
+};
+
+/**
+ * ES module with a constant per token, the CSS variables and the nested tokens
+ */
+export const jsExporter: TokenExporter = (context) => {
+  const constants = Object.entries(context.flat).map(
+    ([key, value]) => `export const ${toIdentifier(key)} = ${JSON.stringify(value)};`
+  );
+
+  return [
+    header(context, '//'),
+    `${constants.join('\n')}\n\n`,
+    `export const variables = ${JSON.stringify(getVariables(context), null, 2)};\n\n`,
+    `export const tokens = ${JSON.stringify(context.tokens, null, 2)};\n\n`,
+    'export default tokens;\n',
+  ].join('');
+};
+
+/**
+ * TypeScript declarations for the ES module, including a union of the CSS variable names
+ */
+export const dtsExporter: TokenExporter = (context) => {
+  const names = Object.keys(context.flat).map((key) => `  | '${context.prefix}-${key}'`);
+  const constants = Object.entries(context.flat).map(
+    ([key, value]) => `export declare const ${toIdentifier(key)}: ${typeof value};`
+  );
+
+  return [
+    header(context, '//'),
+    `export type ThemeVariableName =\n${names.join('\n')};\n\n`,
+    `${constants.join('\n')}\n\n`,
+    'export declare const variables: Record<ThemeVariableName, string>;\n\n',
+    `export declare const tokens: ${toTypeLiteral(context.tokens, '')};\n\n`,
+    'export default tokens;\n',
+  ].join('');
+};
+
+/**
+ * Built-in exporters by format name
+ */
+export const builtinExporters: Record<string, TokenExporter> = {
+  scss: scssExporter,
+  less: lessExporter,
+  json: jsonExporter,
+  'json-nested': nestedJsonExporter,
+  js: jsExporter,
+  dts: dtsExporter,
+};
+
+/**
+ * Generated-file banner naming the theme
+ */
+function header(context: TokenExportContext, comment: string): string {
+  const source = context.theme ? ` from theme "${context.theme.name}"` : '';
+  return `${comment} Generated by themed.js${source}. Do not edit.\n\n`;
+}
+
+/**
+ * Map CSS variable names to their values
+ */
+function getVariables(context: TokenExportContext): Record<string, string> {
+  const variables: Record<string, string> = {};
+  for (const [key, value] of Object.entries(context.flat)) {
+    variables[`${context.prefix}-${key}`] = String(value);
+  }
+  return variables;
+}
+
+/**
+ * Convert a flat token key ("font-size-2xl") to a JS identifier ("fontSize2xl")
+ */
+function toIdentifier(key: string): string {
+  const identifier = key
+    .split(/[^a-zA-Z0-9]+/)
+    .filter(Boolean)
+    .map((part, index) => (index === 0 ? part : part[0].toUpperCase() + part.slice(1)))
+    .join('');
+  return /^\d/.test(identifier) ? `_${identifier}` : identifier;
+}
+
+/**
+ * Describe a token value as a TypeScript type literal
+ */
+function toTypeLiteral(value: unknown, indent: string): string {
+  if (typeof value !== 'object' || value === null) {
+    return typeof value === 'number' ? 'number' : 'string';
+  }
+
+  const inner = `${indent}  `;
+  const members = Object.entries(value).map(([key, member]) => {
+    const name = /^[a-zA-Z_$][\w$]*$/.test(key) ? key : `'${key}'`;
+    return `${inner}${name}: ${toTypeLiteral(member, inner)};`;
+  });
+  return `{\n${members.join('\n')}\n${indent}}`;
+}
@@ -5,20 +5,41 @@ export * from './types/tokens';
 export * from './types/theme';
 export * from './types/events';
 export * from './types/options';
+export * from './types/history';
+export * from './types/ssr';
+export * from './types/exporters';
+export * from './types/dtcg';
+export * from './types/tailwind';
+export * from './types/audit';
 
 // Core modules
 export { ThemeManager } from './ThemeManager';
 export { CSSInjector } from './CSSInjector';
 export { EventBus } from './EventBus';
+export { ThemeHistory } from './ThemeHistory';
 export { TokenResolver } from './TokenResolver';
+export type { TokenPath, FlattenedTokens, TokenReferenceMode, ColorFormat } from './TokenResolver';
 
 // AI
 export { AIOrchestrator } from './ai/AIOrchestrator';
 export { createAIProvider } from './ai/createAIProvider';
 export { createAIOrchestrator } from './ai/createAIOrchestrator';
-export type { IAIThemeGenerator, AIGenerateResult } from './ai/types';
+export type {
+  IAIThemeGenerator,
+  AIGenerateResult,
+  AIContrastReport,
+  AIStreamChunk,
+  GenerateStreamChunk,
+} from './ai/types';
 export { PromptEngine } from './ai/PromptEngine';
-export type { AIProvider, AIProviderConfig } from './ai/providers/base';
+export { readEventStream } from './ai/providers/base';
+export type {
+  AIProvider,
+  AIProviderConfig,
+  RequestOptions,
+  StreamFormat,
+  EventStreamOptions,
+} from './ai/providers/base';
 export { OpenAIProvider } from './ai/providers/openai';
 export { ClaudeProvider } from './ai/providers/claude';
 export { GeminiProvider } from './ai/providers/gemini';
@@ -26,18 +47,37 @@ export { GroqProvider } from './ai/providers/groq';
 export { MoonshotProvider } from './ai/providers/moonshot';
 export { DeepSeekProvider } from './ai/providers/deepseek';
 export { CustomProvider } from './ai/providers/custom';
+export type { CustomProviderConfig } from './ai/providers/custom';
 
 // Storage
 export { StorageManager } from './storage/StorageManager';
 export { LocalStorageAdapter } from './storage/LocalStorageAdapter';
 export { IndexedDBAdapter } from './storage/IndexedDBAdapter';
 
+// Exporters
+export { TokenExporterRegistry } from './exporters/TokenExporterRegistry';
+export { builtinExporters } from './exporters/builtin';
+
+// SSR
+export { renderThemeHead } from './ssr/renderThemeHead';
+
+// Tailwind
+export { createTailwindPreset } from './tailwind/createTailwindPreset';
+
 // Utils
 export * from './utils/color';
+export * from './utils/parseColor';
 export * from './utils/contrast';
+export * from './utils/apca';
+export * from './utils/audit';
+export * from './utils/visionDeficiency';
+export * from './utils/references';
+export * from './utils/dtcg';
+export * from './utils/colorSpaces';
+export * from './utils/palette';
 
 // Built-in themes
-export { builtinThemes, lightTheme, darkTheme } from './themes';
+export { builtinThemes, lightTheme, darkTheme, builtinSchemes, defaultScheme } from './themes';
 
 // Factory function for easy initialization
 export { createThemed } from './createThemed';
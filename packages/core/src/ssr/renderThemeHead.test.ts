@@ -0,0 +1,137 @@
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { ThemeManager } from '../ThemeManager';
+import { darkTheme, defaultScheme, lightTheme } from '../themes';
+import { renderThemeHead } from './renderThemeHead';
+
+describe('renderThemeHead', () => {
+  let manager: ThemeManager;
+
+  beforeEach(() => {
+    manager = new ThemeManager({
+      themes: [lightTheme, darkTheme],
+      schemes: [defaultScheme],
+      storage: { type: 'none' },
+    });
+    localStorage.clear();
+    document.head.innerHTML = '';
+    document.documentElement.removeAttribute('data-theme');
+  });
+
+  afterEach(() => {
+    localStorage.clear();
+    document.cookie = 'themed-theme=; max-age=0';
+  });
+
+  const runScript = (head: string) => {
+    document.head.innerHTML = head;
+    new Function(document.head.querySelector('script')?.textContent ?? '')();
+    return document.getElementById('themed-js-styles')?.textContent;
+  };
+
+  it('renders critical CSS and html attributes for the persisted theme', () => {
+    const output = renderThemeHead(manager, { themeId: 'dark', defaultTheme: 'light' });
+
+    expect(output.themeId).toBe('dark');
+    expect(output.css).toMatch(/^:root \{\n/);
+    expect(output.css).toContain(darkTheme.tokens.colors.primary);
+    expect(output.styleTag).toMatch(/^<style id="themed-js-styles" data-themed="true">:root/);
+    expect(output.htmlAttributes).toEqual({ 'data-theme': 'dark' });
+  });
+
+  it('reads the theme from the cookie and falls back to the default theme', () => {
+    expect(renderThemeHead(manager, { cookie: 'a=1; themed-theme=dark' }).themeId).toBe('dark');
+    expect(
+      renderThemeHead(manager, { cookie: 'themed-theme=missing', defaultTheme: 'light' }).themeId
+    ).toBe('light');
+    expect(renderThemeHead(manager).themeId).toBeNull();
+  });
+
+  it('adds the nonce to both tags', () => {
+    const { head } = renderThemeHead(manager, { defaultTheme: 'light', nonce: 'r4nd0m' });
+    expect(head.match(/nonce="r4nd0m"/g)).toHaveLength(2);
+  });
+
+  it('bootstrap script applies the theme saved by LocalStorageAdapter', () => {
+    localStorage.setItem('themed:activeTheme', 'dark');
+    const css = runScript(renderThemeHead(manager, { defaultTheme: 'light' }).head);
+
+    expect(css).toContain(darkTheme.tokens.colors.primary);
+    expect(document.documentElement.getAttribute('data-theme')).toBe('dark');
+  });
+
+  it('bootstrap script prefers the saved color mode and keeps the server theme otherwise', () => {
+    localStorage.setItem('themed:activeTheme', 'light');
+    localStorage.setItem('themed:colorMode', 'dark');
+    expect(runScript(renderThemeHead(manager, { defaultTheme: 'light' }).head)).toContain(
+      darkTheme.tokens.colors.primary
+    );
+
+    localStorage.setItem('themed:colorMode', 'invalid');
+    localStorage.setItem('themed:activeTheme', 'unknown');
+    expect(runScript(renderThemeHead(manager, { defaultTheme: 'light' }).head)).toContain(
+      lightTheme.tokens.colors.primary
+    );
+  });
+
+  it('bootstrap script only carries CSS for the scheme themes', () => {
+    manager.register({
+      ...lightTheme,
+      id: 'brand',
+      tokens: { ...lightTheme.tokens, colors: { ...lightTheme.tokens.colors, primary: '#123456' } },
+    });
+    const output = renderThemeHead(manager, { defaultTheme: 'light' });
+
+    expect(output.script).toContain(darkTheme.tokens.colors.primary);
+    expect(output.script).not.toContain('#123456');
+    expect(output.script).toContain('"brand"');
+
+    localStorage.setItem('themed:activeTheme', 'brand');
+    expect(runScript(output.head)).toBe(output.css);
+    expect(document.documentElement.getAttribute('data-theme')).toBeNull();
+  });
+
+  it('renders the theme the client applied through the theme cookie', async () => {
+    const client = new ThemeManager({ themes: [lightTheme, darkTheme] });
+    await client.apply('dark');
+
+    expect(document.cookie).toContain('themed-theme=dark');
+    expect(renderThemeHead(manager, { cookie: document.cookie }).themeId).toBe('dark');
+    client.destroy();
+  });
+
+  it('escapes closing tags in theme data', () => {
+    manager.register({
+      ...lightTheme,
+      id: 'tricky',
+      tokens: {
+        ...lightTheme.tokens,
+        typography: {
+          ...lightTheme.tokens.typography,
+          fontFamily: { ...lightTheme.tokens.typography.fontFamily, sans: '</style></script>' },
+        },
+      },
+    });
+    const { head } = renderThemeHead(manager, { defaultTheme: 'tricky' });
+    expect(head.match(/<\/style>/g)).toHaveLength(1);
+    expect(head.match(/<\/script>/g)).toHaveLength(1);
+  });
+
+  it('ships every theme up front with the precompiled strategy', () => {
+    const precompiled = new ThemeManager({
+      themes: [lightTheme, darkTheme],
+      storage: { type: 'none' },
+      css: { strategy: 'precompiled' },
+    });
+    const output = renderThemeHead(precompiled, { defaultTheme: 'light' });
+
+    expect(output.styleTag).toMatch(/^<style id="themed-js-themes"/);
+    expect(output.css).toContain('[data-theme="light"] {');
+    expect(output.css).toContain('[data-theme="dark"] {');
+    expect(output.script).not.toContain(darkTheme.tokens.colors.primary);
+
+    localStorage.setItem('themed:activeTheme', 'dark');
+    runScript(output.head);
+    expect(document.documentElement.getAttribute('data-theme')).toBe('dark');
+    precompiled.destroy();
+  });
+});
@@ -0,0 +1,161 @@
+import type { ThemeManager } from '../ThemeManager';
+import { getStorageKeys, getThemeCookieName } from '../storage/LocalStorageAdapter';
+import type { ThemeSSROptions, ThemeSSROutput } from '../types/ssr';
+import type { ThemeScheme } from '../types/theme';
+
+/**
+ * Render the active theme for server-side rendering: critical CSS, <html> attributes and a
+ * blocking bootstrap script that switches to the theme saved in localStorage before first paint.
+ * With the 'precompiled' CSS strategy, the CSS contains every theme and the script only sets data-theme.
+ *
+ * Otherwise only the server-selected theme is rendered. The theme cookie (written by the storage
+ * whenever a theme is applied) lets the server select the saved theme; the script carries CSS just
+ * for the scheme's light and dark themes, which a "system" color mode resolves in the browser.
+ * A saved theme the server cannot render (e.g. a custom or AI theme kept only in the browser)
+ * stays on the server theme until ThemeManager.init() applies it; register such themes on the
+ * server to render them up front.
+ *
+ * @example
+ * ```ts
+ * const themed = createThemed({ storage: { type: 'none' } });
+ * const { head, htmlAttributes } = renderThemeHead(themed, { cookie: req.headers.cookie });
+ * ```
+ */
+export function renderThemeHead(
+  manager: ThemeManager,
+  options: ThemeSSROptions = {}
+): ThemeSSROutput {
+  const prefix = options.storagePrefix ?? manager.getStorageManager()?.getPrefix() ?? 'themed';
+  const injector = manager.getCSSInjector();
+  const resolver = injector.getResolver();
+  const styleId = injector.getStyleId();
+
+  const candidates = [
+    options.themeId,
+    readCookie(options.cookie, options.cookieName ?? getThemeCookieName(prefix)),
+    options.defaultTheme,
+    manager.getActive()?.id,
+  ];
+  const theme = candidates
+    .map((id) => (id ? manager.get(id) : undefined))
+    .find((candidate) => candidate !== undefined);
+
+  // Themes the script may switch to
+  const themes = (options.themes ?? manager.getAll().map((registered) => registered.id))
+    .map((id) => manager.get(id))
+    .filter((registered) => registered !== undefined);
+  const precompiled = injector.getStrategy() === 'precompiled';
+  const scheme = manager.getScheme();
+
+  let css = theme ? resolver.toCSSString(theme.tokens, ':root') : '';
+  let styles: Record<string, string> | null = null;
+  if (precompiled) {
+    css = injector.toThemesCSSString(themes);
+  } else {
+    styles = {};
+    for (const registered of themes) {
+      const inScheme = registered.id === scheme?.light || registered.id === scheme?.dark;
+      if (inScheme && registered.id !== theme?.id) {
+        styles[registered.id] = resolver.toCSSString(registered.tokens, ':root');
+      }
+    }
+  }
+
+  const nonceAttribute = options.nonce ? ` nonce="${escapeAttribute(options.nonce)}"` : '';
+  const styleTag = `<style id="${styleId}" data-themed="true"${nonceAttribute}>${escapeRawText(css)}</style>`;
+
+  const script = createBootstrapScript({
+    keys: getStorageKeys(prefix),
+    styleId,
+    themeId: theme?.id ?? null,
+    themeIds: themes.map((registered) => registered.id),
+    styles,
+    scheme,
+  });
+  const scriptTag = `<script${nonceAttribute}>${script}</script>`;
+
+  return {
+    themeId: theme?.id ?? null,
+    css,
+    styleTag,
+    htmlAttributes: theme ? { 'data-theme': theme.id } : {},
+    script,
+    scriptTag,
+    head: `${styleTag}${scriptTag}`,
+  };
+}
+
+/**
+ * Build the bootstrap script. It mirrors ThemeManager.init(): a saved color mode wins over the
+ * saved theme ID. Errors (e.g. blocked localStorage) and themes without CSS leave the
+ * server-rendered theme in place.
+ */
+function createBootstrapScript(config: {
+  keys: { activeTheme: string; colorMode: string };
+  styleId: string;
+  /** Server-rendered theme */
+  themeId: string | null;
+  themeIds: string[];
+  /** :root CSS per theme the script can switch to, or null when themes are precompiled */
+  styles: Record<string, string> | null;
+  scheme: ThemeScheme | null;
+}): string {
+  const data = escapeRawText(
+    JSON.stringify({
+      theme: config.keys.activeTheme,
+      mode: config.keys.colorMode,
+      style: config.styleId,
+      current: config.themeId,
+      themes: config.themeIds,
+      css: config.styles,
+      scheme: config.scheme ? { light: config.scheme.light, dark: config.scheme.dark } : null,
+    })
+  );
+
+  return [
+    '(function(){try{',
+    `var c=${data},s=localStorage,id=s.getItem(c.theme),m=s.getItem(c.mode);`,
+    "if(c.scheme&&(m==='light'||m==='dark'||m==='system')){",
+    "if(m==='system'){m=matchMedia('(prefers-color-scheme: dark)').matches?'dark':'light';}",
+    'id=c.scheme[m];}',
+    'if(!id||c.themes.indexOf(id)<0)return;',
+    'if(c.css&&id!==c.current){var t=c.css[id],e=document.getElementById(c.style);',
+    "if(typeof t!=='string'||!e)return;e.textContent=t;}",
+    "document.documentElement.setAttribute('data-theme',id);",
+    '}catch(e){}})();',
+  ].join('');
+}
+
+/**
+ * Read a cookie value from a Cookie header
+ */
+function readCookie(header: string | undefined, name: string): string | null {
+  if (!header) return null;
+
+  for (const part of header.split(';')) {
+    const index = part.indexOf('=');
+    if (index !== -1 && part.slice(0, index).trim() === name) {
+      try {
+        return decodeURIComponent(part.slice(index + 1).trim());
+      } catch {
+        return null;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Prevent "</style>" / "</script>" in theme data from closing the tag early
+ */
+function escapeRawText(value: string): string {
+  return value.replace(/<\//g, '<\\/');
+}
+
+/**
+ * Escape a value for a double-quoted HTML attribute
+ */
+function escapeAttribute(value: string): string {
+  return value.replace(/&/g, '&amp;').replace(/"/g, '&quot;').replace(/</g, '&lt;');
+}
@@ -1,4 +1,4 @@
-import type { Theme } from '../types/theme';
+import type { ColorMode, Theme } from '../types/theme';
 
 /**
  * Storage keys
@@ -6,6 +6,25 @@ import type { Theme } from '../types/theme';
 export interface StorageKeys {
   activeTheme: string;
   themes: string;
+  colorMode: string;
+}
+
+/**
+ * Get the localStorage keys used for a prefix
+ */
+export function getStorageKeys(prefix = 'themed'): StorageKeys {
+  return {
+    activeTheme: `${prefix}:activeTheme`,
+    themes: `${prefix}:themes`,
+    colorMode: `${prefix}:colorMode`,
+  };
+}
+
+/**
+ * Get the cookie that mirrors the active theme ID for server-side rendering
+ */
+export function getThemeCookieName(prefix = 'themed'): string {
+  return `${prefix}-theme`;
 }
 
 /**
@@ -13,12 +32,11 @@ export interface StorageKeys {
  */
 export class LocalStorageAdapter {
   private keys: StorageKeys;
+  private cookieName: string;
 
   constructor(prefix = 'themed') {
-    this.keys = {
-      activeTheme: `${prefix}:activeTheme`,
-      themes: `${prefix}:themes`,
-    };
+    this.keys = getStorageKeys(prefix);
+    this.cookieName = getThemeCookieName(prefix);
   }
 
   /**
@@ -44,11 +62,34 @@ export class LocalStorageAdapter {
   }
 
   /**
-   * Set the active theme ID
+   * Set the active theme ID. It is mirrored into a cookie so renderThemeHead() can render
+   * the same theme on the server.
    */
   setActiveThemeId(themeId: string): void {
     if (!this.isAvailable()) return;
     localStorage.setItem(this.keys.activeTheme, themeId);
+    this.writeCookie(`${encodeURIComponent(themeId)}; max-age=31536000`);
+  }
+
+  /**
+   * Get the saved color mode
+   */
+  getColorMode(): ColorMode | null {
+    if (!this.isAvailable()) return null;
+    const mode = localStorage.getItem(this.keys.colorMode);
+    return mode === 'light' || mode === 'dark' || mode === 'system' ? mode : null;
+  }
+
+  /**
+   * Set the color mode, or remove it with null
+   */
+  setColorMode(mode: ColorMode | null): void {
+    if (!this.isAvailable()) return;
+    if (mode) {
+      localStorage.setItem(this.keys.colorMode, mode);
+    } else {
+      localStorage.removeItem(this.keys.colorMode);
+    }
   }
 
   /**
@@ -116,6 +157,16 @@ export class LocalStorageAdapter {
 
     localStorage.removeItem(this.keys.activeTheme);
     localStorage.removeItem(this.keys.themes);
+    localStorage.removeItem(this.keys.colorMode);
+    this.writeCookie('; max-age=0');
+  }
+
+  /**
+   * Write the theme cookie, e.g. "dark; max-age=31536000"
+   */
+  private writeCookie(value: string): void {
+    if (typeof document === 'undefined') return;
+    document.cookie = `${this.cookieName}=${value}; path=/; SameSite=Lax`;
   }
 
   /**
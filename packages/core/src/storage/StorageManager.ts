@@ -1,4 +1,4 @@
-import type { Theme } from '../types/theme';
+import type { ColorMode, Theme } from '../types/theme';
 import type { StorageOptions, StorageType } from '../types/options';
 import { LocalStorageAdapter } from './LocalStorageAdapter';
 import { IndexedDBAdapter } from './IndexedDBAdapter';
@@ -68,6 +68,31 @@ export class StorageManager {
     }
   }
 
+  /**
+   * Get the saved color mode
+   */
+  async getColorMode(): Promise<ColorMode | null> {
+    await this.init();
+
+    // Color mode is a small setting; keep it next to the active theme ID
+    if (this.localStorage) {
+      return this.localStorage.getColorMode();
+    }
+
+    return null;
+  }
+
+  /**
+   * Set the color mode, or remove it with null
+   */
+  async setColorMode(mode: ColorMode | null): Promise<void> {
+    await this.init();
+
+    if (this.localStorage) {
+      this.localStorage.setColorMode(mode);
+    }
+  }
+
   /**
    * Get all saved themes
    */
@@ -163,6 +188,13 @@ export class StorageManager {
     }
   }
 
+  /**
+   * Get the key prefix
+   */
+  getPrefix(): string {
+    return this.options.prefix;
+  }
+
   /**
    * Get the storage type being used
    */
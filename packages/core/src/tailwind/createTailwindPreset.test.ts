@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { type TokenPath, TokenResolver } from '../TokenResolver';
+import { createTailwindPreset } from './createTailwindPreset';
+
+describe('createTailwindPreset', () => {
+  it('maps every token group to its CSS variable', () => {
+    const { extend } = createTailwindPreset({ opacity: false }).theme;
+
+    expect(extend.colors.primary).toBe('var(--themed-color-primary)');
+    expect(extend.colors['text-primary']).toBe('var(--themed-color-text-primary)');
+    expect(extend.fontFamily.mono).toBe('var(--themed-font-family-mono)');
+    expect(extend.fontSize['2xl']).toBe('var(--themed-font-size-2xl)');
+    expect(extend.fontWeight.semibold).toBe('var(--themed-font-weight-semibold)');
+    expect(extend.lineHeight.tight).toBe('var(--themed-line-height-tight)');
+    expect(extend.spacing.md).toBe('var(--themed-spacing-md)');
+    expect(extend.borderRadius.full).toBe('var(--themed-radius-full)');
+    expect(extend.boxShadow.lg).toBe('var(--themed-shadow-lg)');
+    expect(extend.transitionDuration.fast).toBe('var(--themed-transition-fast)');
+    expect(Object.keys(extend.colors)).toHaveLength(16);
+  });
+
+  it('uses the variable names of TokenResolver with a custom prefix', () => {
+    const resolver = new TokenResolver({ prefix: '--brand' });
+    const { extend } = createTailwindPreset({ prefix: '--brand', opacity: false }).theme;
+
+    const paths: [unknown, TokenPath][] = [
+      [extend.colors['border-light'], 'colors.borderLight'],
+      [extend.fontSize.base, 'typography.fontSize.base'],
+      [extend.spacing.none, 'spacing.none'],
+    ];
+    for (const [value, path] of paths) {
+      expect(value).toBe(`var(${resolver.getVariableName(path)})`);
+    }
+  });
+
+  it('supports opacity modifiers on colors by default', () => {
+    const { extend } = createTailwindPreset().theme;
+
+    expect(extend.colors.primary).toBe(
+      'color-mix(in srgb, var(--themed-color-primary) calc(<alpha-value> * 100%), transparent)'
+    );
+    expect(extend.spacing.md).toBe('var(--themed-spacing-md)');
+  });
+
+  it('adds tonal ramp steps for colors with ramps', () => {
+    const { extend } = createTailwindPreset({ ramps: ['primary'], opacity: false }).theme;
+
+    expect(extend.colors.primary).toEqual(
+      expect.objectContaining({
+        DEFAULT: 'var(--themed-color-primary)',
+        50: 'var(--themed-color-primary-50)',
+        950: 'var(--themed-color-primary-950)',
+      })
+    );
+    expect(extend.colors.secondary).toBe('var(--themed-color-secondary)');
+  });
+});
@@ -0,0 +1,87 @@
+import { type TokenPath, TokenResolver } from '../TokenResolver';
+import { lightTheme } from '../themes';
+import type {
+  TailwindPreset,
+  TailwindPresetOptions,
+  TailwindThemeExtension,
+} from '../types/tailwind';
+import type { RampColor } from '../types/tokens';
+import { rampSteps } from '../types/tokens';
+
+/**
+ * Tailwind theme key for each token group
+ */
+const THEME_KEYS: Record<string, keyof TailwindThemeExtension> = {
+  colors: 'colors',
+  'typography.fontFamily': 'fontFamily',
+  'typography.fontSize': 'fontSize',
+  'typography.fontWeight': 'fontWeight',
+  'typography.lineHeight': 'lineHeight',
+  spacing: 'spacing',
+  radius: 'borderRadius',
+  shadow: 'boxShadow',
+  transition: 'transitionDuration',
+};
+
+/**
+ * Create a Tailwind CSS preset mapping every token to its CSS variable,
+ * e.g. bg-primary -> var(--themed-color-primary), text-text-secondary, p-md, rounded-lg, shadow-sm.
+ * Color keys are kebab-case; colors support opacity modifiers (bg-primary/50) unless `opacity: false`,
+ * and `ramps` adds tonal ramp steps (bg-primary-100).
+ *
+ * @example
+ * ```js
+ * // tailwind.config.js
+ * import { createTailwindPreset } from '@themed.js/core';
+ * export default { presets: [createTailwindPreset({ prefix: '--themed' })] };
+ * ```
+ */
+export function createTailwindPreset(options: TailwindPresetOptions = {}): TailwindPreset {
+  const resolver = new TokenResolver({ prefix: options.prefix, ramps: options.ramps });
+  const ramps: string[] = resolver.getRampColors();
+  const opacity = options.opacity ?? true;
+  const toColor = (variable: string) =>
+    opacity ? `color-mix(in srgb, ${variable} calc(<alpha-value> * 100%), transparent)` : variable;
+  const extend: TailwindThemeExtension = {
+    colors: {},
+    fontFamily: {},
+    fontSize: {},
+    fontWeight: {},
+    lineHeight: {},
+    spacing: {},
+    borderRadius: {},
+    boxShadow: {},
+    transitionDuration: {},
+  };
+
+  for (const [group, themeKey] of Object.entries(THEME_KEYS)) {
+    const tokens = group
+      .split('.')
+      .reduce<Record<string, unknown>>(
+        (node, part) => node[part] as Record<string, unknown>,
+        lightTheme.tokens as unknown as Record<string, unknown>
+      );
+
+    for (const key of Object.keys(tokens)) {
+      const path = `${group}.${key}` as TokenPath;
+
+      if (themeKey === 'colors' && ramps.includes(key)) {
+        const ramp: Record<string, string> = { DEFAULT: toColor(resolver.var(path)) };
+        for (const step of rampSteps) {
+          ramp[step] = toColor(`var(${resolver.getRampVariableName(key as RampColor, step)})`);
+        }
+        extend.colors[toKebabCase(key)] = ramp;
+      } else if (themeKey === 'colors') {
+        extend.colors[toKebabCase(key)] = toColor(resolver.var(path));
+      } else {
+        extend[themeKey][key] = resolver.var(path);
+      }
+    }
+  }
+
+  return { theme: { extend } };
+}
+
+function toKebabCase(value: string): string {
+  return value.replace(/([a-z])([A-Z])/g, '$1-$2').toLowerCase();
+}
@@ -1,4 +1,4 @@
-import type { Theme } from '../types/theme';
+import type { Theme, ThemeScheme } from '../types/theme';
 import {
   defaultTypographyTokens,
   defaultSpacingTokens,
@@ -327,3 +327,18 @@ export const builtinThemes: Theme[] = [
   midnightTheme,
   roseTheme,
 ];
+
+/**
+ * Default scheme - pairs the built-in light and dark themes
+ */
+export const defaultScheme: ThemeScheme = {
+  id: 'default',
+  name: 'Default',
+  light: lightTheme.id,
+  dark: darkTheme.id,
+};
+
+/**
+ * All built-in schemes
+ */
+export const builtinSchemes: ThemeScheme[] = [defaultScheme];
@@ -0,0 +1,67 @@
+import type { ApcaResult } from '../utils/apca';
+import type { ContrastOptions } from '../utils/contrast';
+import type { ColorTokens } from './tokens';
+
+/**
+ * How a color pair is used, which decides its required contrast:
+ * - text: body text (WCAG level, or the APCA threshold for the text style)
+ * - disabled: disabled text (3:1 / Lc 30)
+ * - graphic: icons and status colors (3:1 / Lc 45)
+ * - border: component boundaries (3:1 / Lc 15)
+ */
+export type AuditRole = 'text' | 'disabled' | 'graphic' | 'border';
+
+/**
+ * WCAG level required for text pairs
+ */
+export type AuditLevel = 'AA' | 'AAA';
+
+/**
+ * A semantic foreground/background pair of color tokens checked by the audit
+ */
+export interface AuditPair {
+  foreground: keyof ColorTokens;
+  background: keyof ColorTokens;
+  role: AuditRole;
+}
+
+/**
+ * Result of checking one pair
+ */
+export interface AuditFinding extends AuditPair {
+  /** Resolved [foreground, background] colors */
+  colors: [string, string];
+  /** WCAG ratio, or |Lc| with the 'apca' algorithm */
+  contrast: number;
+  /** Minimum contrast for the pair's role */
+  required: number;
+  passes: boolean;
+  /** Failing text and graphic pairs are errors; disabled text and borders are warnings */
+  severity: 'error' | 'warning';
+  /** APCA result, present with the 'apca' algorithm */
+  apca?: ApcaResult;
+}
+
+/**
+ * Accessibility audit of a theme's color tokens
+ */
+export interface AuditResult {
+  themeId: string;
+  /** True when every pair passes */
+  passes: boolean;
+  /** Every checked pair */
+  findings: AuditFinding[];
+  /** Failing pairs only */
+  failures: AuditFinding[];
+}
+
+/**
+ * Audit options. Text style options (fontSize, fontWeight, typography) only apply with
+ * algorithm 'apca'; typography defaults to the theme's.
+ */
+export interface AuditOptions extends ContrastOptions {
+  /** WCAG level for text pairs (default: 'AA') */
+  level?: AuditLevel;
+  /** Only check pairs with these roles (default: all) */
+  roles?: AuditRole[];
+}
@@ -0,0 +1,64 @@
+import type { ThemeInput } from './theme';
+import type { ThemeTokens } from './tokens';
+
+/**
+ * A W3C Design Tokens (DTCG) token: an object with a $value
+ */
+export interface DTCGToken {
+  $value: unknown;
+  $type?: string;
+  $description?: string;
+  $extensions?: Record<string, unknown>;
+}
+
+/**
+ * A DTCG group: tokens and nested groups keyed by name, plus $-prefixed properties.
+ * $type set on a group is inherited by every token inside it.
+ */
+export interface DTCGGroup {
+  $type?: string;
+  $description?: string;
+  $extensions?: Record<string, unknown>;
+  [key: string]: unknown;
+}
+
+/**
+ * Options for importing a DTCG document
+ */
+export interface DTCGImportOptions {
+  /** Theme ID (default: the id stored by toDTCG(), or "dtcg") */
+  id?: string;
+  /** Theme name (default: the name stored by toDTCG(), or the id) */
+  name?: string;
+  /** Parent theme ID; when set, only the imported tokens are returned as overrides */
+  extends?: string;
+  /** Tokens used for everything the document does not define (default: the light theme) */
+  base?: ThemeTokens;
+  /**
+   * How aliases to mapped tokens are imported (default: 'resolve').
+   * 'reference' keeps them as token references ("{colors.primary}") so they follow their target.
+   */
+  aliases?: 'resolve' | 'reference';
+}
+
+/**
+ * A DTCG token that could not be mapped to a theme token
+ */
+export interface DTCGUnmappedToken {
+  /** Dot path of the token in the document, e.g. "brand.gradient" */
+  path: string;
+  /** Why the token was skipped */
+  reason: string;
+}
+
+/**
+ * Result of importing a DTCG document
+ */
+export interface DTCGImportResult {
+  /** Theme input ready for register() */
+  theme: ThemeInput;
+  /** Tokens in the document that have no theme equivalent */
+  unmapped: DTCGUnmappedToken[];
+  /** Theme token paths not defined by the document (taken from the base tokens or the parent theme) */
+  missing: string[];
+}
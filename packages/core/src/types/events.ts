@@ -1,17 +1,28 @@
-import type { Theme } from './theme';
+import type { AuditResult } from './audit';
+import type { HistoryAction } from './history';
+import type { ColorMode, ColorScheme, Theme, ThemeCandidateGroup } from './theme';
 
 /**
- * Theme event types. Namespaced (theme:* | storage:*) to avoid collision with DOM/framework events.
+ * Theme event types. Namespaced (theme:* | history:* | storage:*) to avoid collision with DOM/framework events.
  *
  * @see docs/EVENTS.md Full event contract: payload shapes, when each event is emitted, and recommended usage.
  */
 export type ThemeEventType =
   | 'theme:changed'
+  | 'theme:scheme-changed'
   | 'theme:registered'
+  | 'theme:updated'
   | 'theme:unregistered'
+  | 'theme:audit-warning'
+  | 'theme:preview-start'
+  | 'theme:preview-end'
   | 'theme:generated'
   | 'theme:generating'
+  | 'theme:generation-cancelled'
+  | 'theme:candidates-generated'
+  | 'theme:candidate-promoted'
   | 'theme:error'
+  | 'history:changed'
   | 'storage:saved'
   | 'storage:loaded';
 
@@ -30,6 +41,17 @@ export interface ThemeChangedPayload extends BaseEventPayload {
   previousTheme: Theme | null;
 }
 
+/**
+ * Theme scheme changed event payload (resolved light/dark scheme switched)
+ */
+export interface ThemeSchemeChangedPayload extends BaseEventPayload {
+  colorScheme: ColorScheme;
+  previousColorScheme: ColorScheme | null;
+  mode: ColorMode;
+  schemeId: string;
+  theme: Theme;
+}
+
 /**
  * Theme registered event payload
  */
@@ -37,6 +59,15 @@ export interface ThemeRegisteredPayload extends BaseEventPayload {
   theme: Theme;
 }
 
+/**
+ * Theme updated event payload (tokens patched via updateTokens)
+ */
+export interface ThemeUpdatedPayload extends BaseEventPayload {
+  theme: Theme;
+  /** Dot paths of the tokens that changed, e.g. "colors.primary" */
+  changedPaths: string[];
+}
+
 /**
  * Theme unregistered event payload
  */
@@ -44,6 +75,32 @@ export interface ThemeUnregisteredPayload extends BaseEventPayload {
   themeId: string;
 }
 
+/**
+ * Theme audit warning event payload (a registered theme has failing contrast pairs)
+ */
+export interface ThemeAuditWarningPayload extends BaseEventPayload {
+  theme: Theme;
+  result: AuditResult;
+}
+
+/**
+ * Theme preview start event payload (a theme's CSS is shown without becoming active)
+ */
+export interface ThemePreviewStartPayload extends BaseEventPayload {
+  theme: Theme;
+  /** The active theme that is restored when the preview is cancelled */
+  activeTheme: Theme | null;
+}
+
+/**
+ * Theme preview end event payload
+ */
+export interface ThemePreviewEndPayload extends BaseEventPayload {
+  theme: Theme;
+  /** Whether the previewed theme was applied (true) or the active theme was restored (false) */
+  committed: boolean;
+}
+
 /**
  * Theme generating event payload
  */
@@ -60,6 +117,32 @@ export interface ThemeGeneratedPayload extends BaseEventPayload {
   duration: number;
 }
 
+/**
+ * Theme generation cancelled event payload (the generate() signal was aborted)
+ */
+export interface ThemeGenerationCancelledPayload extends BaseEventPayload {
+  prompt: string;
+  /** The signal's abort reason */
+  reason: unknown;
+}
+
+/**
+ * Candidates generated event payload (generate() with count registered a candidate group)
+ */
+export interface ThemeCandidatesGeneratedPayload extends BaseEventPayload {
+  group: ThemeCandidateGroup;
+  prompt: string;
+  duration: number;
+}
+
+/**
+ * Candidate promoted event payload (a candidate was applied and the rest of its group discarded)
+ */
+export interface ThemeCandidatePromotedPayload extends BaseEventPayload {
+  theme: Theme;
+  group: ThemeCandidateGroup;
+}
+
 /**
  * Theme error event payload
  */
@@ -68,6 +151,17 @@ export interface ThemeErrorPayload extends BaseEventPayload {
   context?: string;
 }
 
+/**
+ * History changed event payload (an entry was recorded, undone or redone, or history was cleared)
+ */
+export interface HistoryChangedPayload extends BaseEventPayload {
+  reason: 'record' | 'undo' | 'redo' | 'clear';
+  /** Action of the affected entry (null when cleared) */
+  action: HistoryAction | null;
+  canUndo: boolean;
+  canRedo: boolean;
+}
+
 /**
  * Storage saved event payload
  */
@@ -88,11 +182,20 @@ export interface StorageLoadedPayload extends BaseEventPayload {
  */
 export interface ThemeEventPayloadMap {
   'theme:changed': ThemeChangedPayload;
+  'theme:scheme-changed': ThemeSchemeChangedPayload;
   'theme:registered': ThemeRegisteredPayload;
+  'theme:updated': ThemeUpdatedPayload;
   'theme:unregistered': ThemeUnregisteredPayload;
+  'theme:audit-warning': ThemeAuditWarningPayload;
+  'theme:preview-start': ThemePreviewStartPayload;
+  'theme:preview-end': ThemePreviewEndPayload;
   'theme:generating': ThemeGeneratingPayload;
   'theme:generated': ThemeGeneratedPayload;
+  'theme:generation-cancelled': ThemeGenerationCancelledPayload;
+  'theme:candidates-generated': ThemeCandidatesGeneratedPayload;
+  'theme:candidate-promoted': ThemeCandidatePromotedPayload;
   'theme:error': ThemeErrorPayload;
+  'history:changed': HistoryChangedPayload;
   'storage:saved': StorageSavedPayload;
   'storage:loaded': StorageLoadedPayload;
 }
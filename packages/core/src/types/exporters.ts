@@ -0,0 +1,36 @@
+import type { FlattenedTokens, TokenResolver } from '../TokenResolver';
+import type { Theme } from './theme';
+import type { ThemeTokens } from './tokens';
+
+/**
+ * Input passed to a token exporter
+ */
+export interface TokenExportContext {
+  /** Tokens with references resolved (to var() references when the resolver emits them) */
+  tokens: ThemeTokens;
+  /** Flattened tokens with the resolver's ramps and color format, e.g. { "color-primary": "#6366f1" } */
+  flat: FlattenedTokens;
+  /** CSS variable prefix, e.g. "--themed" */
+  prefix: string;
+  /** The prefix as a plain name for other languages, e.g. "themed" */
+  name: string;
+  /** The exported theme, when known */
+  theme?: Theme;
+}
+
+/**
+ * Converts tokens into the source text of one format
+ */
+export type TokenExporter = (context: TokenExportContext) => string;
+
+/**
+ * Options for exporting tokens
+ */
+export interface TokenExportOptions {
+  /** CSS variable prefix when no resolver is given (default: '--themed') */
+  prefix?: string;
+  /** Resolver that flattens the tokens, e.g. one configured with ramps or a color format */
+  resolver?: TokenResolver;
+  /** The exported theme, passed through to the exporter */
+  theme?: Theme;
+}
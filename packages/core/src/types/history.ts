@@ -0,0 +1,33 @@
+import type { Theme } from './theme';
+
+/**
+ * Actions recorded in the theme history
+ */
+export type HistoryAction = 'apply' | 'generate' | 'update-tokens' | 'update-custom';
+
+/**
+ * State captured before/after a recorded action.
+ * Only the themes touched by the action are captured; null means "not registered".
+ */
+export interface HistorySnapshot {
+  activeThemeId: string | null;
+  themes: Record<string, Theme | null>;
+}
+
+/**
+ * A recorded, undoable action
+ */
+export interface HistoryEntry {
+  action: HistoryAction;
+  before: HistorySnapshot;
+  after: HistorySnapshot;
+  timestamp: number;
+}
+
+/**
+ * History configuration options
+ */
+export interface HistoryOptions {
+  /** Maximum number of undo steps kept (default: 50) */
+  limit?: number;
+}
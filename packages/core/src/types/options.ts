@@ -1,5 +1,8 @@
 import type { AIProvider } from '../ai/providers/base';
-import type { Theme } from './theme';
+import type { AuditOptions } from './audit';
+import type { HistoryOptions } from './history';
+import type { ColorMode, Theme, ThemeScheme } from './theme';
+import type { RampColor } from './tokens';
 
 /**
  * AI provider type identifiers
@@ -31,6 +34,21 @@ export interface AIOptions {
   timeout?: number;
   /** Maximum retries on failure */
   maxRetries?: number;
+  /**
+   * Contrast checks on generated tokens, or false to disable.
+   * By default text pairs must meet WCAG AA; failing pairs are sent back to the model.
+   */
+  contrast?: AIContrastOptions | false;
+}
+
+/**
+ * Contrast enforcement for AI-generated themes (see auditTheme() for pairs and options)
+ */
+export interface AIContrastOptions extends AuditOptions {
+  /** Follow-up requests asking the model to fix failing pairs (default: 2) */
+  maxRepairRounds?: number;
+  /** Adjust colors that still fail after the last round, like fixTheme() (default: true) */
+  autoFix?: boolean;
 }
 
 /**
@@ -64,6 +82,30 @@ export interface CSSOptions {
   target?: HTMLElement | null;
   /** Whether to use :root or specific element */
   useRoot?: boolean;
+  /**
+   * How token references like "{colors.primary}" are emitted (default: 'resolve').
+   * 'var' emits var(--themed-color-primary) for plain references; expressions are always resolved.
+   */
+  references?: 'resolve' | 'var';
+  /**
+   * How styles are injected (default: 'style').
+   * 'adopted' uses constructable stylesheets via adoptedStyleSheets on the document or shadow root,
+   * falling back to a <style> element where unsupported.
+   * 'inline' only calls element.style.setProperty() and never creates a <style> element,
+   * for Content Security Policies that forbid inline styles.
+   * 'precompiled' compiles every registered theme once into a [data-theme="<id>"] rule block;
+   * switching themes only sets data-theme on the root (or target) element.
+   */
+  strategy?: 'style' | 'adopted' | 'inline' | 'precompiled';
+  /** CSP nonce (or a getter for it) set on injected <style> elements */
+  nonce?: string | (() => string | undefined);
+  /**
+   * Also emit 50-950 tonal ramps (e.g. --themed-color-primary-100) for semantic colors (default: false).
+   * true generates ramps for primary, secondary, accent, error, warning, success and info.
+   */
+  ramps?: boolean | RampColor[];
+  /** How colors are emitted (default: 'preserve'); 'oklch' converts hex colors to oklch() strings */
+  colorFormat?: 'preserve' | 'oklch';
 }
 
 /**
@@ -74,12 +116,25 @@ export interface ThemeManagerOptions {
   themes?: Theme[];
   /** Default theme ID to apply */
   defaultTheme?: string;
+  /** Light/dark theme schemes to register */
+  schemes?: ThemeScheme[];
+  /** Scheme ID to use for color modes (default: first registered scheme) */
+  defaultScheme?: string;
+  /** Initial color mode; when set, the matching variant of the active scheme is applied */
+  mode?: ColorMode;
   /** AI configuration */
   ai?: AIOptions;
   /** Storage configuration */
   storage?: StorageOptions;
   /** CSS injection configuration */
   css?: CSSOptions;
+  /** Undo/redo history configuration, or false to disable (enabled by default) */
+  history?: HistoryOptions | false;
+  /**
+   * Audit every registered theme's color contrast and emit 'theme:audit-warning' when a pair
+   * fails (disabled by default)
+   */
+  audit?: boolean | AuditOptions;
   /** Enable debug logging */
   debug?: boolean;
 }
@@ -92,6 +147,11 @@ export interface GenerateOptions {
   autoApply?: boolean;
   /** Auto-save the generated theme */
   autoSave?: boolean;
+  /**
+   * Register the generated theme (default true). When false the theme is only returned,
+   * e.g. to show it with preview() and register it on commitPreview().
+   */
+  register?: boolean;
   /** Base theme to modify (for adjustments) */
   baseTheme?: Theme;
   /**
@@ -100,6 +160,35 @@ export interface GenerateOptions {
    * or a JSON skeleton with placeholder values ({ "brandName": "...", "tone": "..." }).
    */
   customSchema?: string;
+  /**
+   * Cancels the generation: the AI request and pending retries are aborted, nothing is
+   * registered, and generate() rejects with the signal's abort reason
+   */
+  signal?: AbortSignal;
+  /** Set count (see GenerateCandidatesOptions) to generate several candidate themes instead */
+  count?: undefined;
+}
+
+/**
+ * Options for generating several candidate themes with ThemeManager.generate(prompt, { count })
+ */
+export interface GenerateCandidatesOptions
+  extends Pick<GenerateOptions, 'customSchema' | 'signal'> {
+  /** Number of distinct themes to generate */
+  count: number;
+  /**
+   * Minimum paletteDistance() between candidates; closer ones are dropped as near-duplicates
+   * (default: 5)
+   */
+  minDistance?: number;
+}
+
+/**
+ * Options for ThemeManager.generateStream()
+ */
+export interface GenerateStreamOptions extends GenerateOptions {
+  /** Preview the colors received so far on top of the base theme or the active theme */
+  preview?: boolean;
 }
 
 /**
@@ -0,0 +1,39 @@
+/**
+ * Options for rendering the theme on the server
+ */
+export interface ThemeSSROptions {
+  /** Persisted theme ID (e.g. from the user's profile); takes precedence over the cookie */
+  themeId?: string | null;
+  /** Raw Cookie request header to read the theme ID from */
+  cookie?: string;
+  /** Cookie holding the theme ID (default: "<prefix>-theme", written whenever a theme is applied) */
+  cookieName?: string;
+  /** Theme used when no persisted theme is found (default: the manager's active theme) */
+  defaultTheme?: string;
+  /** Themes the bootstrap script can switch to (default: all registered themes) */
+  themes?: string[];
+  /** Storage key prefix read by the bootstrap script (default: the manager's storage prefix) */
+  storagePrefix?: string;
+  /** CSP nonce for the <style> and <script> tags */
+  nonce?: string;
+}
+
+/**
+ * Server-rendered theme output
+ */
+export interface ThemeSSROutput {
+  /** ID of the theme rendered into the critical CSS, or null when none was found */
+  themeId: string | null;
+  /** Critical CSS (:root rule with the theme's variables) */
+  css: string;
+  /** <style> tag with the critical CSS; CSSInjector reuses it on the client */
+  styleTag: string;
+  /** Attributes to set on <html> */
+  htmlAttributes: Record<string, string>;
+  /** Blocking script that applies the theme saved in localStorage before first paint */
+  script: string;
+  /** The script wrapped in a <script> tag */
+  scriptTag: string;
+  /** styleTag and scriptTag, ready to put into <head> */
+  head: string;
+}
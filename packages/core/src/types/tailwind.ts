@@ -0,0 +1,44 @@
+import type { RampColor } from './tokens';
+
+/**
+ * Options for the Tailwind CSS preset
+ */
+export interface TailwindPresetOptions {
+  /** CSS variable prefix (default: '--themed'); must match css.prefix of the ThemeManager */
+  prefix?: string;
+  /**
+   * Support opacity modifiers such as bg-primary/50 (default: true).
+   * Colors are emitted as color-mix() with Tailwind's <alpha-value> placeholder.
+   */
+  opacity?: boolean;
+  /**
+   * Add the 50-950 tonal ramps of these colors (true: all ramp colors), e.g. bg-primary-100.
+   * Enable the same ramps in css.ramps so the variables exist.
+   */
+  ramps?: boolean | RampColor[];
+}
+
+/**
+ * Tailwind theme keys filled by the preset, each mapping a utility name to a var()
+ */
+export interface TailwindThemeExtension {
+  /** Colors with ramps map to { DEFAULT, 50, ..., 950 } */
+  colors: Record<string, string | Record<string, string>>;
+  fontFamily: Record<string, string>;
+  fontSize: Record<string, string>;
+  fontWeight: Record<string, string>;
+  lineHeight: Record<string, string>;
+  spacing: Record<string, string>;
+  borderRadius: Record<string, string>;
+  boxShadow: Record<string, string>;
+  transitionDuration: Record<string, string>;
+}
+
+/**
+ * A Tailwind CSS preset (use in tailwind.config `presets`)
+ */
+export interface TailwindPreset {
+  theme: {
+    extend: TailwindThemeExtension;
+  };
+}
@@ -1,8 +1,8 @@
 import { describe, it, expect } from 'vitest';
 import { createTheme, isValidTheme } from './theme';
-import { lightTheme } from '../themes';
+import { darkTheme, lightTheme } from '../themes';
 import type { ThemeInput } from './theme';
-import { defaultTypographyTokens } from './tokens';
+import { defaultTypographyTokens, getChangedTokenPaths, mergeTokens } from './tokens';
 
 describe('createTheme', () => {
   it('creates a theme from input with required fields', () => {
@@ -49,6 +49,64 @@ describe('createTheme', () => {
   });
 });
 
+describe('createTheme with extends', () => {
+  it('merges overrides onto the parent tokens', () => {
+    const theme = createTheme(
+      {
+        id: 'dark-teal',
+        name: 'Dark Teal',
+        extends: 'dark',
+        tokens: { colors: { primary: '#14b8a6' }, radius: { md: '1rem' } },
+      },
+      darkTheme
+    );
+
+    expect(theme.tokens.colors.primary).toBe('#14b8a6');
+    expect(theme.tokens.colors.background).toBe(darkTheme.tokens.colors.background);
+    expect(theme.tokens.radius?.md).toBe('1rem');
+    expect(theme.tokens.radius?.lg).toBe(darkTheme.tokens.radius?.lg);
+    expect(theme.extends).toBe('dark');
+    expect(theme.overrides).toEqual({ colors: { primary: '#14b8a6' }, radius: { md: '1rem' } });
+  });
+
+  it('throws when the parent is missing or does not match', () => {
+    expect(() => createTheme({ id: 'x', name: 'X', extends: 'dark' })).toThrow('extends "dark"');
+    expect(() => createTheme({ id: 'x', name: 'X', extends: 'dark' }, lightTheme)).toThrow();
+  });
+});
+
+describe('mergeTokens', () => {
+  it('deep-merges nested typography without mutating the base', () => {
+    const merged = mergeTokens(lightTheme.tokens, {
+      typography: { fontFamily: { sans: 'Inter, sans-serif' } },
+    });
+
+    expect(merged.typography.fontFamily.sans).toBe('Inter, sans-serif');
+    expect(merged.typography.fontFamily.mono).toBe(defaultTypographyTokens.fontFamily.mono);
+    expect(merged.typography.fontSize).toEqual(defaultTypographyTokens.fontSize);
+    expect(lightTheme.tokens.typography.fontFamily.sans).toBe(
+      defaultTypographyTokens.fontFamily.sans
+    );
+  });
+});
+
+describe('getChangedTokenPaths', () => {
+  it('lists changed leaf paths', () => {
+    const next = mergeTokens(lightTheme.tokens, {
+      colors: { primary: '#000000', border: lightTheme.tokens.colors.border },
+      typography: { fontWeight: { bold: 800 } },
+    });
+    expect(getChangedTokenPaths(lightTheme.tokens, next)).toEqual([
+      'colors.primary',
+      'typography.fontWeight.bold',
+    ]);
+  });
+
+  it('returns an empty list for identical tokens', () => {
+    expect(getChangedTokenPaths(lightTheme.tokens, { ...lightTheme.tokens })).toEqual([]);
+  });
+});
+
 describe('isValidTheme', () => {
   it('returns true for a valid theme', () => {
     expect(isValidTheme(lightTheme)).toBe(true);
@@ -1,4 +1,6 @@
-import type { ThemeTokens } from './tokens';
+import type { AIContrastReport } from '../ai/types';
+import type { PartialThemeTokens, ThemeTokens } from './tokens';
+import { mergeTokens } from './tokens';
 
 /**
  * Theme source type
@@ -21,6 +23,8 @@ export interface ThemeMeta {
   aiPrompt?: string;
   /** AI model used for generation */
   aiModel?: string;
+  /** Contrast checks of an AI generated theme */
+  contrastReport?: AIContrastReport;
 }
 
 /**
@@ -39,36 +43,107 @@ export interface Theme {
   meta: ThemeMeta;
   /** Optional custom structured data (user-defined JSON object) */
   custom?: Record<string, unknown>;
+  /** Parent theme ID when this theme inherits from another */
+  extends?: string;
+  /** Token overrides applied on top of the parent's tokens (only with extends) */
+  overrides?: PartialThemeTokens;
 }
 
 /**
- * Theme creation input (without auto-generated fields)
+ * Themes generated together with generate(prompt, { count }); registered but not applied until
+ * one of them is promoted
  */
-export interface ThemeInput {
+export interface ThemeCandidateGroup {
+  /** Unique identifier */
+  id: string;
+  /** Prompt the candidates were generated from */
+  prompt: string;
+  /** Registered candidate themes, in the order the model returned them */
+  candidates: Theme[];
+  /** Creation timestamp */
+  createdAt: number;
+}
+
+/**
+ * Fields shared by all theme inputs
+ */
+interface BaseThemeInput {
   id: string;
   name: string;
   description?: string;
-  tokens: ThemeTokens;
   source?: ThemeSource;
   /** Optional custom structured data */
   custom?: Record<string, unknown>;
 }
 
 /**
- * Create a theme from input
+ * Theme creation input (without auto-generated fields).
+ * Either a complete token set, or a parent theme ID plus partial overrides.
+ */
+export type ThemeInput =
+  | (BaseThemeInput & { extends?: undefined; tokens: ThemeTokens })
+  | (BaseThemeInput & { extends: string; tokens?: PartialThemeTokens });
+
+/**
+ * Resolved color scheme (the variant actually shown)
+ */
+export type ColorScheme = 'light' | 'dark';
+
+/**
+ * Color mode preference; 'system' follows prefers-color-scheme
+ */
+export type ColorMode = ColorScheme | 'system';
+
+/**
+ * Theme scheme: a theme family with a light and a dark variant (referenced by theme ID)
+ */
+export interface ThemeScheme {
+  /** Unique identifier */
+  id: string;
+  /** Display name */
+  name: string;
+  /** Theme ID used for the light color scheme */
+  light: string;
+  /** Theme ID used for the dark color scheme */
+  dark: string;
+}
+
+/**
+ * Create a theme from input.
+ * Inputs with `extends` need the resolved parent theme; ThemeManager.register() looks it up.
  */
-export function createTheme(input: ThemeInput): Theme {
+export function createTheme(input: ThemeInput, parent?: Theme): Theme {
+  const meta: ThemeMeta = {
+    version: '1.0.0',
+    createdAt: Date.now(),
+    source: input.source ?? 'user',
+  };
+
+  if (input.extends === undefined) {
+    return {
+      id: input.id,
+      name: input.name,
+      description: input.description,
+      tokens: input.tokens,
+      meta,
+      custom: input.custom,
+    };
+  }
+
+  if (!parent || parent.id !== input.extends) {
+    throw new Error(`Theme "${input.id}" extends "${input.extends}", which was not provided`);
+  }
+
+  const overrides = input.tokens ?? {};
   return {
     id: input.id,
     name: input.name,
     description: input.description,
-    tokens: input.tokens,
-    meta: {
-      version: '1.0.0',
-      createdAt: Date.now(),
-      source: input.source ?? 'user',
-    },
+    tokens: mergeTokens(parent.tokens, overrides),
+    meta,
     custom: input.custom,
+    extends: input.extends,
+    overrides,
   };
 }
 
@@ -117,13 +117,47 @@ export interface ThemeTokens {
  */
 export interface PartialThemeTokens {
   colors?: Partial<ColorTokens>;
-  typography?: Partial<TypographyTokens>;
+  typography?: { [K in keyof TypographyTokens]?: Partial<TypographyTokens[K]> };
   spacing?: Partial<SpacingTokens>;
   radius?: Partial<RadiusTokens>;
   shadow?: Partial<ShadowTokens>;
   transition?: Partial<TransitionTokens>;
 }
 
+/**
+ * Semantic colors that can get a tonal ramp
+ */
+export type RampColor =
+  | 'primary'
+  | 'secondary'
+  | 'accent'
+  | 'error'
+  | 'warning'
+  | 'success'
+  | 'info';
+
+/**
+ * Tonal ramp steps, from 50 (lightest) to 950 (darkest)
+ */
+export type RampStep = 50 | 100 | 200 | 300 | 400 | 500 | 600 | 700 | 800 | 900 | 950;
+
+/**
+ * A tonal ramp: one color per step
+ */
+export type ColorRamp = Record<RampStep, string>;
+
+export const rampColors: RampColor[] = [
+  'primary',
+  'secondary',
+  'accent',
+  'error',
+  'warning',
+  'success',
+  'info',
+];
+
+export const rampSteps: RampStep[] = [50, 100, 200, 300, 400, 500, 600, 700, 800, 900, 950];
+
 /**
  * Default typography tokens
  */
@@ -198,3 +232,58 @@ export const defaultTransitionTokens: TransitionTokens = {
   normal: '250ms',
   slow: '400ms',
 };
+
+/**
+ * Deep-merge partial token overrides into a token set (returns a new object)
+ */
+export function mergeTokens<T extends PartialThemeTokens>(
+  base: T,
+  overrides: PartialThemeTokens
+): T {
+  return deepMerge(base, overrides) as T;
+}
+
+/**
+ * List the dot paths of leaf tokens that differ between two token sets (e.g. "colors.primary")
+ */
+export function getChangedTokenPaths(previous: ThemeTokens, next: ThemeTokens): string[] {
+  const changed: string[] = [];
+  collectChangedPaths(previous, next, '', changed);
+  return changed;
+}
+
+function collectChangedPaths(
+  previous: unknown,
+  next: unknown,
+  prefix: string,
+  changed: string[]
+): void {
+  if (isPlainObject(previous) && isPlainObject(next)) {
+    const keys = new Set([...Object.keys(previous), ...Object.keys(next)]);
+    for (const key of keys) {
+      collectChangedPaths(previous[key], next[key], prefix ? `${prefix}.${key}` : key, changed);
+    }
+    return;
+  }
+
+  if (previous !== next) {
+    changed.push(prefix);
+  }
+}
+
+function deepMerge(base: object, overrides: object): Record<string, unknown> {
+  const result: Record<string, unknown> = { ...base };
+
+  for (const [key, value] of Object.entries(overrides)) {
+    if (value === undefined) continue;
+    const current = result[key];
+    result[key] =
+      isPlainObject(value) && isPlainObject(current) ? deepMerge(current, value) : value;
+  }
+
+  return result;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
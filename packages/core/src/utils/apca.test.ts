@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { defaultTypographyTokens } from '../types/tokens';
+import { evaluateApca, formatApcaContrast, getApcaContrast, getApcaThreshold } from './apca';
+
+describe('getApcaContrast', () => {
+  it('matches APCA reference values', () => {
+    expect(getApcaContrast('#000000', '#ffffff')).toBeCloseTo(106.04, 1);
+    expect(getApcaContrast('#ffffff', '#000000')).toBeCloseTo(-107.88, 1);
+    expect(getApcaContrast('#888888', '#ffffff')).toBeCloseTo(63.06, 1);
+    expect(getApcaContrast('#ffffff', '#888888')).toBeCloseTo(-68.54, 1);
+  });
+
+  it('returns 0 for identical or unparseable colors', () => {
+    expect(getApcaContrast('#6366f1', '#6366f1')).toBe(0);
+    expect(getApcaContrast('currentColor', '#ffffff')).toBe(0);
+  });
+
+  it('accepts any CSS color', () => {
+    expect(getApcaContrast('black', 'rgb(255 255 255)')).toBeCloseTo(106.04, 1);
+  });
+});
+
+describe('getApcaThreshold', () => {
+  it('defaults to body text', () => {
+    expect(getApcaThreshold()).toBe(90);
+  });
+
+  it('lowers the threshold for larger and bolder text', () => {
+    expect(getApcaThreshold({ fontSize: 18 })).toBe(75);
+    expect(getApcaThreshold({ fontSize: '1.5rem' })).toBe(60);
+    expect(getApcaThreshold({ fontSize: '16px', fontWeight: 700 })).toBe(60);
+    expect(getApcaThreshold({ fontSize: '36px' })).toBe(45);
+  });
+
+  it('resolves typography token keys', () => {
+    const typography = defaultTypographyTokens;
+    expect(getApcaThreshold({ typography, fontSize: '3xl', fontWeight: 'bold' })).toBe(45);
+    expect(getApcaThreshold({ typography, fontSize: 'xs' })).toBe(90);
+  });
+});
+
+describe('evaluateApca', () => {
+  it('reports polarity and pass/fail', () => {
+    expect(evaluateApca('#ffffff', '#000000')).toMatchObject({
+      polarity: 'light-on-dark',
+      threshold: 90,
+      passes: true,
+    });
+    expect(evaluateApca('#888888', '#ffffff')).toMatchObject({
+      lc: 63.1,
+      polarity: 'dark-on-light',
+      passes: false,
+    });
+    expect(evaluateApca('#888888', '#ffffff', { fontSize: 24 }).passes).toBe(true);
+  });
+});
+
+describe('formatApcaContrast', () => {
+  it('formats Lc values', () => {
+    expect(formatApcaContrast(63.06)).toBe('Lc 63.1');
+  });
+});
@@ -0,0 +1,168 @@
+import type { TypographyTokens } from '../types/tokens';
+import { flatten } from './color';
+import { parseColor } from './parseColor';
+
+/**
+ * Text style used to pick an APCA threshold.
+ * fontSize and fontWeight may be literal values or keys of the theme's typography tokens
+ * (e.g. fontSize: 'lg', fontWeight: 'bold'); the default is body text
+ * (typography.fontSize.base at typography.fontWeight.normal, or 16px/400 without typography).
+ */
+export interface ApcaTextStyle {
+  /** CSS length (px, rem, em, pt), px number or typography.fontSize key */
+  fontSize?: string | number;
+  /** Numeric weight or typography.fontWeight key */
+  fontWeight?: number | string;
+  typography?: TypographyTokens;
+}
+
+/**
+ * Contrast polarity: dark text on a light background or light text on a dark background
+ */
+export type ApcaPolarity = 'dark-on-light' | 'light-on-dark';
+
+/**
+ * APCA result for a text/background pair
+ */
+export interface ApcaResult {
+  /** Signed Lc value: positive for dark-on-light, negative for light-on-dark */
+  lc: number;
+  polarity: ApcaPolarity;
+  /** Minimum |Lc| for the text style */
+  threshold: number;
+  passes: boolean;
+}
+
+/** APCA-W3 0.0.98G constants */
+const MAIN_TRC = 2.4;
+const COEFFICIENTS = [0.2126729, 0.7151522, 0.072175];
+const BLACK_THRESHOLD = 0.022;
+// biome-ignore lint/suspicious/noApproximativeNumericConstant: APCA specifies 1.414, not sqrt(2)
+const BLACK_CLAMP = 1.414;
+const DELTA_Y_MIN = 0.0005;
+const LOW_CLIP = 0.1;
+const LOW_OFFSET = 0.027;
+const SCALE = 1.14;
+
+/**
+ * Minimum |Lc| by text size, with the smallest px size at normal and bold weight
+ * (APCA "Bronze" simple mode). Text smaller than every row needs Lc 90.
+ */
+const APCA_THRESHOLDS = [
+  { lc: 45, normal: 36, bold: 24 },
+  { lc: 60, normal: 24, bold: 16 },
+  { lc: 75, normal: 18, bold: 14 },
+] as const;
+const BODY_TEXT_THRESHOLD = 90;
+
+const ROOT_FONT_SIZE = 16;
+const LENGTH_PATTERN = /^(\d*\.?\d+)(px|rem|em|pt)?$/;
+
+/**
+ * Calculate the APCA lightness contrast (Lc) of text on a background.
+ * Returns roughly -108 to 106: positive for dark text on light backgrounds, negative for light
+ * text on dark backgrounds, 0 when the difference is too small to read. A translucent text color
+ * is composited over the background first.
+ */
+export function getApcaContrast(text: string, background: string): number {
+  const opaqueBackground = flatten(background);
+  const yText = apcaLuminance(flatten(text, opaqueBackground));
+  const yBackground = apcaLuminance(opaqueBackground);
+
+  if (yText === null || yBackground === null) return 0;
+  if (Math.abs(yBackground - yText) < DELTA_Y_MIN) return 0;
+
+  if (yBackground > yText) {
+    const sapc = (yBackground ** 0.56 - yText ** 0.57) * SCALE;
+    return sapc < LOW_CLIP ? 0 : (sapc - LOW_OFFSET) * 100;
+  }
+
+  const sapc = (yBackground ** 0.65 - yText ** 0.62) * SCALE;
+  return sapc > -LOW_CLIP ? 0 : (sapc + LOW_OFFSET) * 100;
+}
+
+/**
+ * Get the minimum |Lc| for a text style
+ */
+export function getApcaThreshold(style: ApcaTextStyle = {}): number {
+  const { size, weight } = resolveTextStyle(style);
+  const bold = weight >= 700;
+
+  const row = APCA_THRESHOLDS.find((entry) => size >= (bold ? entry.bold : entry.normal));
+  return row ? row.lc : BODY_TEXT_THRESHOLD;
+}
+
+/**
+ * Evaluate a text/background pair against the APCA threshold for a text style
+ */
+export function evaluateApca(
+  text: string,
+  background: string,
+  style: ApcaTextStyle = {}
+): ApcaResult {
+  const lc = getApcaContrast(text, background);
+  const threshold = getApcaThreshold(style);
+
+  return {
+    lc: Math.round(lc * 10) / 10,
+    polarity: lc < 0 ? 'light-on-dark' : 'dark-on-light',
+    threshold,
+    passes: Math.abs(lc) >= threshold,
+  };
+}
+
+/**
+ * Format an Lc value for display
+ */
+export function formatApcaContrast(lc: number): string {
+  return `Lc ${lc.toFixed(1)}`;
+}
+
+function apcaLuminance(color: string): number | null {
+  const rgb = parseColor(color);
+  if (!rgb) return null;
+
+  const y = [rgb.r, rgb.g, rgb.b].reduce(
+    (sum, channel, i) => sum + (channel / 255) ** MAIN_TRC * COEFFICIENTS[i],
+    0
+  );
+  // Soft clamp near black
+  return y < BLACK_THRESHOLD ? y + (BLACK_THRESHOLD - y) ** BLACK_CLAMP : y;
+}
+
+function resolveTextStyle(style: ApcaTextStyle): { size: number; weight: number } {
+  const { typography } = style;
+  const fontSize = style.fontSize ?? typography?.fontSize.base ?? ROOT_FONT_SIZE;
+  const fontWeight = style.fontWeight ?? typography?.fontWeight.normal ?? 400;
+
+  const size =
+    typeof fontSize === 'number'
+      ? fontSize
+      : toPx((typography?.fontSize as Record<string, string> | undefined)?.[fontSize] ?? fontSize);
+  const weight =
+    typeof fontWeight === 'number'
+      ? fontWeight
+      : ((typography?.fontWeight as Record<string, number> | undefined)?.[fontWeight] ??
+        Number(fontWeight));
+
+  return { size, weight: Number.isNaN(weight) ? 400 : weight };
+}
+
+/**
+ * Convert a CSS length to px; unknown units fall back to the root font size
+ */
+function toPx(length: string): number {
+  const match = LENGTH_PATTERN.exec(length.trim());
+  if (!match) return ROOT_FONT_SIZE;
+
+  const value = Number(match[1]);
+  switch (match[2]) {
+    case 'rem':
+    case 'em':
+      return value * ROOT_FONT_SIZE;
+    case 'pt':
+      return (value * 4) / 3;
+    default:
+      return value;
+  }
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { darkTheme, lightTheme } from '../themes';
+import { createTheme } from '../types/theme';
+import { auditTheme, fixTheme } from './audit';
+import { hexToOklch } from './color';
+
+describe('auditTheme', () => {
+  it('checks every semantic pair', () => {
+    const result = auditTheme(lightTheme);
+
+    expect(result.themeId).toBe('light');
+    expect(result.findings).toHaveLength(12);
+    expect(result.findings[0]).toMatchObject({
+      foreground: 'textPrimary',
+      background: 'background',
+      role: 'text',
+      colors: [lightTheme.tokens.colors.textPrimary, lightTheme.tokens.colors.background],
+      required: 4.5,
+      passes: true,
+    });
+    expect(result.failures.every((finding) => !finding.passes)).toBe(true);
+  });
+
+  it('applies role requirements and severities', () => {
+    const result = auditTheme(lightTheme, { level: 'AAA' });
+    const border = result.findings.find((finding) => finding.role === 'border')!;
+    const secondary = result.findings.find((finding) => finding.foreground === 'textSecondary')!;
+
+    expect(border).toMatchObject({ required: 3, passes: false, severity: 'warning' });
+    expect(secondary).toMatchObject({ required: 7, passes: false, severity: 'error' });
+  });
+
+  it('resolves token references', () => {
+    const theme = createTheme({
+      id: 'refs',
+      name: 'Refs',
+      tokens: {
+        ...lightTheme.tokens,
+        colors: { ...lightTheme.tokens.colors, textSecondary: '{colors.textPrimary}' },
+      },
+    });
+    const finding = auditTheme(theme).findings.find((f) => f.foreground === 'textSecondary')!;
+
+    expect(finding.colors[0]).toBe(lightTheme.tokens.colors.textPrimary);
+  });
+
+  it('uses APCA Lc with the theme typography', () => {
+    const finding = auditTheme(darkTheme, { algorithm: 'apca' }).findings[0];
+
+    expect(finding.required).toBe(90);
+    expect(finding.apca).toMatchObject({ polarity: 'light-on-dark', threshold: 90 });
+    expect(finding.contrast).toBeGreaterThan(90);
+  });
+});
+
+describe('fixTheme', () => {
+  it('adjusts failing foregrounds until the theme passes', () => {
+    const fixed = fixTheme(lightTheme, 'AA');
+
+    expect(auditTheme(lightTheme).passes).toBe(false);
+    expect(auditTheme(fixed).passes).toBe(true);
+    expect(fixed.tokens.colors.background).toBe(lightTheme.tokens.colors.background);
+    expect(fixed.tokens.colors.textPrimary).toBe(lightTheme.tokens.colors.textPrimary);
+  });
+
+  it('adjusts the background when the foreground cannot reach the contrast', () => {
+    // White text on the light primary can only pass by darkening the primary
+    const fixed = fixTheme(lightTheme, 'AA');
+
+    expect(fixed.tokens.colors.textInverse).toBe(lightTheme.tokens.colors.textInverse);
+    expect(fixed.tokens.colors.primary).not.toBe(lightTheme.tokens.colors.primary);
+  });
+
+  it('preserves hue', () => {
+    const fixed = fixTheme(lightTheme, 'AA');
+    const before = hexToOklch(lightTheme.tokens.colors.warning)!;
+    const after = hexToOklch(fixed.tokens.colors.warning)!;
+
+    expect(fixed.tokens.colors.warning).not.toBe(lightTheme.tokens.colors.warning);
+    expect(Math.abs(after.h - before.h)).toBeLessThan(10);
+  });
+
+  it('passes AAA and APCA audits when fixed for them', () => {
+    expect(auditTheme(fixTheme(darkTheme, 'AAA'), { level: 'AAA' }).passes).toBe(true);
+    expect(
+      auditTheme(fixTheme(darkTheme, 'AA', { algorithm: 'apca' }), { algorithm: 'apca' }).passes
+    ).toBe(true);
+  });
+
+  it('repeats the fixes when a later pair moves a shared background', () => {
+    // Neither text color can reach the contrast on the green, so both move the backgrounds: the
+    // dark textSecondary pushes them back toward the light textPrimary, which needs another pass
+    const colors = { background: '#2bae87', surface: '#2bae87', textPrimary: '#c3a07c' };
+    const theme = {
+      ...lightTheme,
+      tokens: {
+        ...lightTheme.tokens,
+        colors: { ...lightTheme.tokens.colors, ...colors, textSecondary: '#6a3c02' },
+      },
+    };
+    const fixed = fixTheme(theme, 'AA', { roles: ['text'] });
+
+    expect(fixed.tokens.colors.background).not.toBe(colors.background);
+    expect(fixed.tokens.colors.textPrimary).not.toBe(colors.textPrimary);
+    expect(auditTheme(fixed, { roles: ['text'] }).passes).toBe(true);
+  });
+
+  it('returns the same theme when nothing fails', () => {
+    const fixed = fixTheme(lightTheme);
+    expect(fixTheme(fixed)).toBe(fixed);
+  });
+
+  it('writes fixes into overrides of inheriting themes', () => {
+    const child = { ...lightTheme, id: 'child', extends: 'light', overrides: {} };
+    const fixed = fixTheme(child);
+
+    expect(fixed.overrides?.colors?.border).toBe(fixed.tokens.colors.border);
+  });
+});
@@ -0,0 +1,197 @@
+import type {
+  AuditFinding,
+  AuditLevel,
+  AuditOptions,
+  AuditPair,
+  AuditResult,
+  AuditRole,
+} from '../types/audit';
+import type { Theme } from '../types/theme';
+import type { ColorTokens, ThemeTokens } from '../types/tokens';
+import { evaluateApca, getApcaContrast, getApcaThreshold } from './apca';
+import { findAccessibleColor, getContrastRatio } from './contrast';
+import { resolveTokenReferences } from './references';
+
+/**
+ * Semantic color pairs checked by auditTheme(), in the order fixes are applied
+ */
+export const AUDIT_PAIRS: readonly AuditPair[] = [
+  { foreground: 'textPrimary', background: 'background', role: 'text' },
+  { foreground: 'textPrimary', background: 'surface', role: 'text' },
+  { foreground: 'textSecondary', background: 'background', role: 'text' },
+  { foreground: 'textSecondary', background: 'surface', role: 'text' },
+  { foreground: 'textDisabled', background: 'background', role: 'disabled' },
+  { foreground: 'textDisabled', background: 'surface', role: 'disabled' },
+  { foreground: 'textInverse', background: 'primary', role: 'text' },
+  { foreground: 'error', background: 'surface', role: 'graphic' },
+  { foreground: 'warning', background: 'surface', role: 'graphic' },
+  { foreground: 'success', background: 'surface', role: 'graphic' },
+  { foreground: 'info', background: 'surface', role: 'graphic' },
+  { foreground: 'border', background: 'background', role: 'border' },
+];
+
+const WCAG_TEXT: Record<AuditLevel, number> = { AA: 4.5, AAA: 7 };
+
+/**
+ * Passes over the pairs in getContrastFixes(); a fix can break a pair fixed earlier that shares
+ * the color, and conflicting pairs (e.g. text on a light background and a dark surface) never settle
+ */
+const MAX_FIX_PASSES = 5;
+
+/**
+ * Required contrast of the non-text roles: [WCAG ratio, APCA |Lc|]
+ */
+const ROLE_REQUIREMENTS: Record<Exclude<AuditRole, 'text'>, [number, number]> = {
+  disabled: [3, 30],
+  graphic: [3, 45],
+  border: [3, 15],
+};
+
+/**
+ * Check the semantic color pairs of a theme (text on background and surface, textInverse on
+ * primary, status colors on surface, border on background). Token references are resolved first.
+ */
+export function auditTheme(theme: Theme, options: AuditOptions = {}): AuditResult {
+  const findings = auditTokens(theme.tokens, options);
+  const failures = findings.filter((finding) => !finding.passes);
+
+  return { themeId: theme.id, passes: failures.length === 0, findings, failures };
+}
+
+/**
+ * Check the semantic color pairs of a token set, e.g. tokens that are not part of a theme yet
+ */
+export function auditTokens(tokens: ThemeTokens, options: AuditOptions = {}): AuditFinding[] {
+  const colors = resolveTokenReferences(tokens).colors;
+  return getPairs(options).map((pair) => checkPair(pair, colors, tokens, options));
+}
+
+/**
+ * Return a copy of the theme whose failing colors are adjusted with findAccessibleColor(). The
+ * pairs are fixed in order, repeated until a pass changes nothing (at most 5 passes), so pairs
+ * whose requirements conflict can still fail. The foreground is adjusted first; the background
+ * only when the foreground cannot reach the required contrast. Colors are only lightened or
+ * darkened, so their hue is preserved. Themes with `extends` also get the fixed colors in their
+ * overrides.
+ */
+export function fixTheme(
+  theme: Theme,
+  level: AuditLevel = 'AA',
+  options: AuditOptions = {}
+): Theme {
+  const fixed = getContrastFixes(theme.tokens, level, options);
+  if (Object.keys(fixed).length === 0) return theme;
+
+  return {
+    ...theme,
+    tokens: { ...theme.tokens, colors: { ...theme.tokens.colors, ...fixed } },
+    ...(theme.extends && {
+      overrides: { ...theme.overrides, colors: { ...theme.overrides?.colors, ...fixed } },
+    }),
+    meta: { ...theme.meta, updatedAt: Date.now() },
+  };
+}
+
+/**
+ * Compute the color changes fixTheme() would make to a token set; empty when every pair passes
+ */
+export function getContrastFixes(
+  tokens: ThemeTokens,
+  level: AuditLevel = 'AA',
+  options: AuditOptions = {}
+): Partial<ColorTokens> {
+  const colors: ColorTokens = { ...resolveTokenReferences(tokens).colors };
+  const fixed: Partial<ColorTokens> = {};
+  const auditOptions = { ...options, level };
+
+  // Fixing a pair can break an earlier one sharing a color, e.g. a darkened background
+  for (let pass = 0; pass < MAX_FIX_PASSES; pass++) {
+    let changed = false;
+
+    for (const pair of getPairs(options)) {
+      const finding = checkPair(pair, colors, tokens, auditOptions);
+      if (finding.passes) continue;
+
+      const foreground = colors[pair.foreground];
+      const background = colors[pair.background];
+      colors[pair.foreground] = findAccessibleColor(
+        foreground,
+        background,
+        finding.required,
+        options
+      );
+
+      if (!checkPair(pair, colors, tokens, auditOptions).passes) {
+        // The foreground cannot move far enough (e.g. white text on a mid-tone primary): keep it
+        // and adjust the background away from it instead
+        colors[pair.foreground] = foreground;
+        colors[pair.background] = findAccessibleColor(
+          background,
+          foreground,
+          finding.required,
+          options
+        );
+      }
+
+      if (colors[pair.foreground] !== foreground) {
+        fixed[pair.foreground] = colors[pair.foreground];
+        changed = true;
+      }
+      if (colors[pair.background] !== background) {
+        fixed[pair.background] = colors[pair.background];
+        changed = true;
+      }
+    }
+
+    if (!changed) break;
+  }
+
+  return fixed;
+}
+
+function getPairs(options: AuditOptions): readonly AuditPair[] {
+  const { roles } = options;
+  return roles ? AUDIT_PAIRS.filter((pair) => roles.includes(pair.role)) : AUDIT_PAIRS;
+}
+
+function checkPair(
+  pair: AuditPair,
+  colors: ColorTokens,
+  tokens: ThemeTokens,
+  options: AuditOptions
+): AuditFinding {
+  const foreground = colors[pair.foreground];
+  const background = colors[pair.background];
+  const severity = pair.role === 'text' || pair.role === 'graphic' ? 'error' : 'warning';
+
+  if (options.algorithm === 'apca') {
+    const style = { ...options, typography: options.typography ?? tokens.typography };
+    const required =
+      pair.role === 'text' ? getApcaThreshold(style) : ROLE_REQUIREMENTS[pair.role][1];
+    const apca = { ...evaluateApca(foreground, background, style), threshold: required };
+    apca.passes = Math.abs(getApcaContrast(foreground, background)) >= required;
+
+    return {
+      ...pair,
+      colors: [foreground, background],
+      contrast: Math.abs(apca.lc),
+      required,
+      passes: apca.passes,
+      severity,
+      apca,
+    };
+  }
+
+  const contrast = getContrastRatio(foreground, background);
+  const required =
+    pair.role === 'text' ? WCAG_TEXT[options.level ?? 'AA'] : ROLE_REQUIREMENTS[pair.role][0];
+
+  return {
+    ...pair,
+    colors: [foreground, background],
+    contrast: Math.round(contrast * 100) / 100,
+    required,
+    passes: contrast >= required,
+    severity,
+  };
+}
@@ -10,6 +10,8 @@ import {
   darken,
   mix,
   complement,
+  toHex,
+  flatten,
 } from './color';
 
 describe('hexToRgb', () => {
@@ -128,3 +130,29 @@ describe('complement', () => {
     expect(hexToRgb(comp)).toBeTruthy();
   });
 });
+
+describe('non-hex input', () => {
+  it('accepts any CSS color in helpers', () => {
+    expect(getLuminance('white')).toBe(1);
+    expect(lighten('rgb(99, 102, 241)', 10)).toBe(lighten('#6366f1', 10));
+    expect(mix('hsl(0 0% 100%)', 'black', 100)).toBe('#000000');
+  });
+
+  it('keeps alpha as 8-digit hex', () => {
+    expect(toHex('rgba(255, 0, 0, 0.5)')).toBe('#ff000080');
+    expect(darken('#ffffff80', 10)).toMatch(/^#[0-9a-f]{6}80$/);
+  });
+
+  it('returns unparseable colors unchanged', () => {
+    expect(lighten('currentColor', 10)).toBe('currentColor');
+    expect(toHex('var(--brand)')).toBe('var(--brand)');
+  });
+});
+
+describe('flatten', () => {
+  it('composites a translucent color over the background', () => {
+    expect(flatten('rgb(0 0 0 / 50%)')).toBe('#808080');
+    expect(flatten('#ff000000', 'blue')).toBe('#0000ff');
+    expect(flatten('red', 'blue')).toBe('#ff0000');
+  });
+});
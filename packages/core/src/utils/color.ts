@@ -1,3 +1,15 @@
+import {
+  type OKLCH,
+  clampChroma,
+  deltaE2000,
+  oklabToOklch,
+  oklabToRgb,
+  oklchToOklab,
+  rgbToLab,
+  rgbToOklab,
+} from './colorSpaces';
+import { parseColor } from './parseColor';
+
 /**
  * RGB color representation
  */
@@ -7,6 +19,13 @@ export interface RGB {
   b: number;
 }
 
+/**
+ * RGB color with alpha (0-1), as returned by parseColor()
+ */
+export interface RGBA extends RGB {
+  alpha: number;
+}
+
 /**
  * HSL color representation
  */
@@ -41,15 +60,40 @@ export function hexToRgb(hex: string): RGB | null {
 }
 
 /**
- * Convert RGB to hex
+ * Convert RGB to hex; RGBA with alpha below 1 produces 8-digit hex
  */
-export function rgbToHex(rgb: RGB): string {
+export function rgbToHex(rgb: RGB | RGBA): string {
   const toHex = (n: number) => {
     const hex = Math.round(Math.max(0, Math.min(255, n))).toString(16);
     return hex.length === 1 ? '0' + hex : hex;
   };
 
-  return `#${toHex(rgb.r)}${toHex(rgb.g)}${toHex(rgb.b)}`;
+  const alpha = 'alpha' in rgb && rgb.alpha < 1 ? toHex(rgb.alpha * 255) : '';
+  return `#${toHex(rgb.r)}${toHex(rgb.g)}${toHex(rgb.b)}${alpha}`;
+}
+
+/**
+ * Normalize any CSS color to hex (8-digit when translucent); returns the input if it cannot be
+ * parsed
+ */
+export function toHex(color: string): string {
+  const rgba = parseColor(color);
+  return rgba ? rgbToHex(rgba) : color;
+}
+
+/**
+ * Composite a translucent color over a background, returning opaque hex.
+ * A translucent background is itself composited over white first.
+ */
+export function flatten(color: string, background = '#ffffff'): string {
+  const fg = parseColor(color);
+  const bg = parseColor(background);
+  if (!fg || !bg) return color;
+
+  const under = bg.alpha < 1 ? parseColor(flatten(background))! : bg;
+  const blend = (top: number, bottom: number) => top * fg.alpha + bottom * (1 - fg.alpha);
+
+  return rgbToHex({ r: blend(fg.r, under.r), g: blend(fg.g, under.g), b: blend(fg.b, under.b) });
 }
 
 /**
@@ -130,50 +174,32 @@ export function hslToRgb(hsl: HSL): RGB {
 /**
  * Lighten a color
  */
-export function lighten(hex: string, amount: number): string {
-  const rgb = hexToRgb(hex);
-  if (!rgb) return hex;
-
-  const hsl = rgbToHsl(rgb);
-  hsl.l = Math.min(100, hsl.l + amount);
-
-  return rgbToHex(hslToRgb(hsl));
+export function lighten(color: string, amount: number): string {
+  return adjustHsl(color, (hsl) => ({ ...hsl, l: Math.min(100, hsl.l + amount) }));
 }
 
 /**
  * Darken a color
  */
-export function darken(hex: string, amount: number): string {
-  const rgb = hexToRgb(hex);
-  if (!rgb) return hex;
-
-  const hsl = rgbToHsl(rgb);
-  hsl.l = Math.max(0, hsl.l - amount);
-
-  return rgbToHex(hslToRgb(hsl));
+export function darken(color: string, amount: number): string {
+  return adjustHsl(color, (hsl) => ({ ...hsl, l: Math.max(0, hsl.l - amount) }));
 }
 
 /**
  * Adjust saturation
  */
-export function saturate(hex: string, amount: number): string {
-  const rgb = hexToRgb(hex);
-  if (!rgb) return hex;
-
-  const hsl = rgbToHsl(rgb);
-  hsl.s = Math.min(100, Math.max(0, hsl.s + amount));
-
-  return rgbToHex(hslToRgb(hsl));
+export function saturate(color: string, amount: number): string {
+  return adjustHsl(color, (hsl) => ({ ...hsl, s: Math.min(100, Math.max(0, hsl.s + amount)) }));
 }
 
 /**
  * Mix two colors
  */
-export function mix(hex1: string, hex2: string, weight = 50): string {
-  const rgb1 = hexToRgb(hex1);
-  const rgb2 = hexToRgb(hex2);
+export function mix(color1: string, color2: string, weight = 50): string {
+  const rgb1 = parseColor(color1);
+  const rgb2 = parseColor(color2);
 
-  if (!rgb1 || !rgb2) return hex1;
+  if (!rgb1 || !rgb2) return color1;
 
   const w = weight / 100;
 
@@ -181,14 +207,15 @@ export function mix(hex1: string, hex2: string, weight = 50): string {
     r: Math.round(rgb1.r * (1 - w) + rgb2.r * w),
     g: Math.round(rgb1.g * (1 - w) + rgb2.g * w),
     b: Math.round(rgb1.b * (1 - w) + rgb2.b * w),
+    alpha: rgb1.alpha * (1 - w) + rgb2.alpha * w,
   });
 }
 
 /**
- * Get the luminance of a color (0-1)
+ * Get the luminance of a color (0-1), ignoring alpha
  */
-export function getLuminance(hex: string): number {
-  const rgb = hexToRgb(hex);
+export function getLuminance(color: string): number {
+  const rgb = parseColor(color);
   if (!rgb) return 0;
 
   const [r, g, b] = [rgb.r, rgb.g, rgb.b].map((v) => {
@@ -199,52 +226,128 @@ export function getLuminance(hex: string): number {
   return 0.2126 * r + 0.7152 * g + 0.0722 * b;
 }
 
+/**
+ * Perceptual difference between two colors (CIEDE2000), ignoring alpha.
+ * Returns 0 when either color cannot be parsed.
+ */
+export function deltaE(color1: string, color2: string): number {
+  const rgb1 = parseColor(color1);
+  const rgb2 = parseColor(color2);
+  return rgb1 && rgb2 ? deltaE2000(rgbToLab(rgb1), rgbToLab(rgb2)) : 0;
+}
+
 /**
  * Check if a color is light or dark
  */
-export function isLight(hex: string): boolean {
-  return getLuminance(hex) > 0.5;
+export function isLight(color: string): boolean {
+  return getLuminance(color) > 0.5;
 }
 
 /**
  * Generate a complementary color
  */
-export function complement(hex: string): string {
-  const rgb = hexToRgb(hex);
-  if (!rgb) return hex;
+export function complement(color: string): string {
+  return adjustHsl(color, (hsl) => ({ ...hsl, h: (hsl.h + 180) % 360 }));
+}
 
-  const hsl = rgbToHsl(rgb);
-  hsl.h = (hsl.h + 180) % 360;
+/**
+ * Generate analogous colors
+ */
+export function analogous(color: string, spread = 30): [string, string, string] {
+  return [
+    adjustHsl(color, (hsl) => ({ ...hsl, h: (hsl.h - spread + 360) % 360 })),
+    color,
+    adjustHsl(color, (hsl) => ({ ...hsl, h: (hsl.h + spread) % 360 })),
+  ];
+}
 
-  return rgbToHex(hslToRgb(hsl));
+/**
+ * Generate triadic colors
+ */
+export function triadic(color: string): [string, string, string] {
+  return [
+    color,
+    adjustHsl(color, (hsl) => ({ ...hsl, h: (hsl.h + 120) % 360 })),
+    adjustHsl(color, (hsl) => ({ ...hsl, h: (hsl.h + 240) % 360 })),
+  ];
 }
 
 /**
- * Generate analogous colors
+ * Convert any CSS color to OKLCH (alpha is ignored)
  */
-export function analogous(hex: string, spread = 30): [string, string, string] {
-  const rgb = hexToRgb(hex);
-  if (!rgb) return [hex, hex, hex];
+export function hexToOklch(color: string): OKLCH | null {
+  const rgb = parseColor(color);
+  return rgb ? oklabToOklch(rgbToOklab(rgb)) : null;
+}
 
-  const hsl = rgbToHsl(rgb);
+/**
+ * Convert OKLCH to hex, reducing chroma first if the color is outside sRGB
+ */
+export function oklchToHex(lch: OKLCH): string {
+  return rgbToHex(oklabToRgb(oklchToOklab(clampChroma(lch))));
+}
 
-  const hsl1 = { ...hsl, h: (hsl.h - spread + 360) % 360 };
-  const hsl2 = { ...hsl, h: (hsl.h + spread) % 360 };
+/**
+ * Lighten a color by an amount of OKLCH lightness (0-100), keeping hue and chroma
+ */
+export function lightenOklch(color: string, amount: number): string {
+  return adjustOklch(color, (lch) => ({ ...lch, l: Math.min(1, lch.l + amount / 100) }));
+}
 
-  return [rgbToHex(hslToRgb(hsl1)), hex, rgbToHex(hslToRgb(hsl2))];
+/**
+ * Darken a color by an amount of OKLCH lightness (0-100), keeping hue and chroma
+ */
+export function darkenOklch(color: string, amount: number): string {
+  return adjustOklch(color, (lch) => ({ ...lch, l: Math.max(0, lch.l - amount / 100) }));
 }
 
 /**
- * Generate triadic colors
+ * Scale OKLCH chroma by a percentage (-100 removes all color), keeping lightness and hue
+ */
+export function saturateOklch(color: string, amount: number): string {
+  return adjustOklch(color, (lch) => ({ ...lch, c: lch.c * Math.max(0, 1 + amount / 100) }));
+}
+
+/**
+ * Mix two colors in OKLab (weight: percentage of the second color)
  */
-export function triadic(hex: string): [string, string, string] {
-  const rgb = hexToRgb(hex);
-  if (!rgb) return [hex, hex, hex];
+export function mixOklab(color1: string, color2: string, weight = 50): string {
+  const rgb1 = parseColor(color1);
+  const rgb2 = parseColor(color2);
+
+  if (!rgb1 || !rgb2) return color1;
+
+  const lab1 = rgbToOklab(rgb1);
+  const lab2 = rgbToOklab(rgb2);
+  const w = weight / 100;
 
-  const hsl = rgbToHsl(rgb);
+  return rgbToHex({
+    ...oklabToRgb({
+      l: lab1.l * (1 - w) + lab2.l * w,
+      a: lab1.a * (1 - w) + lab2.a * w,
+      b: lab1.b * (1 - w) + lab2.b * w,
+    }),
+    alpha: rgb1.alpha * (1 - w) + rgb2.alpha * w,
+  });
+}
 
-  const hsl1 = { ...hsl, h: (hsl.h + 120) % 360 };
-  const hsl2 = { ...hsl, h: (hsl.h + 240) % 360 };
+/**
+ * Apply an HSL adjustment, keeping the color's alpha; unparseable colors are returned as-is
+ */
+function adjustHsl(color: string, adjust: (hsl: HSL) => HSL): string {
+  const rgba = parseColor(color);
+  if (!rgba) return color;
+
+  return rgbToHex({ ...hslToRgb(adjust(rgbToHsl(rgba))), alpha: rgba.alpha });
+}
+
+/**
+ * Apply an OKLCH adjustment, keeping the color's alpha; unparseable colors are returned as-is
+ */
+function adjustOklch(color: string, adjust: (lch: OKLCH) => OKLCH): string {
+  const rgba = parseColor(color);
+  if (!rgba) return color;
 
-  return [hex, rgbToHex(hslToRgb(hsl1)), rgbToHex(hslToRgb(hsl2))];
+  const lch = oklabToOklch(rgbToOklab(rgba));
+  return rgbToHex({ ...oklabToRgb(oklchToOklab(clampChroma(adjust(lch)))), alpha: rgba.alpha });
 }
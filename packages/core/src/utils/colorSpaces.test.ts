@@ -0,0 +1,148 @@
+import { describe, expect, it } from 'vitest';
+import {
+  darkenOklch,
+  hexToOklch,
+  hexToRgb,
+  lightenOklch,
+  mixOklab,
+  oklchToHex,
+  saturateOklch,
+} from './color';
+import {
+  clampChroma,
+  deltaE2000,
+  formatOklch,
+  isInSRGBGamut,
+  labToLch,
+  labToRgb,
+  lchToLab,
+  oklabToRgb,
+  oklchToOklab,
+  rgbToLab,
+  rgbToOklab,
+} from './colorSpaces';
+
+describe('OKLab', () => {
+  it('converts reference colors', () => {
+    const white = rgbToOklab({ r: 255, g: 255, b: 255 });
+    expect(white.l).toBeCloseTo(1, 4);
+    expect(white.a).toBeCloseTo(0, 4);
+    expect(white.b).toBeCloseTo(0, 4);
+
+    const red = hexToOklch('#ff0000')!;
+    expect(red.l).toBeCloseTo(0.628, 3);
+    expect(red.c).toBeCloseTo(0.2577, 3);
+    expect(red.h).toBeCloseTo(29.23, 1);
+  });
+
+  it('round-trips hex through OKLab and OKLCH', () => {
+    for (const hex of ['#6366f1', '#f59e0b', '#000000', '#ffffff', '#1f2937']) {
+      const rgb = oklabToRgb(rgbToOklab(hexToRgb(hex)!));
+      expect(Math.round(rgb.r)).toBe(hexToRgb(hex)!.r);
+      expect(oklchToHex(hexToOklch(hex)!)).toBe(hex);
+    }
+  });
+});
+
+describe('clampChroma', () => {
+  it('reduces chroma of out-of-gamut colors, keeping lightness and hue', () => {
+    const color = { l: 0.9, c: 0.3, h: 264 };
+    expect(isInSRGBGamut(oklchToOklab(color))).toBe(false);
+
+    const clamped = clampChroma(color);
+    expect(isInSRGBGamut(oklchToOklab(clamped))).toBe(true);
+    expect(clamped.c).toBeLessThan(0.3);
+    expect(clamped.c).toBeGreaterThan(0);
+    expect(clamped.l).toBe(0.9);
+    expect(clamped.h).toBe(264);
+  });
+
+  it('leaves in-gamut colors unchanged', () => {
+    const color = hexToOklch('#6366f1')!;
+    expect(clampChroma(color)).toEqual(color);
+  });
+});
+
+describe('CIELAB', () => {
+  it('converts reference colors (D50, as CSS lab())', () => {
+    const white = rgbToLab({ r: 255, g: 255, b: 255 });
+    expect(white.l).toBeCloseTo(100, 2);
+    expect(white.a).toBeCloseTo(0, 2);
+    expect(white.b).toBeCloseTo(0, 2);
+
+    const red = rgbToLab({ r: 255, g: 0, b: 0 });
+    expect(red.l).toBeCloseTo(54.29, 1);
+    expect(red.a).toBeCloseTo(80.8, 0);
+    expect(red.b).toBeCloseTo(69.89, 0);
+  });
+
+  it('round-trips RGB through LAB and LCH', () => {
+    const rgb = { r: 99, g: 102, b: 241 };
+    const result = labToRgb(lchToLab(labToLch(rgbToLab(rgb))));
+
+    expect(result.r).toBeCloseTo(rgb.r, 3);
+    expect(result.g).toBeCloseTo(rgb.g, 3);
+    expect(result.b).toBeCloseTo(rgb.b, 3);
+  });
+});
+
+describe('deltaE2000', () => {
+  it('matches the Sharma et al. reference data', () => {
+    expect(deltaE2000({ l: 50, a: 2.6772, b: -79.7751 }, { l: 50, a: 0, b: -82.7485 })).toBeCloseTo(
+      2.0425,
+      4
+    );
+    expect(deltaE2000({ l: 50, a: 2.5, b: 0 }, { l: 73, a: 25, b: -18 })).toBeCloseTo(27.1492, 4);
+    expect(
+      deltaE2000({ l: 2.0776, a: 0.0795, b: -1.135 }, { l: 0.9033, a: -0.0636, b: -0.5514 })
+    ).toBeCloseTo(0.9082, 4);
+  });
+
+  it('is 0 for identical colors', () => {
+    expect(deltaE2000({ l: 60, a: 10, b: -20 }, { l: 60, a: 10, b: -20 })).toBe(0);
+  });
+});
+
+describe('formatOklch', () => {
+  it('formats a CSS oklch() string', () => {
+    expect(formatOklch(hexToOklch('#ff0000')!)).toBe('oklch(62.8% 0.2577 29.23)');
+  });
+});
+
+describe('perceptual adjustments', () => {
+  it('lightens and darkens in OKLCH lightness, keeping hue', () => {
+    const base = hexToOklch('#6366f1')!;
+    const lighter = hexToOklch(lightenOklch('#6366f1', 10))!;
+    const darker = hexToOklch(darkenOklch('#6366f1', 10))!;
+
+    expect(lighter.l).toBeCloseTo(base.l + 0.1, 2);
+    expect(darker.l).toBeCloseTo(base.l - 0.1, 2);
+    expect(Math.abs(darker.h - base.h)).toBeLessThan(1);
+  });
+
+  it('scales chroma with saturateOklch', () => {
+    expect(hexToOklch(saturateOklch('#6366f1', -100))!.c).toBeLessThan(0.005);
+    expect(hexToOklch(saturateOklch('#6366f1', -50))!.c).toBeCloseTo(
+      hexToOklch('#6366f1')!.c / 2,
+      2
+    );
+  });
+
+  it('mixes in OKLab', () => {
+    expect(mixOklab('#000000', '#ffffff', 0)).toBe('#000000');
+    expect(mixOklab('#000000', '#ffffff', 100)).toBe('#ffffff');
+    // Perceptual midpoint of black and white is lighter than the sRGB average (#808080)
+    expect(hexToOklch(mixOklab('#000000', '#ffffff'))!.l).toBeCloseTo(0.5, 2);
+    expect(mixOklab('#000000', '#ffffff')).not.toBe('#808080');
+  });
+
+  it('accepts any CSS color and keeps alpha', () => {
+    expect(mixOklab('black', 'rgb(255 255 255)')).toBe(mixOklab('#000000', '#ffffff'));
+    expect(lightenOklch('rgb(0 0 0 / 50%)', 10)).toMatch(/^#[0-9a-f]{6}80$/);
+  });
+
+  it('returns the input for unparseable colors', () => {
+    expect(lightenOklch('currentColor', 10)).toBe('currentColor');
+    expect(mixOklab('var(--brand)', '#ffffff')).toBe('var(--brand)');
+  });
+});
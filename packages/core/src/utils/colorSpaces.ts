@@ -0,0 +1,334 @@
+import type { RGB } from './color';
+
+/**
+ * OKLab color (l: 0-1, a/b: roughly -0.4 to 0.4)
+ */
+export interface OKLab {
+  l: number;
+  a: number;
+  b: number;
+}
+
+/**
+ * OKLCH color (l: 0-1, c: chroma, roughly 0-0.4, h: hue in degrees)
+ */
+export interface OKLCH {
+  l: number;
+  c: number;
+  h: number;
+}
+
+/**
+ * CIELAB color (D50, as in CSS lab(); l: 0-100)
+ */
+export interface LAB {
+  l: number;
+  a: number;
+  b: number;
+}
+
+/**
+ * CIE LCh color (D50, as in CSS lch(); l: 0-100, h in degrees)
+ */
+export interface LCH {
+  l: number;
+  c: number;
+  h: number;
+}
+
+/**
+ * CIE XYZ tristimulus values (Y of white = 1)
+ */
+export type XYZ = [number, number, number];
+
+const LINEAR_SRGB_TO_XYZ = [
+  [0.41239079926595934, 0.357584339383878, 0.1804807884018343],
+  [0.21263900587151027, 0.715168678767756, 0.07219231536073371],
+  [0.01933081871559182, 0.11919477979462598, 0.9505321522496607],
+];
+const XYZ_TO_LINEAR_SRGB = [
+  [3.2409699419045226, -1.537383177570094, -0.4986107602930034],
+  [-0.9692436362808796, 1.8759675015077202, 0.04155505740717559],
+  [0.05563007969699366, -0.20397695888897652, 1.0569715142428786],
+];
+const LINEAR_P3_TO_XYZ = [
+  [0.4865709486482162, 0.26566769316909306, 0.1982172852343625],
+  [0.2289745640697488, 0.6917385218365064, 0.079286914093745],
+  [0, 0.04511338185890264, 1.043944368900976],
+];
+/** Bradford chromatic adaptation between D65 and D50 */
+const D65_TO_D50 = [
+  [1.0479298208405488, 0.022946793341019088, -0.05019222954313557],
+  [0.029627815688159344, 0.990434484573249, -0.01707382502938514],
+  [-0.009243058152591178, 0.015055144896577895, 0.7518742899580008],
+];
+const D50_TO_D65 = [
+  [0.9554734527042182, -0.023098536874261423, 0.0632593086610217],
+  [-0.028369706963208136, 1.0099954580058226, 0.021041398966943008],
+  [0.012314001688319899, -0.020507696433477912, 1.3303659366080753],
+];
+
+/** D50 reference white */
+const D50 = [0.3457 / 0.3585, 1, (1 - 0.3457 - 0.3585) / 0.3585];
+const LAB_EPSILON = 216 / 24389;
+const LAB_KAPPA = 24389 / 27;
+
+/**
+ * Convert RGB (0-255) to OKLab
+ */
+export function rgbToOklab(rgb: RGB): OKLab {
+  const r = toLinear(rgb.r / 255);
+  const g = toLinear(rgb.g / 255);
+  const b = toLinear(rgb.b / 255);
+
+  const l = Math.cbrt(0.4122214708 * r + 0.5363325363 * g + 0.0514459929 * b);
+  const m = Math.cbrt(0.2119034982 * r + 0.6806995451 * g + 0.1073969566 * b);
+  const s = Math.cbrt(0.0883024619 * r + 0.2817188376 * g + 0.6299787005 * b);
+
+  return {
+    l: 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+  };
+}
+
+/**
+ * Convert OKLab to RGB (0-255). Channels are not clamped, so out-of-gamut colors fall outside 0-255.
+ */
+export function oklabToRgb(lab: OKLab): RGB {
+  const l = (lab.l + 0.3963377774 * lab.a + 0.2158037573 * lab.b) ** 3;
+  const m = (lab.l - 0.1055613458 * lab.a - 0.0638541728 * lab.b) ** 3;
+  const s = (lab.l - 0.0894841775 * lab.a - 1.291485548 * lab.b) ** 3;
+
+  return {
+    r: fromLinear(4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s) * 255,
+    g: fromLinear(-1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s) * 255,
+    b: fromLinear(-0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s) * 255,
+  };
+}
+
+/**
+ * Convert OKLab to OKLCH
+ */
+export function oklabToOklch(lab: OKLab): OKLCH {
+  const { c, h } = toPolar(lab.a, lab.b);
+  return { l: lab.l, c, h };
+}
+
+/**
+ * Convert OKLCH to OKLab
+ */
+export function oklchToOklab(lch: OKLCH): OKLab {
+  const radians = (lch.h * Math.PI) / 180;
+  return { l: lch.l, a: lch.c * Math.cos(radians), b: lch.c * Math.sin(radians) };
+}
+
+/**
+ * Convert RGB (0-255) to CIELAB (D50)
+ */
+export function rgbToLab(rgb: RGB): LAB {
+  const linear = [rgb.r, rgb.g, rgb.b].map((channel) => toLinear(channel / 255));
+  // linear sRGB -> XYZ (D65) -> XYZ (D50, Bradford)
+  const xyz = multiply(D65_TO_D50, multiply(LINEAR_SRGB_TO_XYZ, linear));
+
+  const [fx, fy, fz] = xyz.map((value, i) => {
+    const t = value / D50[i];
+    return t > LAB_EPSILON ? Math.cbrt(t) : (LAB_KAPPA * t + 16) / 116;
+  });
+
+  return { l: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+}
+
+/**
+ * Convert CIELAB (D50) to RGB (0-255). Channels are not clamped.
+ */
+export function labToRgb(lab: LAB): RGB {
+  const fy = (lab.l + 16) / 116;
+  const fx = lab.a / 500 + fy;
+  const fz = fy - lab.b / 200;
+
+  const xyz = [
+    fx ** 3 > LAB_EPSILON ? fx ** 3 : (116 * fx - 16) / LAB_KAPPA,
+    lab.l > LAB_KAPPA * LAB_EPSILON ? fy ** 3 : lab.l / LAB_KAPPA,
+    fz ** 3 > LAB_EPSILON ? fz ** 3 : (116 * fz - 16) / LAB_KAPPA,
+  ].map((value, i) => value * D50[i]) as XYZ;
+
+  return xyzToRgb(xyz, 'D50');
+}
+
+/**
+ * Convert CIELAB to LCh
+ */
+export function labToLch(lab: LAB): LCH {
+  const { c, h } = toPolar(lab.a, lab.b);
+  return { l: lab.l, c, h };
+}
+
+/**
+ * Convert LCh to CIELAB
+ */
+export function lchToLab(lch: LCH): LAB {
+  const radians = (lch.h * Math.PI) / 180;
+  return { l: lch.l, a: lch.c * Math.cos(radians), b: lch.c * Math.sin(radians) };
+}
+
+/**
+ * Convert CIE XYZ (D65 or D50 white) to RGB (0-255). Channels are not clamped.
+ */
+export function xyzToRgb(xyz: XYZ, white: 'D65' | 'D50' = 'D65'): RGB {
+  const d65 = white === 'D50' ? multiply(D50_TO_D65, xyz) : xyz;
+  const [r, g, b] = multiply(XYZ_TO_LINEAR_SRGB, d65);
+  return linearSrgbToRgb(r, g, b);
+}
+
+/**
+ * Convert RGB (0-255) to linear-light sRGB channels (0-1)
+ */
+export function rgbToLinearSrgb(rgb: RGB): [number, number, number] {
+  return [toLinear(rgb.r / 255), toLinear(rgb.g / 255), toLinear(rgb.b / 255)];
+}
+
+/**
+ * Convert linear-light sRGB channels (0-1) to RGB (0-255). Channels are not clamped.
+ */
+export function linearSrgbToRgb(r: number, g: number, b: number): RGB {
+  return { r: fromLinear(r) * 255, g: fromLinear(g) * 255, b: fromLinear(b) * 255 };
+}
+
+/**
+ * Convert Display P3 channels (0-1) to RGB (0-255). Wide-gamut colors fall outside 0-255.
+ */
+export function displayP3ToRgb(r: number, g: number, b: number): RGB {
+  // Display P3 uses the sRGB transfer function
+  return xyzToRgb(multiply(LINEAR_P3_TO_XYZ, [r, g, b].map(toLinear)) as XYZ);
+}
+
+/**
+ * Check if an OKLab color can be shown in sRGB
+ */
+export function isInSRGBGamut(lab: OKLab): boolean {
+  const rgb = oklabToRgb(lab);
+  return [rgb.r, rgb.g, rgb.b].every((channel) => channel >= -0.5 && channel <= 255.5);
+}
+
+/**
+ * Map an OKLCH color into sRGB by reducing chroma, keeping lightness and hue
+ */
+export function clampChroma(lch: OKLCH): OKLCH {
+  const l = Math.min(1, Math.max(0, lch.l));
+  if (isInSRGBGamut(oklchToOklab({ ...lch, l }))) return { ...lch, l };
+
+  // Binary search for the highest chroma still inside the gamut
+  let low = 0;
+  let high = lch.c;
+  for (let i = 0; i < 20; i++) {
+    const c = (low + high) / 2;
+    if (isInSRGBGamut(oklchToOklab({ l, c, h: lch.h }))) {
+      low = c;
+    } else {
+      high = c;
+    }
+  }
+
+  return { l, c: low, h: lch.h };
+}
+
+/**
+ * CIEDE2000 color difference between two CIELAB colors (about 2.3 is just noticeable)
+ */
+export function deltaE2000(lab1: LAB, lab2: LAB): number {
+  const c1 = Math.hypot(lab1.a, lab1.b);
+  const c2 = Math.hypot(lab2.a, lab2.b);
+  const cMean7 = ((c1 + c2) / 2) ** 7;
+  const g = 0.5 * (1 - Math.sqrt(cMean7 / (cMean7 + 25 ** 7)));
+
+  const a1 = lab1.a * (1 + g);
+  const a2 = lab2.a * (1 + g);
+  const cp1 = Math.hypot(a1, lab1.b);
+  const cp2 = Math.hypot(a2, lab2.b);
+  const hp1 = cp1 === 0 ? 0 : toDegrees(Math.atan2(lab1.b, a1));
+  const hp2 = cp2 === 0 ? 0 : toDegrees(Math.atan2(lab2.b, a2));
+
+  const deltaL = lab2.l - lab1.l;
+  const deltaC = cp2 - cp1;
+  let deltaH = 0;
+  if (cp1 * cp2 !== 0) {
+    const diff = hp2 - hp1;
+    deltaH = diff > 180 ? diff - 360 : diff < -180 ? diff + 360 : diff;
+  }
+  const deltaHp = 2 * Math.sqrt(cp1 * cp2) * Math.sin(toRadians(deltaH / 2));
+
+  const lMean = (lab1.l + lab2.l) / 2;
+  const cpMean = (cp1 + cp2) / 2;
+  let hpMean = hp1 + hp2;
+  if (cp1 * cp2 !== 0) {
+    hpMean =
+      Math.abs(hp1 - hp2) > 180 ? (hp1 + hp2 + (hp1 + hp2 < 360 ? 360 : -360)) / 2 : hpMean / 2;
+  }
+
+  const t =
+    1 -
+    0.17 * Math.cos(toRadians(hpMean - 30)) +
+    0.24 * Math.cos(toRadians(2 * hpMean)) +
+    0.32 * Math.cos(toRadians(3 * hpMean + 6)) -
+    0.2 * Math.cos(toRadians(4 * hpMean - 63));
+  const sl = 1 + (0.015 * (lMean - 50) ** 2) / Math.sqrt(20 + (lMean - 50) ** 2);
+  const sc = 1 + 0.045 * cpMean;
+  const sh = 1 + 0.015 * cpMean * t;
+  const cpMean7 = cpMean ** 7;
+  const rt =
+    -2 *
+    Math.sqrt(cpMean7 / (cpMean7 + 25 ** 7)) *
+    Math.sin(toRadians(60 * Math.exp(-(((hpMean - 275) / 25) ** 2))));
+
+  return Math.sqrt(
+    (deltaL / sl) ** 2 +
+      (deltaC / sc) ** 2 +
+      (deltaHp / sh) ** 2 +
+      rt * (deltaC / sc) * (deltaHp / sh)
+  );
+}
+
+/**
+ * Format OKLCH as a CSS oklch() string, e.g. "oklch(62.8% 0.2577 29.23)"
+ */
+export function formatOklch(lch: OKLCH): string {
+  return `oklch(${round(lch.l * 100, 2)}% ${round(lch.c, 4)} ${round(lch.h, 2)})`;
+}
+
+function toPolar(a: number, b: number): { c: number; h: number } {
+  const c = Math.sqrt(a * a + b * b);
+  // Hue is meaningless for grays; pin it to 0 so results are stable
+  const h = c < 1e-4 ? 0 : (Math.atan2(b, a) * 180) / Math.PI;
+  return { c, h: h < 0 ? h + 360 : h };
+}
+
+function multiply(matrix: number[][], vector: number[]): number[] {
+  return matrix.map((row) => row.reduce((sum, value, i) => sum + value * vector[i], 0));
+}
+
+function toDegrees(radians: number): number {
+  const degrees = (radians * 180) / Math.PI;
+  return degrees < 0 ? degrees + 360 : degrees;
+}
+
+function toRadians(degrees: number): number {
+  return (degrees * Math.PI) / 180;
+}
+
+function round(value: number, digits: number): number {
+  const factor = 10 ** digits;
+  return Math.round(value * factor) / factor;
+}
+
+function toLinear(channel: number): number {
+  const sign = channel < 0 ? -1 : 1;
+  const abs = Math.abs(channel);
+  return sign * (abs <= 0.04045 ? abs / 12.92 : ((abs + 0.055) / 1.055) ** 2.4);
+}
+
+function fromLinear(channel: number): number {
+  const sign = channel < 0 ? -1 : 1;
+  const abs = Math.abs(channel);
+  return sign * (abs <= 0.0031308 ? abs * 12.92 : 1.055 * abs ** (1 / 2.4) - 0.055);
+}
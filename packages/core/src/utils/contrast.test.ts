@@ -6,7 +6,9 @@ import {
   suggestTextColor,
   formatContrastRatio,
   generateContrastReport,
+  findAccessibleColor,
 } from './contrast';
+import { getApcaContrast } from './apca';
 
 describe('getContrastRatio', () => {
   it('returns 21 for maximum contrast (black on white)', () => {
@@ -21,6 +23,22 @@ describe('getContrastRatio', () => {
   it('is symmetric', () => {
     expect(getContrastRatio('#000000', '#ffffff')).toBe(getContrastRatio('#ffffff', '#000000'));
   });
+
+  it('accepts non-hex CSS colors', () => {
+    expect(getContrastRatio('rgb(30, 41, 59)', 'white')).toBeCloseTo(
+      getContrastRatio('#1e293b', '#ffffff'),
+      5
+    );
+    expect(getContrastRatio('slateblue', 'hsl(0 0% 100%)')).toBeGreaterThan(1);
+  });
+
+  it('composites translucent foregrounds over the background', () => {
+    expect(getContrastRatio('rgb(0 0 0 / 0)', '#6366f1')).toBe(1);
+    expect(getContrastRatio('rgb(0 0 0 / 50%)', '#ffffff')).toBeCloseTo(
+      getContrastRatio('#808080', '#ffffff'),
+      1
+    );
+  });
 });
 
 describe('meetsContrastRequirement', () => {
@@ -44,6 +62,29 @@ describe('getContrastLevel', () => {
   });
 });
 
+describe('findAccessibleColor', () => {
+  it('reaches the WCAG target by default', () => {
+    const color = findAccessibleColor('#cccccc', '#ffffff');
+    expect(getContrastRatio(color, '#ffffff')).toBeGreaterThanOrEqual(4.5);
+  });
+
+  it('reaches the APCA threshold for the text style', () => {
+    const color = findAccessibleColor('#888888', '#111827', undefined, {
+      algorithm: 'apca',
+      fontSize: 24,
+    });
+    expect(Math.abs(getApcaContrast(color, '#111827'))).toBeGreaterThanOrEqual(60);
+  });
+
+  it('limits the steps with maxIterations and keeps the positional form working', () => {
+    expect(findAccessibleColor('#cccccc', '#ffffff', 4.5, { maxIterations: 0 })).toBe('#cccccc');
+    expect(findAccessibleColor('#cccccc', '#ffffff', 4.5, 0)).toBe('#cccccc');
+    expect(
+      findAccessibleColor('#888888', '#111827', undefined, 20, { algorithm: 'apca', fontSize: 24 })
+    ).toBe(findAccessibleColor('#888888', '#111827', undefined, { algorithm: 'apca', fontSize: 24 }));
+  });
+});
+
 describe('suggestTextColor', () => {
   it('suggests dark text on light background', () => {
     expect(suggestTextColor('#ffffff')).toBe('#1f2937');
@@ -97,4 +138,20 @@ describe('generateContrastReport', () => {
     );
     expect(report).toHaveLength(1);
   });
+
+  it('uses APCA thresholds when requested', () => {
+    const colors = { textSecondary: '#888888', background: '#ffffff' };
+    const [body] = generateContrastReport(colors, ['textSecondary'], ['background'], 'AA', {
+      algorithm: 'apca',
+    });
+    const [heading] = generateContrastReport(colors, ['textSecondary'], ['background'], 'AA', {
+      algorithm: 'apca',
+      fontSize: '2rem',
+      fontWeight: 700,
+    });
+
+    expect(body.apca).toMatchObject({ polarity: 'dark-on-light', threshold: 90 });
+    expect(body.passes).toBe(false);
+    expect(heading.passes).toBe(true);
+  });
 });
@@ -1,10 +1,30 @@
-import { getLuminance, lighten, darken, isLight } from './color';
+import { getLuminance, lighten, darken, isLight, flatten } from './color';
+import {
+  type ApcaResult,
+  type ApcaTextStyle,
+  evaluateApca,
+  getApcaContrast,
+  getApcaThreshold,
+} from './apca';
 
 /**
  * WCAG contrast ratio levels
  */
 export type ContrastLevel = 'AA' | 'AAA' | 'AA-large' | 'fail';
 
+/**
+ * Contrast algorithm: WCAG 2.x luminance ratio or APCA lightness contrast (Lc)
+ */
+export type ContrastAlgorithm = 'wcag2' | 'apca';
+
+/**
+ * Options for algorithm-aware contrast helpers.
+ * With 'apca', the text style (see ApcaTextStyle) picks the required Lc.
+ */
+export interface ContrastOptions extends ApcaTextStyle {
+  algorithm?: ContrastAlgorithm;
+}
+
 /**
  * WCAG contrast requirements
  */
@@ -16,11 +36,13 @@ const WCAG_REQUIREMENTS = {
 
 /**
  * Calculate contrast ratio between two colors
- * Returns a value between 1 and 21
+ * Returns a value between 1 and 21. Accepts any CSS color; a translucent foreground is
+ * composited over the background (and a translucent background over white).
  */
 export function getContrastRatio(foreground: string, background: string): number {
-  const lum1 = getLuminance(foreground);
-  const lum2 = getLuminance(background);
+  const opaqueBackground = flatten(background);
+  const lum1 = getLuminance(flatten(foreground, opaqueBackground));
+  const lum2 = getLuminance(opaqueBackground);
 
   const lighter = Math.max(lum1, lum2);
   const darker = Math.min(lum1, lum2);
@@ -53,26 +75,62 @@ export function getContrastLevel(foreground: string, background: string): Contra
 }
 
 /**
- * Find a color that meets contrast requirements against a background
+ * Options for findAccessibleColor()
+ */
+export interface AccessibleColorOptions extends ContrastOptions {
+  /** Maximum number of 5% lightness steps (default: 20) */
+  maxIterations?: number;
+}
+
+/**
+ * Find a color that meets contrast requirements against a background.
+ * With algorithm 'apca', targetRatio is the required |Lc| and defaults to the threshold for the
+ * text style in options.
+ */
+export function findAccessibleColor(
+  startColor: string,
+  background: string,
+  targetRatio?: number,
+  options?: AccessibleColorOptions
+): string;
+/**
+ * @deprecated Pass maxIterations in the options object instead
  */
 export function findAccessibleColor(
   startColor: string,
   background: string,
-  targetRatio = WCAG_REQUIREMENTS['AA'],
-  maxIterations = 20
+  targetRatio: number | undefined,
+  maxIterations: number,
+  options?: ContrastOptions
+): string;
+export function findAccessibleColor(
+  startColor: string,
+  background: string,
+  targetRatio?: number,
+  optionsOrMaxIterations: AccessibleColorOptions | number = {},
+  legacyOptions: ContrastOptions = {}
 ): string {
+  const { maxIterations = 20, ...options } =
+    typeof optionsOrMaxIterations === 'number'
+      ? { ...legacyOptions, maxIterations: optionsOrMaxIterations }
+      : optionsOrMaxIterations;
+  const apca = options.algorithm === 'apca';
+  const target = targetRatio ?? (apca ? getApcaThreshold(options) : WCAG_REQUIREMENTS['AA']);
+  const measure = (value: string) =>
+    apca ? Math.abs(getApcaContrast(value, background)) : getContrastRatio(value, background);
+
   let color = startColor;
-  let ratio = getContrastRatio(color, background);
+  let ratio = measure(color);
 
-  if (ratio >= targetRatio) return color;
+  if (ratio >= target) return color;
 
   // Determine if we need to lighten or darken
   const backgroundIsLight = isLight(background);
   const adjust = backgroundIsLight ? darken : lighten;
 
-  for (let i = 0; i < maxIterations && ratio < targetRatio; i++) {
+  for (let i = 0; i < maxIterations && ratio < target; i++) {
     color = adjust(color, 5);
-    ratio = getContrastRatio(color, background);
+    ratio = measure(color);
   }
 
   return color;
@@ -99,14 +157,18 @@ export interface ContrastReport {
   names: [string, string];
   ratio: number;
   level: ContrastLevel;
+  /** Whether the pair meets the requirement of the chosen algorithm */
   passes: boolean;
+  /** APCA result, present when the report uses the 'apca' algorithm */
+  apca?: ApcaResult;
 }
 
 export function generateContrastReport(
   colors: Record<string, string>,
   textKeys: string[],
   backgroundKeys: string[],
-  requiredLevel: keyof typeof WCAG_REQUIREMENTS = 'AA'
+  requiredLevel: keyof typeof WCAG_REQUIREMENTS = 'AA',
+  options: ContrastOptions = {}
 ): ContrastReport[] {
   const reports: ContrastReport[] = [];
 
@@ -119,13 +181,16 @@ export function generateContrastReport(
 
       const ratio = getContrastRatio(textColor, bgColor);
       const level = getContrastLevel(textColor, bgColor);
+      const apca =
+        options.algorithm === 'apca' ? evaluateApca(textColor, bgColor, options) : undefined;
 
       reports.push({
         pair: [textColor, bgColor],
         names: [textKey, bgKey],
         ratio: Math.round(ratio * 100) / 100,
         level,
-        passes: ratio >= WCAG_REQUIREMENTS[requiredLevel],
+        passes: apca ? apca.passes : ratio >= WCAG_REQUIREMENTS[requiredLevel],
+        ...(apca && { apca }),
       });
     }
   }
@@ -0,0 +1,190 @@
+import { describe, expect, it } from 'vitest';
+import { builtinThemes, lightTheme } from '../themes';
+import type { DTCGGroup } from '../types/dtcg';
+import type { Theme } from '../types/theme';
+import { fromDTCG, toDTCG, tokensToDTCG } from './dtcg';
+
+describe('toDTCG', () => {
+  it('exports groups with DTCG $types', () => {
+    const document = toDTCG(lightTheme);
+    const typography = document.typography as Record<string, DTCGGroup>;
+
+    expect((document.colors as DTCGGroup).$type).toBe('color');
+    expect(typography.fontFamily.$type).toBe('fontFamily');
+    expect(typography.fontSize.$type).toBe('dimension');
+    expect(typography.fontWeight.$type).toBe('fontWeight');
+    expect((document.spacing as DTCGGroup).$type).toBe('dimension');
+    expect((document.shadow as DTCGGroup).$type).toBe('shadow');
+    expect((document.transition as DTCGGroup).$type).toBe('duration');
+    expect(document.$extensions).toEqual({ 'themed.js': { id: 'light', name: 'Light' } });
+  });
+
+  it('converts dimensions, durations and shadows to DTCG values', () => {
+    const document = tokensToDTCG(lightTheme.tokens) as Record<string, Record<string, DTCGGroup>>;
+    const typography = document.typography as Record<string, Record<string, DTCGGroup>>;
+
+    expect(typography.fontSize.sm.$value).toEqual({ value: 0.875, unit: 'rem' });
+    expect(typography.fontWeight.bold.$value).toBe(700);
+    expect(document.transition.fast.$value).toEqual({ value: 150, unit: 'ms' });
+    expect(document.shadow.none.$value).toEqual([]);
+    expect(document.shadow.sm.$value).toEqual({
+      color: 'rgb(0 0 0 / 0.05)',
+      offsetX: { value: 0, unit: 'px' },
+      offsetY: { value: 1, unit: 'px' },
+      blur: { value: 2, unit: 'px' },
+      spread: { value: 0, unit: 'px' },
+    });
+    expect(document.shadow.md.$value).toHaveLength(2);
+  });
+
+  it('keeps values without a DTCG equivalent as strings', () => {
+    const document = tokensToDTCG({
+      ...lightTheme.tokens,
+      spacing: { ...lightTheme.tokens.spacing!, md: 'clamp(1rem, 2vw, 2rem)' },
+    }) as Record<string, DTCGGroup>;
+
+    expect((document.spacing.md as DTCGGroup).$value).toBe('clamp(1rem, 2vw, 2rem)');
+  });
+
+  it('exports references as aliases and expressions resolved', () => {
+    const document = tokensToDTCG({
+      ...lightTheme.tokens,
+      colors: {
+        ...lightTheme.tokens.colors,
+        textInverse: '{colors.background}',
+        borderDark: '{colors.border | darken(10)}',
+      },
+    }) as Record<string, Record<string, DTCGGroup>>;
+
+    expect(document.colors.textInverse.$value).toBe('{colors.background}');
+    expect(document.colors.borderDark.$value).toMatch(/^#[0-9a-f]{6}$/);
+    expect(document.colors.borderDark.$extensions).toEqual({
+      'themed.js': { expression: '{colors.border | darken(10)}' },
+    });
+  });
+});
+
+describe('fromDTCG', () => {
+  it.each(builtinThemes.map((theme) => [theme.id, theme] as [string, Theme]))(
+    'round-trips the %s theme losslessly',
+    (_id, theme) => {
+      const json = JSON.parse(JSON.stringify(toDTCG(theme)));
+      const result = fromDTCG(json);
+
+      expect(result.theme).toEqual({
+        id: theme.id,
+        name: theme.name,
+        description: theme.description,
+        tokens: theme.tokens,
+      });
+      expect(result.unmapped).toEqual([]);
+      expect(result.missing).toEqual([]);
+    }
+  );
+
+  it('round-trips references and expressions in reference mode', () => {
+    const tokens = {
+      ...lightTheme.tokens,
+      colors: {
+        ...lightTheme.tokens.colors,
+        textInverse: '{colors.background}',
+        borderDark: '{colors.border | darken(10)}',
+      },
+    };
+    const { theme } = fromDTCG(tokensToDTCG(tokens), { aliases: 'reference' });
+
+    expect(theme.tokens).toEqual(tokens);
+  });
+
+  it('maps common group and token names and resolves aliases', () => {
+    const { theme, unmapped } = fromDTCG({
+      brand: { $type: 'color', indigo: { $value: '#4f46e5' } },
+      color: {
+        primary: { $value: '{brand.indigo}' },
+        'text-primary': { $type: 'color', $value: '#111827' },
+      },
+      fontWeight: { $type: 'fontWeight', bold: { $value: 'semi-bold' } },
+      space: { md: { $type: 'dimension', $value: { value: 12, unit: 'px' } } },
+    });
+
+    expect(theme.tokens?.colors?.primary).toBe('#4f46e5');
+    expect(theme.tokens?.colors?.textPrimary).toBe('#111827');
+    expect(theme.tokens?.typography?.fontWeight?.bold).toBe(600);
+    expect(theme.tokens?.spacing?.md).toBe('12px');
+    expect(theme.tokens?.spacing?.lg).toBe(lightTheme.tokens.spacing!.lg);
+    expect(unmapped).toEqual([{ path: 'brand.indigo', reason: 'No matching theme token' }]);
+  });
+
+  it('converts srgb colors, font family lists and shadow aliases', () => {
+    const { theme } = fromDTCG({
+      colors: {
+        $type: 'color',
+        primary: { $value: { colorSpace: 'srgb', components: [1, 0, 0] } },
+        border: { $value: { colorSpace: 'srgb', components: [0, 0, 0], alpha: 0.5 } },
+      },
+      typography: {
+        fontFamily: { sans: { $type: 'fontFamily', $value: ['Inter Variable', 'sans-serif'] } },
+      },
+      shadow: {
+        lg: {
+          $type: 'shadow',
+          $value: {
+            color: '{colors.border}',
+            offsetX: '0',
+            offsetY: { value: 2, unit: 'px' },
+            blur: { value: 4, unit: 'px' },
+            spread: { value: 0, unit: 'px' },
+            inset: true,
+          },
+        },
+      },
+    });
+
+    expect(theme.tokens?.colors?.primary).toBe('#ff0000');
+    expect(theme.tokens?.colors?.border).toBe('rgb(0 0 0 / 0.5)');
+    expect(theme.tokens?.typography?.fontFamily?.sans).toBe('"Inter Variable", sans-serif');
+    expect(theme.tokens?.shadow?.lg).toBe('inset 0 2px 4px 0 rgb(0 0 0 / 0.5)');
+  });
+
+  it('reports unresolvable aliases and mismatched types', () => {
+    const { unmapped, missing } = fromDTCG({
+      colors: {
+        primary: { $type: 'color', $value: '{brand.missing}' },
+        secondary: { $type: 'color', $value: '{colors.accent}' },
+        accent: { $type: 'color', $value: '{colors.secondary}' },
+        surface: { $type: 'dimension', $value: '4px' },
+      },
+    });
+
+    expect(unmapped).toEqual([
+      { path: 'colors.primary', reason: 'Unknown alias "{brand.missing}"' },
+      {
+        path: 'colors.secondary',
+        reason: 'Circular alias: colors.secondary -> colors.accent -> colors.secondary',
+      },
+      {
+        path: 'colors.accent',
+        reason: 'Circular alias: colors.accent -> colors.secondary -> colors.accent',
+      },
+      { path: 'colors.surface', reason: 'Expected $type "color", got "dimension"' },
+    ]);
+    expect(missing).toContain('colors.primary');
+    expect(missing).toContain('typography.fontSize.base');
+  });
+
+  it('returns only the imported tokens when extending a theme', () => {
+    const { theme, missing } = fromDTCG(
+      { colors: { $type: 'color', primary: { $value: '#14b8a6' } } },
+      { id: 'teal', name: 'Teal', extends: 'dark' }
+    );
+
+    expect(theme).toEqual({
+      id: 'teal',
+      name: 'Teal',
+      extends: 'dark',
+      tokens: { colors: { primary: '#14b8a6' } },
+    });
+    expect(missing).not.toContain('colors.primary');
+    expect(missing).toContain('colors.secondary');
+  });
+});
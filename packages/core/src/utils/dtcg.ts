@@ -0,0 +1,572 @@
+import { lightTheme } from '../themes';
+import type {
+  DTCGGroup,
+  DTCGImportOptions,
+  DTCGImportResult,
+  DTCGToken,
+  DTCGUnmappedToken,
+} from '../types/dtcg';
+import type { Theme, ThemeInput } from '../types/theme';
+import type { PartialThemeTokens, ThemeTokens } from '../types/tokens';
+import {
+  defaultRadiusTokens,
+  defaultShadowTokens,
+  defaultSpacingTokens,
+  defaultTransitionTokens,
+  mergeTokens,
+} from '../types/tokens';
+import { rgbToHex } from './color';
+import { isTokenReference, resolveTokenReferences } from './references';
+
+/**
+ * Key under $extensions where theme metadata and token expressions are stored
+ */
+const EXTENSION = 'themed.js';
+
+/**
+ * DTCG $type of each theme token group
+ */
+const GROUP_TYPES: Record<string, string> = {
+  colors: 'color',
+  'typography.fontFamily': 'fontFamily',
+  'typography.fontSize': 'dimension',
+  'typography.fontWeight': 'fontWeight',
+  'typography.lineHeight': 'number',
+  spacing: 'dimension',
+  radius: 'dimension',
+  shadow: 'shadow',
+  transition: 'duration',
+};
+
+/**
+ * Group names used by design tools, normalized (lower case, no separators)
+ */
+const GROUP_ALIASES: Record<string, string> = {
+  color: 'colors',
+  colors: 'colors',
+  fontfamily: 'typography.fontFamily',
+  fontfamilies: 'typography.fontFamily',
+  fontsize: 'typography.fontSize',
+  fontsizes: 'typography.fontSize',
+  fontweight: 'typography.fontWeight',
+  fontweights: 'typography.fontWeight',
+  lineheight: 'typography.lineHeight',
+  lineheights: 'typography.lineHeight',
+  spacing: 'spacing',
+  space: 'spacing',
+  radius: 'radius',
+  radii: 'radius',
+  borderradius: 'radius',
+  shadow: 'shadow',
+  shadows: 'shadow',
+  boxshadow: 'shadow',
+  transition: 'transition',
+  transitions: 'transition',
+  duration: 'transition',
+  durations: 'transition',
+};
+
+const OPTIONAL_GROUPS = {
+  spacing: defaultSpacingTokens,
+  radius: defaultRadiusTokens,
+  shadow: defaultShadowTokens,
+  transition: defaultTransitionTokens,
+};
+
+const FONT_WEIGHTS: Record<string, number> = {
+  thin: 100,
+  hairline: 100,
+  extralight: 200,
+  ultralight: 200,
+  light: 300,
+  normal: 400,
+  regular: 400,
+  book: 400,
+  medium: 500,
+  semibold: 600,
+  demibold: 600,
+  bold: 700,
+  extrabold: 800,
+  ultrabold: 800,
+  black: 900,
+  heavy: 900,
+  extrablack: 950,
+  ultrablack: 950,
+};
+
+const ALIAS_PATTERN = /^\{([^{}]+)\}$/;
+const DIMENSION_PATTERN = /^(-?\d*\.?\d+)(px|rem)$/;
+const DURATION_PATTERN = /^(-?\d*\.?\d+)(ms|s)$/;
+const NUMBER_PATTERN = /^-?\d*\.?\d+$/;
+
+/**
+ * Normalized "<group>.<key>" -> theme token path, e.g. "colors.textprimary" -> "colors.textPrimary"
+ */
+const TOKEN_PATHS = new Map<string, string>(
+  Object.keys(GROUP_TYPES).flatMap((group) =>
+    Object.keys(getAt(lightTheme.tokens, group) as object).map(
+      (key) => [`${group}.${normalize(key)}`, `${group}.${key}`] as [string, string]
+    )
+  )
+);
+
+/**
+ * Parsers from a (resolved) DTCG $value to a theme token value, by $type; null if unsupported
+ */
+const IMPORTERS: Record<string, (value: unknown) => string | number | null> = {
+  color: importColor,
+  dimension: importDimension,
+  fontFamily: importFontFamily,
+  fontWeight: importFontWeight,
+  number: importNumber,
+  shadow: importShadow,
+  duration: importDuration,
+};
+
+interface CollectedToken {
+  token: DTCGToken;
+  type?: string;
+}
+
+interface ResolvedToken {
+  value: unknown;
+  type?: string;
+}
+
+/**
+ * Convert a theme to a W3C Design Tokens (DTCG) document.
+ * The theme id and name are kept under $extensions["themed.js"] so fromDTCG() can restore them.
+ */
+export function toDTCG(theme: Theme): DTCGGroup {
+  const document: DTCGGroup = {};
+  if (theme.description) document.$description = theme.description;
+  document.$extensions = { [EXTENSION]: { id: theme.id, name: theme.name } };
+  return Object.assign(document, tokensToDTCG(theme.tokens));
+}
+
+/**
+ * Convert theme tokens to DTCG groups with $type set per group.
+ * Plain references become DTCG aliases; expressions are exported resolved,
+ * with the original kept under $extensions["themed.js"].expression.
+ */
+export function tokensToDTCG(tokens: ThemeTokens): DTCGGroup {
+  const resolved = resolveTokenReferences(tokens);
+  const document: DTCGGroup = {};
+
+  for (const [group, type] of Object.entries(GROUP_TYPES)) {
+    const values = getAt(tokens, group) as Record<string, string | number> | undefined;
+    if (!values) continue;
+
+    const node: DTCGGroup = { $type: type };
+    for (const [key, value] of Object.entries(values)) {
+      const path = `${group}.${key}`;
+      node[key] = exportToken(tokens, value, getAt(resolved, path), type);
+    }
+    setAt(document, group, node);
+  }
+
+  return document;
+}
+
+/**
+ * Import a DTCG document as a theme.
+ * Aliases are resolved; tokens without a theme equivalent are reported in `unmapped`.
+ */
+export function fromDTCG(document: DTCGGroup, options: DTCGImportOptions = {}): DTCGImportResult {
+  const collected = new Map<string, CollectedToken>();
+  collectTokens(document, '', undefined, collected);
+
+  const resolve = createAliasResolver(collected);
+  const overrides: Record<string, unknown> = {};
+  const defined = new Set<string>();
+  const unmapped: DTCGUnmappedToken[] = [];
+
+  for (const [path, { token }] of collected) {
+    const tokenPath = mapTokenPath(path);
+    if (!tokenPath) {
+      unmapped.push({ path, reason: 'No matching theme token' });
+      continue;
+    }
+
+    let resolved: ResolvedToken;
+    try {
+      resolved = resolve(path, []);
+    } catch (error) {
+      unmapped.push({ path, reason: (error as Error).message });
+      continue;
+    }
+
+    const group = tokenPath.slice(0, tokenPath.lastIndexOf('.'));
+    const expected = GROUP_TYPES[group];
+    if (resolved.type && resolved.type !== expected && !isCompatibleType(expected, resolved.type)) {
+      unmapped.push({ path, reason: `Expected $type "${expected}", got "${resolved.type}"` });
+      continue;
+    }
+
+    const value =
+      (options.aliases === 'reference' && importReference(token)) ||
+      IMPORTERS[expected](resolved.value);
+    if (value === null) {
+      unmapped.push({ path, reason: `Unsupported ${expected} value` });
+      continue;
+    }
+
+    setAt(overrides, tokenPath, value);
+    defined.add(tokenPath);
+  }
+
+  const meta = getExtension(document);
+  const id = options.id ?? (typeof meta.id === 'string' ? meta.id : 'dtcg');
+  const name = options.name ?? (typeof meta.name === 'string' ? meta.name : id);
+  const description = typeof document.$description === 'string' ? document.$description : undefined;
+
+  let theme: ThemeInput;
+  let shape: ThemeTokens;
+
+  if (options.extends) {
+    shape = options.base ?? lightTheme.tokens;
+    theme = { id, name, extends: options.extends, tokens: overrides as PartialThemeTokens };
+  } else {
+    const base: ThemeTokens = options.base ?? {
+      colors: lightTheme.tokens.colors,
+      typography: lightTheme.tokens.typography,
+    };
+    const tokens = mergeTokens(base, overrides as PartialThemeTokens);
+    // Optional groups present in the document are completed from their defaults
+    for (const [group, defaults] of Object.entries(OPTIONAL_GROUPS)) {
+      const key = group as keyof typeof OPTIONAL_GROUPS;
+      if (tokens[key]) Object.assign(tokens, { [key]: { ...defaults, ...tokens[key] } });
+    }
+    shape = tokens;
+    theme = { id, name, tokens };
+  }
+
+  if (description) theme.description = description;
+
+  const missing = listTokenPaths(shape).filter((path) => !defined.has(path));
+  return { theme, unmapped, missing };
+}
+
+/**
+ * Convert one theme token to a DTCG token
+ */
+function exportToken(
+  tokens: ThemeTokens,
+  value: string | number,
+  resolved: unknown,
+  type: string
+): DTCGToken {
+  if (isTokenReference(value)) {
+    const target = ALIAS_PATTERN.exec(value.trim())![1].trim();
+    const targetValue = getAt(tokens, target);
+    if (typeof targetValue === 'string' || typeof targetValue === 'number') {
+      return { $value: `{${target}}` };
+    }
+    return {
+      $value: exportValue(resolved as string | number, type),
+      $extensions: { [EXTENSION]: { expression: value } },
+    };
+  }
+
+  return { $value: exportValue(value, type) };
+}
+
+/**
+ * Convert a literal token value to its DTCG $value.
+ * Values that would not survive the round trip (e.g. "clamp(...)") are kept as strings.
+ */
+function exportValue(value: string | number, type: string): unknown {
+  if (typeof value !== 'string') return value;
+
+  switch (type) {
+    case 'dimension':
+      return exportDimension(value);
+    case 'duration':
+      return exportUnitValue(value, DURATION_PATTERN);
+    case 'shadow':
+      return exportShadow(value);
+    default:
+      return value;
+  }
+}
+
+function exportDimension(value: string): unknown {
+  return value === '0' ? { value: 0, unit: 'px' } : exportUnitValue(value, DIMENSION_PATTERN);
+}
+
+function exportUnitValue(value: string, pattern: RegExp): unknown {
+  const match = pattern.exec(value);
+  if (!match || `${Number(match[1])}${match[2]}` !== value) return value;
+  return { value: Number(match[1]), unit: match[2] };
+}
+
+function exportShadow(value: string): unknown {
+  if (value === 'none') return [];
+
+  const layers: Record<string, unknown>[] = [];
+  for (const layer of splitTopLevel(value, ',')) {
+    const parts = splitTopLevel(layer, ' ');
+    const inset = parts.includes('inset');
+    const lengths = parts.filter((part) => part === '0' || DIMENSION_PATTERN.test(part));
+    const colors = parts.filter((part) => part !== 'inset' && !lengths.includes(part));
+    if (lengths.length < 2 || lengths.length > 4 || colors.length !== 1) return value;
+
+    const [offsetX, offsetY, blur = '0', spread = '0'] = lengths.map(exportDimension);
+    layers.push({
+      color: colors[0],
+      offsetX,
+      offsetY,
+      blur,
+      spread,
+      ...(inset && { inset: true }),
+    });
+  }
+
+  const shadow = layers.length === 1 ? layers[0] : layers;
+  return importShadow(shadow) === value ? shadow : value;
+}
+
+function importColor(value: unknown): string | null {
+  if (typeof value === 'string') return value;
+  if (!isObject(value)) return null;
+
+  const { colorSpace, components, alpha, hex } = value;
+  const opaque = alpha === undefined || alpha === 1;
+
+  if (
+    colorSpace === 'srgb' &&
+    Array.isArray(components) &&
+    components.length === 3 &&
+    components.every((component) => typeof component === 'number')
+  ) {
+    const [r, g, b] = components.map((component: number) => Math.round(component * 255));
+    return opaque ? rgbToHex({ r, g, b }) : `rgb(${r} ${g} ${b} / ${alpha})`;
+  }
+
+  return opaque && typeof hex === 'string' ? hex : null;
+}
+
+function importDimension(value: unknown): string | null {
+  if (typeof value === 'string') return value;
+  if (value === 0) return '0';
+  if (!isObject(value) || typeof value.value !== 'number' || typeof value.unit !== 'string') {
+    return null;
+  }
+  return value.value === 0 ? '0' : `${value.value}${value.unit}`;
+}
+
+function importDuration(value: unknown): string | null {
+  if (typeof value === 'string') return value;
+  if (!isObject(value) || typeof value.value !== 'number' || typeof value.unit !== 'string') {
+    return null;
+  }
+  return `${value.value}${value.unit}`;
+}
+
+function importFontFamily(value: unknown): string | null {
+  if (typeof value === 'string') return value;
+  if (!Array.isArray(value) || !value.every((name) => typeof name === 'string')) return null;
+  return value.map((name) => (/^[\w-]+$/.test(name) ? name : `"${name}"`)).join(', ');
+}
+
+function importFontWeight(value: unknown): number | null {
+  if (typeof value === 'string') return FONT_WEIGHTS[normalize(value)] ?? importNumber(value);
+  return importNumber(value);
+}
+
+function importNumber(value: unknown): number | null {
+  if (typeof value === 'number') return value;
+  return typeof value === 'string' && NUMBER_PATTERN.test(value) ? Number(value) : null;
+}
+
+function importShadow(value: unknown): string | null {
+  if (typeof value === 'string') return value;
+
+  const layers = Array.isArray(value) ? value : [value];
+  if (layers.length === 0) return 'none';
+
+  const parts: string[] = [];
+  for (const layer of layers) {
+    if (!isObject(layer)) return null;
+
+    const color = importColor(layer.color);
+    const lengths = [layer.offsetX, layer.offsetY, layer.blur ?? 0, layer.spread ?? 0].map(
+      importDimension
+    );
+    if (color === null || lengths.some((length) => length === null)) return null;
+
+    parts.push([...(layer.inset ? ['inset'] : []), ...lengths, color].join(' '));
+  }
+
+  return parts.join(', ');
+}
+
+/**
+ * In 'reference' mode, keep aliases and stored expressions as token references
+ */
+function importReference(token: DTCGToken): string | null {
+  const expression = getExtension(token).expression;
+  if (typeof expression === 'string') return expression;
+
+  const alias = typeof token.$value === 'string' ? ALIAS_PATTERN.exec(token.$value.trim()) : null;
+  const target = alias && mapTokenPath(alias[1].trim());
+  return target ? `{${target}}` : null;
+}
+
+function isCompatibleType(expected: string, actual: string): boolean {
+  return expected === 'fontWeight' && actual === 'number';
+}
+
+/**
+ * Collect every token (object with $value) by dot path, inheriting $type from parent groups
+ */
+function collectTokens(
+  node: DTCGGroup,
+  prefix: string,
+  inheritedType: string | undefined,
+  collected: Map<string, CollectedToken>
+): void {
+  const type = typeof node.$type === 'string' ? node.$type : inheritedType;
+
+  for (const [key, child] of Object.entries(node)) {
+    if (key.startsWith('$') || !isObject(child)) continue;
+
+    const path = prefix ? `${prefix}.${key}` : key;
+    if ('$value' in child) {
+      const token = child as unknown as DTCGToken;
+      collected.set(path, { token, type: typeof token.$type === 'string' ? token.$type : type });
+    } else {
+      collectTokens(child as DTCGGroup, path, type, collected);
+    }
+  }
+}
+
+/**
+ * Create a resolver returning a token's value with all aliases (including nested ones) replaced.
+ * Untyped aliases take the $type of their target. Throws on unknown and circular aliases.
+ */
+function createAliasResolver(collected: Map<string, CollectedToken>) {
+  const cache = new Map<string, ResolvedToken>();
+
+  const resolveValue = (value: unknown, stack: string[]): unknown => {
+    if (typeof value === 'string') {
+      const alias = ALIAS_PATTERN.exec(value.trim());
+      return alias ? resolveToken(alias[1].trim(), stack).value : value;
+    }
+    if (Array.isArray(value)) return value.map((item) => resolveValue(item, stack));
+    if (isObject(value)) {
+      return Object.fromEntries(
+        Object.entries(value).map(([key, item]) => [key, resolveValue(item, stack)])
+      );
+    }
+    return value;
+  };
+
+  const resolveToken = (path: string, stack: string[]): ResolvedToken => {
+    const cached = cache.get(path);
+    if (cached) return cached;
+
+    if (stack.includes(path)) {
+      throw new Error(`Circular alias: ${[...stack, path].join(' -> ')}`);
+    }
+
+    const entry = collected.get(path);
+    if (!entry) {
+      throw new Error(`Unknown alias "{${path}}"`);
+    }
+
+    const { $value } = entry.token;
+    const alias = typeof $value === 'string' ? ALIAS_PATTERN.exec($value.trim()) : null;
+    const value = resolveValue($value, [...stack, path]);
+    const type =
+      entry.type ?? (alias ? resolveToken(alias[1].trim(), [...stack, path]).type : undefined);
+
+    const resolved = { value, type };
+    cache.set(path, resolved);
+    return resolved;
+  };
+
+  return resolveToken;
+}
+
+/**
+ * Map a DTCG token path to a theme token path, e.g. "color.text-primary" -> "colors.textPrimary"
+ */
+function mapTokenPath(path: string): string | null {
+  const segments = path.split('.');
+  if (segments.length === 3 && normalize(segments[0]) === 'typography') segments.shift();
+  if (segments.length !== 2) return null;
+
+  const group = GROUP_ALIASES[normalize(segments[0])];
+  return (group && TOKEN_PATHS.get(`${group}.${normalize(segments[1])}`)) || null;
+}
+
+function listTokenPaths(tokens: ThemeTokens): string[] {
+  return Object.keys(GROUP_TYPES).flatMap((group) => {
+    const values = getAt(tokens, group);
+    return values ? Object.keys(values).map((key) => `${group}.${key}`) : [];
+  });
+}
+
+function getExtension(node: { $extensions?: Record<string, unknown> }): Record<string, unknown> {
+  const extension = node.$extensions?.[EXTENSION];
+  return isObject(extension) ? extension : {};
+}
+
+/**
+ * Split on a separator outside parentheses, e.g. shadow layers or the parts of one layer
+ */
+function splitTopLevel(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let current = '';
+
+  for (const char of value) {
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+
+    if (char === separator && depth === 0) {
+      parts.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+
+  return parts.map((part) => part.trim()).filter(Boolean);
+}
+
+function normalize(key: string): string {
+  return key.toLowerCase().replace(/[-_\s]/g, '');
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function getAt(source: object, path: string): unknown {
+  let current: unknown = source;
+
+  for (const part of path.split('.')) {
+    if (current && typeof current === 'object' && part in current) {
+      current = (current as Record<string, unknown>)[part];
+    } else {
+      return undefined;
+    }
+  }
+
+  return current;
+}
+
+function setAt(target: Record<string, unknown>, path: string, value: unknown): void {
+  const parts = path.split('.');
+  let current = target;
+
+  for (const part of parts.slice(0, -1)) {
+    if (!isObject(current[part])) current[part] = {};
+    current = current[part] as Record<string, unknown>;
+  }
+
+  current[parts[parts.length - 1]] = value;
+}
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { rampSteps } from '../types/tokens';
+import { hexToOklch } from './color';
+import { generateTonalRamp, paletteDistance } from './palette';
+
+describe('generateTonalRamp', () => {
+  it('returns 11 steps from lightest to darkest', () => {
+    const ramp = generateTonalRamp('#6366f1')!;
+    const lightness = rampSteps.map((step) => hexToOklch(ramp[step])!.l);
+
+    expect(Object.keys(ramp)).toHaveLength(11);
+    for (let i = 1; i < lightness.length; i++) {
+      expect(lightness[i]).toBeLessThan(lightness[i - 1]);
+    }
+  });
+
+  it('keeps the same perceptual lightness per step across hues', () => {
+    const ramps = ['#6366f1', '#f59e0b', '#22c55e', '#ef4444'].map(
+      (color) => generateTonalRamp(color)!
+    );
+
+    for (const step of rampSteps) {
+      const lightness = ramps.map((ramp) => hexToOklch(ramp[step])!.l);
+      expect(Math.max(...lightness) - Math.min(...lightness)).toBeLessThan(0.01);
+    }
+  });
+
+  it('keeps the hue of the base color', () => {
+    const base = hexToOklch('#22c55e')!;
+    const step = hexToOklch(generateTonalRamp('#22c55e')![600])!;
+
+    expect(Math.abs(step.h - base.h)).toBeLessThan(3);
+  });
+
+  it('produces a neutral ramp for grays and null for unparseable colors', () => {
+    const ramp = generateTonalRamp('#808080')!;
+
+    expect(hexToOklch(ramp[500])!.c).toBeLessThan(0.005);
+    expect(generateTonalRamp('rebeccapurple')).not.toBeNull();
+    expect(generateTonalRamp('var(--brand)')).toBeNull();
+  });
+});
+
+describe('paletteDistance', () => {
+  it('is 0 for identical palettes and grows with the difference', () => {
+    const ocean = { primary: '#0ea5e9', background: '#f0f9ff' };
+    const nearOcean = { primary: '#0ea5ea', background: '#f0f9fe' };
+    const sunset = { primary: '#f97316', background: '#fff7ed' };
+
+    expect(paletteDistance(ocean, ocean)).toBe(0);
+    expect(paletteDistance(ocean, nearOcean)).toBeLessThan(1);
+    expect(paletteDistance(ocean, sunset)).toBeGreaterThan(20);
+  });
+
+  it('only compares colors both palettes have', () => {
+    const ocean = { primary: '#0ea5e9', accent: '#000000' };
+
+    expect(paletteDistance(ocean, { primary: '#0ea5e9' })).toBe(0);
+    expect(paletteDistance(ocean, { background: '#ffffff' })).toBe(0);
+  });
+});
@@ -0,0 +1,75 @@
+import type { ColorRamp, ColorTokens, RampStep } from '../types/tokens';
+import { rampSteps } from '../types/tokens';
+import { deltaE, hexToOklch, oklchToHex } from './color';
+
+/**
+ * OKLCH lightness of each step; the same for every hue so e.g. primary-100 and error-100
+ * look equally light
+ */
+const RAMP_LIGHTNESS: Record<RampStep, number> = {
+  50: 0.971,
+  100: 0.936,
+  200: 0.885,
+  300: 0.808,
+  400: 0.711,
+  500: 0.637,
+  600: 0.556,
+  700: 0.491,
+  800: 0.426,
+  900: 0.373,
+  950: 0.28,
+};
+
+/**
+ * Share of the base color's chroma kept at each step (tints and shades are less saturated)
+ */
+const RAMP_CHROMA: Record<RampStep, number> = {
+  50: 0.08,
+  100: 0.16,
+  200: 0.3,
+  300: 0.5,
+  400: 0.75,
+  500: 0.92,
+  600: 1,
+  700: 0.95,
+  800: 0.8,
+  900: 0.62,
+  950: 0.42,
+};
+
+/**
+ * Generate an 11-step tonal ramp (50-950) from a color.
+ * Steps have fixed OKLCH lightness and keep the color's hue; chroma is reduced where a step
+ * would fall outside sRGB. Returns null for colors that cannot be parsed.
+ */
+export function generateTonalRamp(color: string): ColorRamp | null {
+  const base = hexToOklch(color);
+  if (!base) return null;
+
+  const ramp = {} as ColorRamp;
+  for (const step of rampSteps) {
+    ramp[step] = oklchToHex({ l: RAMP_LIGHTNESS[step], c: base.c * RAMP_CHROMA[step], h: base.h });
+  }
+
+  return ramp;
+}
+
+/**
+ * Mean perceptual difference (CIEDE2000, see deltaE()) between the colors two palettes share,
+ * e.g. to tell near-identical generated themes apart. Returns 0 when they share no color.
+ */
+export function paletteDistance(
+  colors1: Partial<ColorTokens>,
+  colors2: Partial<ColorTokens>
+): number {
+  const keys = (Object.keys(colors1) as (keyof ColorTokens)[]).filter(
+    (key) => colors1[key] !== undefined && colors2[key] !== undefined
+  );
+  if (keys.length === 0) return 0;
+
+  const total = keys.reduce(
+    (sum, key) => sum + deltaE(colors1[key] as string, colors2[key] as string),
+    0
+  );
+  return total / keys.length;
+}
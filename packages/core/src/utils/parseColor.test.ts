@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { isValidColor, parseColor } from './parseColor';
+
+const rounded = (color: string) => {
+  const rgba = parseColor(color);
+  return (
+    rgba && {
+      r: Math.round(rgba.r),
+      g: Math.round(rgba.g),
+      b: Math.round(rgba.b),
+      alpha: rgba.alpha,
+    }
+  );
+};
+
+describe('parseColor', () => {
+  it('parses hex in all lengths', () => {
+    expect(parseColor('#6366f1')).toEqual({ r: 99, g: 102, b: 241, alpha: 1 });
+    expect(parseColor('#fff')).toEqual({ r: 255, g: 255, b: 255, alpha: 1 });
+    expect(parseColor('#0008')).toEqual({ r: 0, g: 0, b: 0, alpha: 0x88 / 255 });
+    expect(parseColor('#FF000080')!.alpha).toBeCloseTo(0.5, 2);
+  });
+
+  it('parses named colors and transparent', () => {
+    expect(parseColor('slateblue')).toEqual({ r: 106, g: 90, b: 205, alpha: 1 });
+    expect(parseColor('RebeccaPurple')).toEqual({ r: 102, g: 51, b: 153, alpha: 1 });
+    expect(parseColor('transparent')).toEqual({ r: 0, g: 0, b: 0, alpha: 0 });
+  });
+
+  it('parses rgb() in legacy and modern syntax', () => {
+    expect(parseColor('rgb(30, 41, 59)')).toEqual({ r: 30, g: 41, b: 59, alpha: 1 });
+    expect(parseColor('rgba(30, 41, 59, 0.5)')).toEqual({ r: 30, g: 41, b: 59, alpha: 0.5 });
+    expect(parseColor('rgb(30 41 59 / 50%)')).toEqual({ r: 30, g: 41, b: 59, alpha: 0.5 });
+    expect(parseColor('rgb(100% 0% 0%)')).toEqual({ r: 255, g: 0, b: 0, alpha: 1 });
+  });
+
+  it('parses hsl() and hwb() with angle units', () => {
+    expect(rounded('hsla(0, 100%, 50%, 1)')).toEqual({ r: 255, g: 0, b: 0, alpha: 1 });
+    expect(rounded('hsl(0.5turn 100% 50% / 0.25)')).toEqual({ r: 0, g: 255, b: 255, alpha: 0.25 });
+    expect(rounded('hwb(120deg 0% 0%)')).toEqual({ r: 0, g: 255, b: 0, alpha: 1 });
+    expect(rounded('hwb(0 60% 60%)')).toEqual({ r: 128, g: 128, b: 128, alpha: 1 });
+  });
+
+  it('parses lab(), lch(), oklab() and oklch()', () => {
+    expect(rounded('lab(54.29 80.8 69.89)')).toEqual({ r: 255, g: 0, b: 0, alpha: 1 });
+    expect(rounded('lch(54.29% 106.8 40.85)')).toEqual({ r: 255, g: 0, b: 0, alpha: 1 });
+    expect(rounded('oklab(0.628 0.2249 0.1258)')).toEqual({ r: 255, g: 0, b: 0, alpha: 1 });
+    expect(rounded('oklch(62.8% 0.2577 29.23 / 0.5)')).toEqual({ r: 255, g: 0, b: 0, alpha: 0.5 });
+  });
+
+  it('parses color() in predefined spaces and gamut-maps wide-gamut colors', () => {
+    expect(rounded('color(srgb 1 0.5 0)')).toEqual({ r: 255, g: 128, b: 0, alpha: 1 });
+    expect(rounded('color(srgb-linear 1 1 1)')).toEqual({ r: 255, g: 255, b: 255, alpha: 1 });
+
+    const p3 = parseColor('color(display-p3 1 0 0)')!;
+    expect(p3.r).toBe(255);
+    expect(p3.g).toBeGreaterThanOrEqual(0);
+  });
+
+  it('returns null for unsupported or malformed input', () => {
+    expect(parseColor('currentColor')).toBeNull();
+    expect(parseColor('var(--brand)')).toBeNull();
+    expect(parseColor('notacolor')).toBeNull();
+    expect(parseColor('#ggg')).toBeNull();
+    expect(parseColor('rgb(1, 2)')).toBeNull();
+    expect(parseColor('rgb(1 2 3 / 4 / 5)')).toBeNull();
+  });
+});
+
+describe('isValidColor', () => {
+  it('accepts any parseable color', () => {
+    expect(isValidColor('rgb(30 41 59)')).toBe(true);
+    expect(isValidColor('tomato')).toBe(true);
+    expect(isValidColor('hwb(0 0% 0%)')).toBe(true);
+    expect(isValidColor('superblue')).toBe(false);
+  });
+});
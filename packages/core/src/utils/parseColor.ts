@@ -0,0 +1,233 @@
+import type { RGB, RGBA } from './color';
+import {
+  clampChroma,
+  displayP3ToRgb,
+  labToRgb,
+  lchToLab,
+  linearSrgbToRgb,
+  oklabToOklch,
+  oklabToRgb,
+  oklchToOklab,
+  xyzToRgb,
+} from './colorSpaces';
+import { NAMED_COLORS } from './namedColors';
+
+const FUNCTION_PATTERN = /^([a-z-]+)\((.*)\)$/;
+const HEX_PATTERN = /^[0-9a-f]+$/;
+const NUMBER_PATTERN = /^[+-]?(\d+\.?\d*|\.\d+)(e[+-]?\d+)?$/;
+
+/** Degrees per unit of each CSS angle unit */
+const ANGLE_UNITS: Record<string, number> = {
+  deg: 1,
+  grad: 0.9,
+  rad: 180 / Math.PI,
+  turn: 360,
+};
+
+/**
+ * Parse any CSS Color 4 color: hex (3, 4, 6 or 8 digits), named colors, transparent,
+ * rgb()/rgba(), hsl()/hsla(), hwb(), lab(), lch(), oklab(), oklch() and
+ * color(srgb | srgb-linear | display-p3 | xyz | xyz-d65 | xyz-d50 ...), in legacy comma or
+ * modern space syntax with optional alpha.
+ * Returns sRGB channels (0-255, clamped; wide-gamut colors are gamut-mapped) and alpha (0-1),
+ * or null if the color cannot be parsed (e.g. currentColor or var()).
+ */
+export function parseColor(input: string): RGBA | null {
+  const value = input.trim().toLowerCase();
+
+  if (value.startsWith('#')) return parseHex(value.slice(1));
+  if (value === 'transparent') return { r: 0, g: 0, b: 0, alpha: 0 };
+  if (value in NAMED_COLORS) return parseHex(NAMED_COLORS[value]);
+
+  const match = FUNCTION_PATTERN.exec(value);
+  if (!match) return null;
+
+  const name = match[1];
+  const args = splitArguments(match[2], name === 'color' ? 4 : 3);
+  if (!args) return null;
+
+  const alpha = args.alpha === undefined ? 1 : parseComponent(args.alpha, 1);
+  const rgb = parseFunction(name, args.channels);
+  if (!rgb || alpha === null) return null;
+
+  return {
+    r: clampChannel(rgb.r),
+    g: clampChannel(rgb.g),
+    b: clampChannel(rgb.b),
+    alpha: Math.min(1, Math.max(0, alpha)),
+  };
+}
+
+/**
+ * Check if a string is a color parseColor() understands
+ */
+export function isValidColor(input: string): boolean {
+  return parseColor(input) !== null;
+}
+
+function parseHex(hex: string): RGBA | null {
+  if (!HEX_PATTERN.test(hex) || ![3, 4, 6, 8].includes(hex.length)) return null;
+
+  const digits =
+    hex.length <= 4
+      ? hex
+          .split('')
+          .map((digit) => digit + digit)
+          .join('')
+      : hex;
+  const channel = (i: number) => Number.parseInt(digits.slice(i * 2, i * 2 + 2), 16);
+
+  return {
+    r: channel(0),
+    g: channel(1),
+    b: channel(2),
+    alpha: digits.length === 8 ? channel(3) / 255 : 1,
+  };
+}
+
+/**
+ * Split function arguments into channels and alpha, e.g. "30, 41, 59, 0.5" or "30 41 59 / 50%"
+ */
+function splitArguments(
+  body: string,
+  count: number
+): { channels: string[]; alpha?: string } | null {
+  let parts: string[];
+  let alpha: string | undefined;
+
+  if (body.includes(',')) {
+    parts = body.split(',').map((part) => part.trim());
+    if (parts.length === count + 1) alpha = parts.pop();
+  } else {
+    const [channels, rest, ...extra] = body.split('/');
+    if (extra.length > 0) return null;
+    parts = channels.trim().split(/\s+/);
+    alpha = rest?.trim();
+  }
+
+  return parts.length === count && parts.every(Boolean) ? { channels: parts, alpha } : null;
+}
+
+function parseFunction(name: string, channels: string[]): RGB | null {
+  switch (name) {
+    case 'rgb':
+    case 'rgba': {
+      const [r, g, b] = channels.map((channel) => parseComponent(channel, 255));
+      return r === null || g === null || b === null ? null : { r, g, b };
+    }
+    case 'hsl':
+    case 'hsla': {
+      const h = parseHue(channels[0]);
+      const [s, l] = channels.slice(1).map((channel) => parseComponent(channel, 100));
+      return h === null || s === null || l === null ? null : hslToRgb(h, s / 100, l / 100);
+    }
+    case 'hwb': {
+      const h = parseHue(channels[0]);
+      const [w, b] = channels.slice(1).map((channel) => parseComponent(channel, 100));
+      return h === null || w === null || b === null ? null : hwbToRgb(h, w / 100, b / 100);
+    }
+    case 'lab': {
+      const l = parseComponent(channels[0], 100);
+      const [a, b] = channels.slice(1).map((channel) => parseComponent(channel, 125));
+      return l === null || a === null || b === null ? null : labToRgb({ l, a, b });
+    }
+    case 'lch': {
+      const l = parseComponent(channels[0], 100);
+      const c = parseComponent(channels[1], 150);
+      const h = parseHue(channels[2]);
+      return l === null || c === null || h === null ? null : labToRgb(lchToLab({ l, c, h }));
+    }
+    case 'oklab': {
+      const l = parseComponent(channels[0], 1);
+      const [a, b] = channels.slice(1).map((channel) => parseComponent(channel, 0.4));
+      if (l === null || a === null || b === null) return null;
+      return oklabToRgb(oklchToOklab(clampChroma(oklabToOklch({ l, a, b }))));
+    }
+    case 'oklch': {
+      const l = parseComponent(channels[0], 1);
+      const c = parseComponent(channels[1], 0.4);
+      const h = parseHue(channels[2]);
+      if (l === null || c === null || h === null) return null;
+      return oklabToRgb(oklchToOklab(clampChroma({ l, c, h })));
+    }
+    case 'color':
+      return parseColorFunction(channels[0], channels.slice(1));
+    default:
+      return null;
+  }
+}
+
+/**
+ * color(<space> c1 c2 c3) for the predefined RGB and XYZ spaces
+ */
+function parseColorFunction(space: string, channels: string[]): RGB | null {
+  const values = channels.map((channel) => parseComponent(channel, 1));
+  if (values.some((value) => value === null)) return null;
+  const [x, y, z] = values as number[];
+
+  switch (space) {
+    case 'srgb':
+      return { r: x * 255, g: y * 255, b: z * 255 };
+    case 'srgb-linear':
+      return linearSrgbToRgb(x, y, z);
+    case 'display-p3':
+      return displayP3ToRgb(x, y, z);
+    case 'xyz':
+    case 'xyz-d65':
+      return xyzToRgb([x, y, z]);
+    case 'xyz-d50':
+      return xyzToRgb([x, y, z], 'D50');
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse a number, a percentage (scaled so 100% = percentScale) or "none" (0)
+ */
+function parseComponent(token: string, percentScale: number): number | null {
+  if (token === 'none') return 0;
+  if (token.endsWith('%')) {
+    const percent = token.slice(0, -1);
+    return NUMBER_PATTERN.test(percent) ? (Number(percent) / 100) * percentScale : null;
+  }
+  return NUMBER_PATTERN.test(token) ? Number(token) : null;
+}
+
+/**
+ * Parse a hue in degrees (plain number) or deg, grad, rad or turn
+ */
+function parseHue(token: string): number | null {
+  if (token === 'none') return 0;
+
+  const unit = Object.keys(ANGLE_UNITS).find((name) => token.endsWith(name));
+  const number = unit ? token.slice(0, -unit.length) : token;
+  if (!NUMBER_PATTERN.test(number)) return null;
+
+  const degrees = Number(number) * (unit ? ANGLE_UNITS[unit] : 1);
+  return ((degrees % 360) + 360) % 360;
+}
+
+function hslToRgb(h: number, s: number, l: number): RGB {
+  const channel = (n: number) => {
+    const k = (n + h / 30) % 12;
+    const a = s * Math.min(l, 1 - l);
+    return (l - a * Math.max(-1, Math.min(k - 3, 9 - k, 1))) * 255;
+  };
+  return { r: channel(0), g: channel(8), b: channel(4) };
+}
+
+function hwbToRgb(h: number, white: number, black: number): RGB {
+  if (white + black >= 1) {
+    const gray = (white / (white + black)) * 255;
+    return { r: gray, g: gray, b: gray };
+  }
+
+  const { r, g, b } = hslToRgb(h, 1, 0.5);
+  const scale = (channel: number) => channel * (1 - white - black) + white * 255;
+  return { r: scale(r), g: scale(g), b: scale(b) };
+}
+
+function clampChannel(channel: number): number {
+  return Math.min(255, Math.max(0, channel));
+}
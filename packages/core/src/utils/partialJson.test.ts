@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { parsePartialJson } from './partialJson';
+
+describe('parsePartialJson', () => {
+  it('returns undefined before an object starts', () => {
+    expect(parsePartialJson('')).toBeUndefined();
+    expect(parsePartialJson('```json\n')).toBeUndefined();
+  });
+
+  it('closes open objects', () => {
+    expect(parsePartialJson('{"colors": {')).toEqual({ colors: {} });
+    expect(parsePartialJson('{"colors": {"primary": "#6366f1"')).toEqual({
+      colors: { primary: '#6366f1' },
+    });
+  });
+
+  it('drops half-written strings and keys without values', () => {
+    expect(parsePartialJson('{"colors": {"primary": "#6366f1", "secondary": "#8b')).toEqual({
+      colors: { primary: '#6366f1' },
+    });
+    expect(parsePartialJson('{"colors": {"primary": "#6366f1", "secondary"')).toEqual({
+      colors: { primary: '#6366f1' },
+    });
+  });
+
+  it('keeps numbers only once they are followed by a delimiter', () => {
+    expect(parsePartialJson('{"fontWeight": {"light": 30')).toEqual({ fontWeight: {} });
+    expect(parsePartialJson('{"fontWeight": {"light": 300, "normal": 4')).toEqual({
+      fontWeight: { light: 300 },
+    });
+  });
+
+  it('handles escapes, braces inside strings and arrays', () => {
+    expect(parsePartialJson('{"sans": "\\"Inter\\", {sans}", "list": [1, 2')).toEqual({
+      sans: '"Inter", {sans}',
+      list: [1],
+    });
+  });
+
+  it('parses a complete object and ignores surrounding text', () => {
+    expect(parsePartialJson('```json\n{"a": {"b": 1}}\n```')).toEqual({ a: { b: 1 } });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * Parse the complete part of a JSON object that is still being streamed, e.g.
+ * '{"colors": {"primary": "#6366f1", "second' -> { colors: { primary: '#6366f1' } }.
+ * Only finished values are kept: a half-written string or number and a key without its value are
+ * dropped, and open objects and arrays are closed. Text before the first "{" (such as a code fence)
+ * is skipped. Returns undefined when no object has started yet.
+ */
+export function parsePartialJson(text: string): Record<string, unknown> | undefined {
+  const start = text.indexOf('{');
+  if (start === -1) return undefined;
+
+  /** Open containers: '{' or '[' */
+  const stack: string[] = [];
+  /** Whether the next string in each open object is a key */
+  const expectKey: boolean[] = [];
+  let inString = false;
+  let escaped = false;
+  let stringIsKey = false;
+  let safeEnd = start;
+  let safeClosers = '';
+
+  // Remember where the text can be cut and which brackets close it there
+  const markSafe = (end: number) => {
+    safeEnd = end;
+    safeClosers = stack
+      .map((open) => (open === '{' ? '}' : ']'))
+      .reverse()
+      .join('');
+  };
+
+  for (let i = start; i < text.length; i++) {
+    const char = text[i];
+
+    if (inString) {
+      if (escaped) {
+        escaped = false;
+      } else if (char === '\\') {
+        escaped = true;
+      } else if (char === '"') {
+        inString = false;
+        if (!stringIsKey) markSafe(i + 1);
+      }
+      continue;
+    }
+
+    switch (char) {
+      case '"':
+        inString = true;
+        stringIsKey = stack.at(-1) === '{' && expectKey.at(-1) === true;
+        break;
+      case '{':
+      case '[':
+        stack.push(char);
+        expectKey.push(char === '{');
+        markSafe(i + 1);
+        break;
+      case '}':
+      case ']':
+        stack.pop();
+        expectKey.pop();
+        markSafe(i + 1);
+        if (stack.length === 0) return parseObject(text.slice(start, i + 1));
+        break;
+      case ':':
+        expectKey[expectKey.length - 1] = false;
+        break;
+      case ',':
+        // The value before the comma is complete (numbers and literals end here)
+        markSafe(i);
+        if (stack.at(-1) === '{') expectKey[expectKey.length - 1] = true;
+        break;
+    }
+  }
+
+  return parseObject(text.slice(start, safeEnd) + safeClosers);
+}
+
+function parseObject(json: string): Record<string, unknown> | undefined {
+  try {
+    const parsed: unknown = JSON.parse(json);
+    return typeof parsed === 'object' && parsed !== null && !Array.isArray(parsed)
+      ? (parsed as Record<string, unknown>)
+      : undefined;
+  } catch {
+    return undefined;
+  }
+}
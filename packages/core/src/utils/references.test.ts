@@ -0,0 +1,108 @@
+import { describe, expect, it } from 'vitest';
+import { lightTheme } from '../themes';
+import type { ThemeTokens } from '../types/tokens';
+import { darken, mix } from './color';
+import { lightenOklch, mixOklab } from './color';
+import { isTokenReference, resolveTokenReferences } from './references';
+
+const withColors = (colors: Partial<Record<string, string>>): ThemeTokens => ({
+  ...lightTheme.tokens,
+  colors: { ...lightTheme.tokens.colors, ...colors },
+});
+
+describe('isTokenReference', () => {
+  it('detects braced references', () => {
+    expect(isTokenReference('{colors.primary}')).toBe(true);
+    expect(isTokenReference('{colors.primary | darken(10)}')).toBe(true);
+    expect(isTokenReference('#ffffff')).toBe(false);
+    expect(isTokenReference(400)).toBe(false);
+  });
+});
+
+describe('resolveTokenReferences', () => {
+  it('resolves plain references, including chains', () => {
+    const tokens = resolveTokenReferences(
+      withColors({ textInverse: '{colors.background}', borderLight: '{colors.textInverse}' })
+    );
+    expect(tokens.colors.textInverse).toBe(lightTheme.tokens.colors.background);
+    expect(tokens.colors.borderLight).toBe(lightTheme.tokens.colors.background);
+  });
+
+  it('evaluates piped transforms with reference and numeric arguments', () => {
+    const { primary, background } = lightTheme.tokens.colors;
+    const tokens = resolveTokenReferences(
+      withColors({
+        border: '{colors.primary | mix(colors.background, 20)}',
+        borderDark: '{colors.primary | mix(colors.background, 20) | darken(10)}',
+      })
+    );
+    expect(tokens.colors.border).toBe(mix(primary, background, 20));
+    expect(tokens.colors.borderDark).toBe(darken(mix(primary, background, 20), 10));
+  });
+
+  it('evaluates perceptual OKLab/OKLCH transforms', () => {
+    const { primary, background } = lightTheme.tokens.colors;
+    const tokens = resolveTokenReferences(
+      withColors({
+        border: '{colors.primary | mixOklab(colors.background, 20)}',
+        borderLight: '{colors.primary | lightenOklch(30)}',
+      })
+    );
+    expect(tokens.colors.border).toBe(mixOklab(primary, background, 20));
+    expect(tokens.colors.borderLight).toBe(lightenOklch(primary, 30));
+  });
+
+  it('resolves references into optional groups using defaults', () => {
+    const { radius: _radius, ...rest } = lightTheme.tokens;
+    void _radius;
+    const tokens = resolveTokenReferences({
+      ...rest,
+      spacing: { ...lightTheme.tokens.spacing!, md: '{radius.md}' },
+    });
+    expect(tokens.spacing?.md).toBe('0.5rem');
+  });
+
+  it('does not mutate the input', () => {
+    const input = withColors({ textInverse: '{colors.background}' });
+    resolveTokenReferences(input);
+    expect(input.colors.textInverse).toBe('{colors.background}');
+  });
+
+  it('reports cycles with the full path', () => {
+    expect(() =>
+      resolveTokenReferences(
+        withColors({ border: '{colors.borderDark}', borderDark: '{colors.border}' })
+      )
+    ).toThrow('Circular token reference: colors.border -> colors.borderDark -> colors.border');
+  });
+
+  it('names the offending token for unknown references', () => {
+    expect(() => resolveTokenReferences(withColors({ border: '{colors.nope}' }))).toThrow(
+      'Unknown token reference "colors.nope" in colors.border'
+    );
+  });
+
+  it('names the offending token for unknown transforms', () => {
+    expect(() =>
+      resolveTokenReferences(withColors({ border: '{colors.primary | blur(2)}' }))
+    ).toThrow('Invalid token expression at colors.border: unknown transform "blur(2)"');
+  });
+
+  it('emits plain references through toVariable and resolves expressions', () => {
+    const tokens = resolveTokenReferences(
+      withColors({
+        textInverse: '{colors.background}',
+        border: '{colors.primary | darken(10)}',
+      }),
+      { toVariable: (path) => `var(--${path.replace('.', '-')})` }
+    );
+    expect(tokens.colors.textInverse).toBe('var(--colors-background)');
+    expect(tokens.colors.border).toBe(darken(lightTheme.tokens.colors.primary, 10));
+  });
+
+  it('still validates references in toVariable mode', () => {
+    expect(() =>
+      resolveTokenReferences(withColors({ border: '{colors.nope}' }), { toVariable: (p) => p })
+    ).toThrow('colors.nope');
+  });
+});
@@ -0,0 +1,180 @@
+import type { ThemeTokens } from '../types/tokens';
+import {
+  defaultRadiusTokens,
+  defaultShadowTokens,
+  defaultSpacingTokens,
+  defaultTransitionTokens,
+} from '../types/tokens';
+import {
+  darken,
+  darkenOklch,
+  lighten,
+  lightenOklch,
+  mix,
+  mixOklab,
+  saturate,
+  saturateOklch,
+} from './color';
+
+/**
+ * Options for resolving token references
+ */
+export interface ResolveReferencesOptions {
+  /**
+   * When provided, plain references (e.g. "{colors.primary}") are emitted through this callback
+   * (typically producing a CSS var()) instead of being resolved to the referenced literal.
+   * Expressions with transforms are always resolved to literals.
+   */
+  toVariable?: (path: string) => string;
+}
+
+/**
+ * Transform functions available in token expressions.
+ * The piped value is the first argument: "{colors.primary | mix(colors.background, 20)}".
+ */
+const TRANSFORMS: Record<string, (value: string, ...args: (string | number)[]) => string> = {
+  mix: (value, other, weight = 50) => mix(value, String(other), Number(weight)),
+  lighten: (value, amount) => lighten(value, Number(amount)),
+  darken: (value, amount) => darken(value, Number(amount)),
+  saturate: (value, amount) => saturate(value, Number(amount)),
+  // Perceptual variants working in OKLab/OKLCH
+  mixOklab: (value, other, weight = 50) => mixOklab(value, String(other), Number(weight)),
+  lightenOklch: (value, amount) => lightenOklch(value, Number(amount)),
+  darkenOklch: (value, amount) => darkenOklch(value, Number(amount)),
+  saturateOklch: (value, amount) => saturateOklch(value, Number(amount)),
+};
+
+const REFERENCE_PATTERN = /^\{([^{}]+)\}$/;
+const PATH_PATTERN = /^[a-zA-Z]\w*(\.\w+)+$/;
+const NUMBER_PATTERN = /^-?\d+(\.\d+)?$/;
+const CALL_PATTERN = /^(\w+)\((.*)\)$/;
+
+/**
+ * Check if a token value is a reference or expression ("{...}")
+ */
+export function isTokenReference(value: unknown): value is string {
+  return typeof value === 'string' && REFERENCE_PATTERN.test(value.trim());
+}
+
+/**
+ * Resolve all references and expressions in a token set.
+ * Throws with the offending token path on unknown references, unknown transforms and cycles.
+ */
+export function resolveTokenReferences(
+  tokens: ThemeTokens,
+  options: ResolveReferencesOptions = {}
+): ThemeTokens {
+  // Optional groups fall back to defaults, so references into them always resolve
+  const source: ThemeTokens = {
+    ...tokens,
+    spacing: tokens.spacing ?? defaultSpacingTokens,
+    radius: tokens.radius ?? defaultRadiusTokens,
+    shadow: tokens.shadow ?? defaultShadowTokens,
+    transition: tokens.transition ?? defaultTransitionTokens,
+  };
+  const resolved = new Map<string, string | number>();
+
+  const resolvePath = (path: string, stack: string[]): string | number => {
+    const cached = resolved.get(path);
+    if (cached !== undefined) return cached;
+
+    if (stack.includes(path)) {
+      throw new Error(`Circular token reference: ${[...stack, path].join(' -> ')}`);
+    }
+
+    const value = getAt(source, path);
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      const referrer = stack[stack.length - 1];
+      throw new Error(
+        referrer
+          ? `Unknown token reference "${path}" in ${referrer}`
+          : `Unknown token path: ${path}`
+      );
+    }
+
+    const result = isTokenReference(value) ? evaluate(path, value, [...stack, path]) : value;
+    resolved.set(path, result);
+    return result;
+  };
+
+  const evaluate = (path: string, expression: string, stack: string[]): string => {
+    const [head, ...calls] = REFERENCE_PATTERN.exec(expression.trim())![1]
+      .split('|')
+      .map((part) => part.trim());
+
+    let value = resolveOperand(path, head, stack);
+
+    for (const call of calls) {
+      const match = CALL_PATTERN.exec(call);
+      const transform = match ? TRANSFORMS[match[1]] : undefined;
+      if (!match || !transform) {
+        throw new Error(`Invalid token expression at ${path}: unknown transform "${call}"`);
+      }
+
+      const args = match[2]
+        .split(',')
+        .map((arg) => arg.trim())
+        .filter(Boolean)
+        .map((arg) => (NUMBER_PATTERN.test(arg) ? Number(arg) : resolveOperand(path, arg, stack)));
+      value = transform(value, ...args);
+    }
+
+    return value;
+  };
+
+  const resolveOperand = (path: string, operand: string, stack: string[]): string => {
+    if (!operand) {
+      throw new Error(`Invalid token expression at ${path}: empty reference`);
+    }
+    return PATH_PATTERN.test(operand) ? String(resolvePath(operand, stack)) : operand;
+  };
+
+  const resolveLeaf = (path: string, value: string): string | number => {
+    const target = REFERENCE_PATTERN.exec(value.trim())![1].trim();
+
+    if (options.toVariable && PATH_PATTERN.test(target)) {
+      // Validate the target anyway so broken references fail the same way in both modes
+      resolvePath(target, [path]);
+      return options.toVariable(target);
+    }
+
+    return resolvePath(path, []);
+  };
+
+  const walk = (node: Record<string, unknown>, prefix: string): Record<string, unknown> => {
+    const result: Record<string, unknown> = {};
+
+    for (const [key, value] of Object.entries(node)) {
+      const path = prefix ? `${prefix}.${key}` : key;
+
+      if (typeof value === 'object' && value !== null) {
+        result[key] = walk(value as Record<string, unknown>, path);
+      } else if (isTokenReference(value)) {
+        result[key] = resolveLeaf(path, value);
+      } else {
+        result[key] = value;
+      }
+    }
+
+    return result;
+  };
+
+  return walk(tokens as unknown as Record<string, unknown>, '') as unknown as ThemeTokens;
+}
+
+/**
+ * Read a nested value by dot path
+ */
+function getAt(tokens: ThemeTokens, path: string): unknown {
+  let current: unknown = tokens;
+
+  for (const part of path.split('.')) {
+    if (current && typeof current === 'object' && part in current) {
+      current = (current as Record<string, unknown>)[part];
+    } else {
+      return undefined;
+    }
+  }
+
+  return current;
+}
@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { lightTheme } from '../themes';
+import { createTheme } from '../types/theme';
+import { deltaE } from './color';
+import {
+  checkColorDistinguishability,
+  simulateColorVision,
+  simulateTheme,
+  visionDeficiencies,
+} from './visionDeficiency';
+
+describe('simulateColorVision', () => {
+  it('keeps black, white and alpha', () => {
+    for (const type of visionDeficiencies) {
+      expect(simulateColorVision('#000000', type)).toBe('#000000');
+      expect(simulateColorVision('#ffffff', type)).toBe('#ffffff');
+    }
+    expect(simulateColorVision('rgb(255 0 0 / 50%)', 'protanopia')).toMatch(/^#[0-9a-f]{6}80$/);
+  });
+
+  it('collapses red and green for red-green deficiencies', () => {
+    const normal = deltaE('#ff0000', '#00ff00');
+    const red = simulateColorVision('#ff0000', 'deuteranopia');
+    const green = simulateColorVision('#00ff00', 'deuteranopia');
+
+    expect(deltaE(red, green)).toBeLessThan(normal / 2);
+  });
+
+  it('removes all color for achromatopsia', () => {
+    expect(simulateColorVision('#6366f1', 'achromatopsia')).toMatch(/^#([0-9a-f]{2})\1\1$/);
+  });
+
+  it('returns unparseable colors unchanged', () => {
+    expect(simulateColorVision('currentColor', 'tritanopia')).toBe('currentColor');
+  });
+});
+
+describe('simulateTheme', () => {
+  it('returns a standalone theme with simulated colors', () => {
+    const child = createTheme(
+      { id: 'child', name: 'Child', extends: 'light', tokens: { colors: { primary: '#ef4444' } } },
+      lightTheme
+    );
+    const simulated = simulateTheme(child, 'protanopia');
+
+    expect(simulated.id).toBe('child-protanopia');
+    expect(simulated.extends).toBeUndefined();
+    expect(simulated.overrides).toBeUndefined();
+    expect(simulated.tokens.colors.primary).toBe(simulateColorVision('#ef4444', 'protanopia'));
+    expect(simulated.tokens.typography).toEqual(child.tokens.typography);
+  });
+});
+
+describe('checkColorDistinguishability', () => {
+  it('compares the default pairs under every deficiency', () => {
+    const findings = checkColorDistinguishability(lightTheme);
+
+    expect(findings).toHaveLength(12);
+    expect(findings[0]).toMatchObject({
+      pair: ['error', 'success'],
+      type: 'protanopia',
+      deltaE: expect.any(Number),
+    });
+  });
+
+  it('flags pairs below the threshold', () => {
+    const theme = createTheme({
+      id: 'traffic',
+      name: 'Traffic',
+      tokens: {
+        ...lightTheme.tokens,
+        colors: { ...lightTheme.tokens.colors, error: '#ff0000', success: '#00ff00' },
+      },
+    });
+    const [finding] = checkColorDistinguishability(theme, {
+      pairs: [['error', 'success']],
+      types: ['deuteranopia'],
+      threshold: 30,
+    });
+
+    expect(finding.passes).toBe(false);
+    expect(
+      checkColorDistinguishability(theme, {
+        pairs: [['error', 'success']],
+        types: ['tritanopia'],
+      })[0].passes
+    ).toBe(true);
+  });
+});
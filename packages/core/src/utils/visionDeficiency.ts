@@ -0,0 +1,153 @@
+import type { Theme } from '../types/theme';
+import type { ColorTokens } from '../types/tokens';
+import { deltaE, rgbToHex } from './color';
+import { linearSrgbToRgb, rgbToLinearSrgb } from './colorSpaces';
+import { parseColor } from './parseColor';
+import { resolveTokenReferences } from './references';
+
+/**
+ * Color vision deficiency types that can be simulated
+ */
+export type VisionDeficiency = 'protanopia' | 'deuteranopia' | 'tritanopia' | 'achromatopsia';
+
+/**
+ * Every simulated deficiency, in the order distinguishability checks report them
+ */
+export const visionDeficiencies: readonly VisionDeficiency[] = [
+  'protanopia',
+  'deuteranopia',
+  'tritanopia',
+  'achromatopsia',
+];
+
+/**
+ * Linear-sRGB simulation matrices: Machado, Oliveira & Fernandes (2009) at full severity for the
+ * dichromacies, Rec. 709 luminance for achromatopsia
+ */
+const SIMULATION_MATRICES: Record<VisionDeficiency, number[][]> = {
+  protanopia: [
+    [0.152286, 1.052583, -0.204868],
+    [0.114503, 0.786281, 0.099216],
+    [-0.003882, -0.048116, 1.051998],
+  ],
+  deuteranopia: [
+    [0.367322, 0.860646, -0.227968],
+    [0.280085, 0.672501, 0.047413],
+    [-0.01182, 0.04294, 0.968881],
+  ],
+  tritanopia: [
+    [1.255528, -0.076749, -0.178779],
+    [-0.078411, 0.930809, 0.147602],
+    [0.004733, 0.691367, 0.3039],
+  ],
+  achromatopsia: [
+    [0.2126, 0.7152, 0.0722],
+    [0.2126, 0.7152, 0.0722],
+    [0.2126, 0.7152, 0.0722],
+  ],
+};
+
+/**
+ * Semantic color pairs checked by checkColorDistinguishability() by default
+ */
+const DEFAULT_DISTINGUISHABLE_PAIRS: [keyof ColorTokens, keyof ColorTokens][] = [
+  ['error', 'success'],
+  ['error', 'warning'],
+  ['warning', 'success'],
+];
+
+/**
+ * Options for checkColorDistinguishability()
+ */
+export interface DistinguishabilityOptions {
+  /** Color token pairs to compare (default: error/success, error/warning, warning/success) */
+  pairs?: [keyof ColorTokens, keyof ColorTokens][];
+  /** Deficiencies to simulate (default: all) */
+  types?: VisionDeficiency[];
+  /** Minimum CIEDE2000 difference for a pair to count as distinguishable (default: 10) */
+  threshold?: number;
+}
+
+/**
+ * A color pair compared under one simulated deficiency
+ */
+export interface DistinguishabilityFinding {
+  pair: [keyof ColorTokens, keyof ColorTokens];
+  type: VisionDeficiency;
+  /** Simulated [first, second] colors */
+  colors: [string, string];
+  deltaE: number;
+  passes: boolean;
+}
+
+/**
+ * Simulate how a color looks with a color vision deficiency. Returns hex (alpha is kept), or the
+ * input if it cannot be parsed.
+ */
+export function simulateColorVision(color: string, type: VisionDeficiency): string {
+  const rgba = parseColor(color);
+  if (!rgba) return color;
+
+  const linear = rgbToLinearSrgb(rgba);
+  const [r, g, b] = SIMULATION_MATRICES[type].map((row) =>
+    row.reduce((sum, value, i) => sum + value * linear[i], 0)
+  );
+
+  return rgbToHex({ ...linearSrgbToRgb(r, g, b), alpha: rgba.alpha });
+}
+
+/**
+ * Return a copy of a theme with every color token as seen with a color vision deficiency,
+ * e.g. for manager.preview(simulateTheme(theme, 'deuteranopia')).
+ * Token references are resolved first; the copy gets the id "<id>-<type>" and no `extends`.
+ */
+export function simulateTheme(theme: Theme, type: VisionDeficiency): Theme {
+  const { extends: _extends, overrides: _overrides, ...rest } = theme;
+  const tokens = resolveTokenReferences(theme.tokens);
+  const colors = Object.fromEntries(
+    Object.entries(tokens.colors).map(([key, value]) => [key, simulateColorVision(value, type)])
+  ) as unknown as ColorTokens;
+
+  return {
+    ...rest,
+    id: `${theme.id}-${type}`,
+    name: `${theme.name} (${type})`,
+    tokens: { ...tokens, colors },
+    meta: { ...theme.meta, updatedAt: Date.now() },
+  };
+}
+
+/**
+ * Compare semantic color pairs under each simulated deficiency and flag pairs whose CIEDE2000
+ * difference falls below the threshold
+ */
+export function checkColorDistinguishability(
+  theme: Theme,
+  options: DistinguishabilityOptions = {}
+): DistinguishabilityFinding[] {
+  const {
+    pairs = DEFAULT_DISTINGUISHABLE_PAIRS,
+    types = visionDeficiencies,
+    threshold = 10,
+  } = options;
+  const colors = resolveTokenReferences(theme.tokens).colors;
+  const findings: DistinguishabilityFinding[] = [];
+
+  for (const type of types) {
+    for (const pair of pairs) {
+      const first = simulateColorVision(colors[pair[0]], type);
+      const second = simulateColorVision(colors[pair[1]], type);
+      const difference = deltaE(first, second);
+
+      findings.push({
+        pair,
+        type,
+        colors: [first, second],
+        deltaE: Math.round(difference * 100) / 100,
+        passes: difference >= threshold,
+      });
+    }
+  }
+
+  return findings;
+}
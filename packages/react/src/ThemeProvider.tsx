@@ -2,11 +2,15 @@ import React, { useEffect, useState, useCallback, useMemo, useRef } from 'react'
 import {
   ThemeManager,
   type Theme,
+  type ThemeScheme,
   type ThemeChangedPayload,
+  type HistoryChangedPayload,
   type AIOptions,
+  type GenerateOptions,
   type StorageOptions,
   type CSSOptions,
   builtinThemes,
+  builtinSchemes,
 } from '@themed.js/core';
 import { ThemeContext, AIThemeContext, type ThemeContextValue, type AIThemeContextValue } from './context';
 
@@ -19,6 +23,8 @@ export interface ThemeProviderProps {
   defaultTheme?: string;
   /** Initial themes to register */
   themes?: Theme[];
+  /** Light/dark theme schemes to register */
+  schemes?: ThemeScheme[];
   /** AI configuration */
   ai?: AIOptions;
   /** Storage configuration */
@@ -38,6 +44,7 @@ export function ThemeProvider({
   children,
   defaultTheme = 'light',
   themes = [],
+  schemes = [],
   ai,
   storage,
   css,
@@ -51,6 +58,7 @@ export function ThemeProvider({
   if (!managerRef.current) {
     managerRef.current = new ThemeManager({
       themes: [...builtinThemes, ...themes],
+      schemes: [...builtinSchemes, ...schemes],
       defaultTheme,
       ai,
       storage,
@@ -65,6 +73,8 @@ export function ThemeProvider({
   const [currentTheme, setCurrentTheme] = useState<Theme | null>(null);
   const [allThemes, setAllThemes] = useState<Theme[]>(() => manager.getAll());
   const [initialized, setInitialized] = useState(false);
+  const [canUndo, setCanUndo] = useState(false);
+  const [canRedo, setCanRedo] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
   const [aiError, setAiError] = useState<Error | null>(null);
   const [aiConfigVersion, setAiConfigVersion] = useState(0);
@@ -94,34 +104,65 @@ export function ThemeProvider({
       setAllThemes(manager.getAll());
     });
 
+    const unsubUpdated = manager.on('theme:updated', () => {
+      setCurrentTheme(manager.getActive());
+      setAllThemes(manager.getAll());
+    });
+
+    const unsubHistory = manager.on('history:changed', (payload: HistoryChangedPayload) => {
+      setCanUndo(payload.canUndo);
+      setCanRedo(payload.canRedo);
+    });
+
     return () => {
       unsubChanged();
       unsubRegistered();
       unsubUnregistered();
+      unsubUpdated();
+      unsubHistory();
     };
   }, [manager, onThemeChange]);
 
   // AI functions
-  const generate = useCallback(
-    async (prompt: string, options?: { customSchema?: string }): Promise<Theme> => {
+  // The in-flight generation; a new generate() or adjust() call aborts it
+  const generationRef = useRef<AbortController | null>(null);
+
+  const runGeneration = useCallback(
+    async (prompt: string, options: GenerateOptions): Promise<Theme> => {
+      generationRef.current?.abort();
+      const controller = new AbortController();
+      generationRef.current = controller;
+
       setIsGenerating(true);
       setAiError(null);
 
       try {
-        const theme = await manager.generate(prompt, options);
+        const theme = await manager.generate(prompt, { ...options, signal: controller.signal });
         setAllThemes(manager.getAll());
         return theme;
       } catch (error) {
         const err = error instanceof Error ? error : new Error(String(error));
-        setAiError(err);
+        // A superseded request is not an error of the current one
+        if (!controller.signal.aborted) {
+          setAiError(err);
+        }
         throw err;
       } finally {
-        setIsGenerating(false);
+        if (generationRef.current === controller) {
+          generationRef.current = null;
+          setIsGenerating(false);
+        }
       }
     },
     [manager]
   );
 
+  const generate = useCallback(
+    (prompt: string, options?: { customSchema?: string }): Promise<Theme> =>
+      runGeneration(prompt, { ...options }),
+    [runGeneration]
+  );
+
   const adjust = useCallback(
     async (instruction: string, options?: { customSchema?: string }): Promise<Theme> => {
       const activeTheme = manager.getActive();
@@ -129,27 +170,18 @@ export function ThemeProvider({
         throw new Error('No active theme to adjust');
       }
 
-      setIsGenerating(true);
-      setAiError(null);
-
-      try {
-        const theme = await manager.generate(instruction, {
-          baseTheme: activeTheme,
-          ...options,
-        });
-        setAllThemes(manager.getAll());
-        return theme;
-      } catch (error) {
-        const err = error instanceof Error ? error : new Error(String(error));
-        setAiError(err);
-        throw err;
-      } finally {
-        setIsGenerating(false);
-      }
+      return runGeneration(instruction, { baseTheme: activeTheme, ...options });
     },
-    [manager]
+    [manager, runGeneration]
   );
 
+  const cancel = useCallback(() => {
+    generationRef.current?.abort();
+  }, []);
+
+  // Abort the in-flight generation on unmount
+  useEffect(() => cancel, [cancel]);
+
   const configureAI = useCallback(
     (options: AIOptions) => {
       manager.configureAI(options);
@@ -166,21 +198,24 @@ export function ThemeProvider({
       theme: currentTheme,
       themes: allThemes,
       initialized,
+      canUndo,
+      canRedo,
     }),
-    [manager, currentTheme, allThemes, initialized]
+    [manager, currentTheme, allThemes, initialized, canUndo, canRedo]
   );
 
   const aiContextValue = useMemo<AIThemeContextValue>(
     () => ({
       generate,
       adjust,
+      cancel,
       configureAI,
       isGenerating,
       error: aiError,
       isConfigured: manager.getAIOrchestrator() !== null,
       modelInfo: manager.getAIConfig(),
     }),
-    [generate, adjust, configureAI, isGenerating, aiError, manager, aiConfigVersion]
+    [generate, adjust, cancel, configureAI, isGenerating, aiError, manager, aiConfigVersion]
   );
 
   return (
@@ -14,6 +14,10 @@ export interface ThemeContextValue {
   themes: Theme[];
   /** Whether the manager is initialized */
   initialized: boolean;
+  /** Whether there is a change to undo */
+  canUndo: boolean;
+  /** Whether there is a change to redo */
+  canRedo: boolean;
 }
 
 /**
@@ -24,6 +28,8 @@ export interface AIThemeContextValue {
   generate: (prompt: string, options?: { customSchema?: string }) => Promise<Theme>;
   /** Adjust the current theme */
   adjust: (instruction: string, options?: { customSchema?: string }) => Promise<Theme>;
+  /** Abort the in-flight generate() or adjust() call (a new call aborts the previous one) */
+  cancel: () => void;
   /** Configure AI at runtime (e.g. when user enters API key) */
   configureAI: (options: AIOptions) => void;
   /** Whether AI is currently generating */
@@ -3,12 +3,14 @@
 export { ThemeProvider } from './ThemeProvider';
 export { useTheme } from './useTheme';
 export { useAITheme } from './useAITheme';
+export { useAIThemeStream } from './useAIThemeStream';
 export { ThemeContext } from './context';
 
 // Re-export core types for convenience
 export type {
   Theme,
   ThemeTokens,
+  PartialThemeTokens,
   ColorTokens,
   TypographyTokens,
   AIProviderConfig,
@@ -10,6 +10,8 @@ export interface UseAIThemeReturn {
   generate: (prompt: string, options?: { customSchema?: string }) => Promise<Theme>;
   /** Adjust the current theme based on instructions */
   adjust: (instruction: string, options?: { customSchema?: string }) => Promise<Theme>;
+  /** Abort the in-flight generate() or adjust() call (a new call aborts the previous one) */
+  cancel: () => void;
   /** Configure AI at runtime (e.g. when user enters API key) */
   configureAI: (options: import('@themed.js/core').AIOptions) => void;
   /** Whether the AI is currently generating a theme */
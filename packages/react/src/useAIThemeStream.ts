@@ -0,0 +1,105 @@
+import type { PartialThemeTokens, Theme } from '@themed.js/core';
+import { useCallback, useContext, useEffect, useRef, useState } from 'react';
+import { ThemeContext } from './context';
+
+/**
+ * useAIThemeStream hook return type
+ */
+export interface UseAIThemeStreamReturn {
+  /**
+   * Stream a new theme from a text prompt; resolves with the final theme.
+   * With `preview: true` the colors are previewed while they arrive.
+   */
+  generate: (
+    prompt: string,
+    options?: { customSchema?: string; preview?: boolean }
+  ) => Promise<Theme>;
+  /** Abort the in-flight generation (a new call aborts the previous one) */
+  cancel: () => void;
+  /** Tokens received so far; null until the first tokens arrive */
+  partialTokens: PartialThemeTokens | null;
+  /** Whether a theme is being streamed */
+  isStreaming: boolean;
+  /** Last error from streaming */
+  error: Error | null;
+}
+
+/**
+ * Hook to stream AI theme generation and show the tokens as they arrive
+ *
+ * @example
+ * ```tsx
+ * function LiveGenerator() {
+ *   const { generate, partialTokens, isStreaming } = useAIThemeStream();
+ *
+ *   return (
+ *     <div>
+ *       <button onClick={() => generate('Ocean sunset', { preview: true })} disabled={isStreaming}>
+ *         Generate
+ *       </button>
+ *       {Object.entries(partialTokens?.colors ?? {}).map(([name, color]) => (
+ *         <span key={name} title={name} style={{ background: color }} />
+ *       ))}
+ *     </div>
+ *   );
+ * }
+ * ```
+ */
+export function useAIThemeStream(): UseAIThemeStreamReturn {
+  const context = useContext(ThemeContext);
+
+  if (!context) {
+    throw new Error('useAIThemeStream must be used within a ThemeProvider');
+  }
+
+  const { manager } = context;
+  const [partialTokens, setPartialTokens] = useState<PartialThemeTokens | null>(null);
+  const [isStreaming, setIsStreaming] = useState(false);
+  const [error, setError] = useState<Error | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const generate = useCallback(
+    async (prompt: string, options?: { customSchema?: string; preview?: boolean }) => {
+      controllerRef.current?.abort();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      const isCurrent = () => controllerRef.current === controller;
+
+      setIsStreaming(true);
+      setError(null);
+      setPartialTokens(null);
+
+      try {
+        const stream = manager.generateStream(prompt, { ...options, signal: controller.signal });
+        let next = await stream.next();
+        while (!next.done) {
+          if (isCurrent()) setPartialTokens(next.value.tokens);
+          next = await stream.next();
+        }
+        return next.value;
+      } catch (e) {
+        const err = e instanceof Error ? e : new Error(String(e));
+        // A superseded request is not an error of the current one
+        if (!controller.signal.aborted) {
+          setError(err);
+        }
+        throw err;
+      } finally {
+        if (isCurrent()) {
+          controllerRef.current = null;
+          setIsStreaming(false);
+        }
+      }
+    },
+    [manager]
+  );
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+  }, []);
+
+  // Abort the in-flight generation on unmount
+  useEffect(() => cancel, [cancel]);
+
+  return { generate, cancel, partialTokens, isStreaming, error };
+}
@@ -1,5 +1,5 @@
 import { useContext, useCallback } from 'react';
-import type { Theme, ThemeInput } from '@themed.js/core';
+import type { PartialThemeTokens, Theme, ThemeInput } from '@themed.js/core';
 import { ThemeContext } from './context';
 
 /**
@@ -24,6 +24,22 @@ export interface UseThemeReturn {
   get: (themeId: string) => Theme | undefined;
   /** Update a theme's custom data */
   updateThemeCustom: (themeId: string, custom: Record<string, unknown>) => void;
+  /** Deep-merge token changes into a theme */
+  updateTokens: (themeId: string, tokens: PartialThemeTokens) => Promise<Theme>;
+  /** Show a theme (registered or not) without applying or persisting it */
+  preview: (theme: string | Theme) => void;
+  /** Apply the previewed theme */
+  commitPreview: () => Promise<Theme | null>;
+  /** Restore the active theme after a preview */
+  cancelPreview: () => void;
+  /** Undo the latest theme switch or edit */
+  undo: () => Promise<boolean>;
+  /** Redo the latest undone change */
+  redo: () => Promise<boolean>;
+  /** Whether there is a change to undo */
+  canUndo: boolean;
+  /** Whether there is a change to redo */
+  canRedo: boolean;
 }
 
 /**
@@ -54,7 +70,7 @@ export function useTheme(): UseThemeReturn {
     throw new Error('useTheme must be used within a ThemeProvider');
   }
 
-  const { manager, theme, themes, initialized } = context;
+  const { manager, theme, themes, initialized, canUndo, canRedo } = context;
 
   const apply = useCallback(
     async (themeId: string) => {
@@ -98,6 +114,23 @@ export function useTheme(): UseThemeReturn {
     [manager]
   );
 
+  const updateTokens = useCallback(
+    (themeId: string, tokens: PartialThemeTokens) => {
+      return manager.updateTokens(themeId, tokens);
+    },
+    [manager]
+  );
+
+  const preview = useCallback((themeData: string | Theme) => manager.preview(themeData), [manager]);
+
+  const commitPreview = useCallback(() => manager.commitPreview(), [manager]);
+
+  const cancelPreview = useCallback(() => manager.cancelPreview(), [manager]);
+
+  const undo = useCallback(() => manager.undo(), [manager]);
+
+  const redo = useCallback(() => manager.redo(), [manager]);
+
   return {
     theme,
     themes,
@@ -108,5 +141,13 @@ export function useTheme(): UseThemeReturn {
     has,
     get,
     updateThemeCustom,
+    updateTokens,
+    preview,
+    commitPreview,
+    cancelPreview,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
   };
 }
@@ -1,5 +1,5 @@
-import { inject, computed, ref, type ComputedRef } from 'vue';
-import type { Theme } from '@themed.js/core';
+import { inject, computed, ref, getCurrentScope, onScopeDispose, type ComputedRef } from 'vue';
+import type { GenerateOptions, Theme } from '@themed.js/core';
 import { THEMED_INJECTION_KEY } from '../keys';
 
 /**
@@ -10,6 +10,8 @@ export interface UseAIThemeReturn {
   generate: (prompt: string, options?: { customSchema?: string }) => Promise<Theme>;
   /** Adjust the current theme based on instructions */
   adjust: (instruction: string, options?: { customSchema?: string }) => Promise<Theme>;
+  /** Abort the in-flight generation, wherever it started (a new call aborts the previous one) */
+  cancel: () => void;
   /** Whether the AI is currently generating a theme */
   isGenerating: ComputedRef<boolean>;
   /** Last error from AI generation */
@@ -72,49 +74,57 @@ export function useAITheme(): UseAIThemeReturn {
   const isConfigured = computed(() => injection.isAIConfigured);
   const modelInfo = computed(() => injection.modelInfo);
 
-  const generate = async (prompt: string, options?: { customSchema?: string }): Promise<Theme> => {
+  // This composable's latest generation; the plugin aborts it when any new generation starts
+  let controller: AbortController | null = null;
+
+  const runGeneration = async (prompt: string, options: GenerateOptions): Promise<Theme> => {
+    const current = injection.startGeneration();
+    controller = current;
+
     localIsGenerating.value = true;
     localError.value = null;
 
     try {
-      const theme = await manager.generate(prompt, options);
-      return theme;
+      return await manager.generate(prompt, { ...options, signal: current.signal });
     } catch (e) {
       const err = e instanceof Error ? e : new Error(String(e));
-      localError.value = err;
+      // A superseded request is not an error of the current one
+      if (!current.signal.aborted) {
+        localError.value = err;
+      }
       throw err;
     } finally {
-      localIsGenerating.value = false;
+      injection.finishGeneration(current);
+      if (controller === current) {
+        controller = null;
+        localIsGenerating.value = false;
+      }
     }
   };
 
+  const generate = (prompt: string, options?: { customSchema?: string }): Promise<Theme> =>
+    runGeneration(prompt, { ...options });
+
   const adjust = async (instruction: string, options?: { customSchema?: string }): Promise<Theme> => {
     const activeTheme = manager.getActive();
     if (!activeTheme) {
       throw new Error('No active theme to adjust');
     }
 
-    localIsGenerating.value = true;
-    localError.value = null;
-
-    try {
-      const theme = await manager.generate(instruction, {
-        baseTheme: activeTheme,
-        ...options,
-      });
-      return theme;
-    } catch (e) {
-      const err = e instanceof Error ? e : new Error(String(e));
-      localError.value = err;
-      throw err;
-    } finally {
-      localIsGenerating.value = false;
-    }
+    return runGeneration(instruction, { baseTheme: activeTheme, ...options });
   };
 
+  const cancel = injection.cancelGeneration;
+
+  // Abort this composable's generation when the calling component unmounts
+  if (getCurrentScope()) {
+    onScopeDispose(() => controller?.abort());
+  }
+
   return {
     generate,
     adjust,
+    cancel,
     isGenerating,
     error,
     isConfigured,
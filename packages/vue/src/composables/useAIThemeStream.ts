@@ -0,0 +1,126 @@
+import type { PartialThemeTokens, Theme } from '@themed.js/core';
+import {
+  type ComputedRef,
+  computed,
+  getCurrentScope,
+  inject,
+  onScopeDispose,
+  ref,
+  shallowRef,
+} from 'vue';
+import { THEMED_INJECTION_KEY } from '../keys';
+
+/**
+ * useAIThemeStream composable return type
+ */
+export interface UseAIThemeStreamReturn {
+  /**
+   * Stream a new theme from a text prompt; resolves with the final theme.
+   * With `preview: true` the colors are previewed while they arrive.
+   */
+  generate: (
+    prompt: string,
+    options?: { customSchema?: string; preview?: boolean }
+  ) => Promise<Theme>;
+  /** Abort the in-flight generation, wherever it started (a new call aborts the previous one) */
+  cancel: () => void;
+  /** Tokens received so far; null until the first tokens arrive */
+  partialTokens: ComputedRef<PartialThemeTokens | null>;
+  /** Whether a theme is being streamed */
+  isStreaming: ComputedRef<boolean>;
+  /** Last error from streaming */
+  error: ComputedRef<Error | null>;
+}
+
+/**
+ * Composable to stream AI theme generation and show the tokens as they arrive
+ *
+ * @example
+ * ```vue
+ * <script setup>
+ * import { useAIThemeStream } from '@themed.js/vue';
+ *
+ * const { generate, partialTokens, isStreaming } = useAIThemeStream();
+ * </script>
+ *
+ * <template>
+ *   <button @click="generate('Ocean sunset', { preview: true })" :disabled="isStreaming">
+ *     Generate
+ *   </button>
+ *   <span
+ *     v-for="(color, name) in partialTokens?.colors"
+ *     :key="name"
+ *     :title="name"
+ *     :style="{ background: color }"
+ *   />
+ * </template>
+ * ```
+ */
+export function useAIThemeStream(): UseAIThemeStreamReturn {
+  const injection = inject(THEMED_INJECTION_KEY);
+
+  if (!injection) {
+    throw new Error(
+      'useAIThemeStream must be used within a Vue app that has installed themedPlugin'
+    );
+  }
+
+  const { manager } = injection;
+
+  const partialTokens = shallowRef<PartialThemeTokens | null>(null);
+  const isStreaming = ref(false);
+  const error = shallowRef<Error | null>(null);
+
+  // This composable's latest generation; the plugin aborts it when any new generation starts
+  let controller: AbortController | null = null;
+
+  const generate = async (
+    prompt: string,
+    options?: { customSchema?: string; preview?: boolean }
+  ): Promise<Theme> => {
+    const current = injection.startGeneration();
+    controller = current;
+
+    isStreaming.value = true;
+    error.value = null;
+    partialTokens.value = null;
+
+    try {
+      const stream = manager.generateStream(prompt, { ...options, signal: current.signal });
+      let next = await stream.next();
+      while (!next.done) {
+        if (controller === current) partialTokens.value = next.value.tokens;
+        next = await stream.next();
+      }
+      return next.value;
+    } catch (e) {
+      const err = e instanceof Error ? e : new Error(String(e));
+      // A superseded request is not an error of the current one
+      if (!current.signal.aborted) {
+        error.value = err;
+      }
+      throw err;
+    } finally {
+      injection.finishGeneration(current);
+      if (controller === current) {
+        controller = null;
+        isStreaming.value = false;
+      }
+    }
+  };
+
+  const cancel = injection.cancelGeneration;
+
+  // Abort this composable's generation when the calling component unmounts
+  if (getCurrentScope()) {
+    onScopeDispose(() => controller?.abort());
+  }
+
+  return {
+    generate,
+    cancel,
+    partialTokens: computed(() => partialTokens.value),
+    isStreaming: computed(() => isStreaming.value),
+    error: computed(() => error.value),
+  };
+}
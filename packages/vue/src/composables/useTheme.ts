@@ -1,5 +1,5 @@
 import { inject, computed, type ComputedRef } from 'vue';
-import type { Theme, ThemeInput } from '@themed.js/core';
+import type { PartialThemeTokens, Theme, ThemeInput } from '@themed.js/core';
 import { THEMED_INJECTION_KEY } from '../keys';
 
 /**
@@ -24,6 +24,22 @@ export interface UseThemeReturn {
   get: (themeId: string) => Theme | undefined;
   /** Update a theme's custom data */
   updateThemeCustom: (themeId: string, custom: Record<string, unknown>) => void;
+  /** Deep-merge token changes into a theme */
+  updateTokens: (themeId: string, tokens: PartialThemeTokens) => Promise<Theme>;
+  /** Show a theme (registered or not) without applying or persisting it */
+  preview: (theme: string | Theme) => void;
+  /** Apply the previewed theme */
+  commitPreview: () => Promise<Theme | null>;
+  /** Restore the active theme after a preview */
+  cancelPreview: () => void;
+  /** Undo the latest theme switch or edit */
+  undo: () => Promise<boolean>;
+  /** Redo the latest undone change */
+  redo: () => Promise<boolean>;
+  /** Whether there is a change to undo */
+  canUndo: ComputedRef<boolean>;
+  /** Whether there is a change to redo */
+  canRedo: ComputedRef<boolean>;
 }
 
 /**
@@ -63,6 +79,8 @@ export function useTheme(): UseThemeReturn {
   const theme = computed(() => injection.theme);
   const themes = computed(() => injection.themes);
   const initialized = computed(() => injection.initialized);
+  const canUndo = computed(() => injection.canUndo);
+  const canRedo = computed(() => injection.canRedo);
 
   const apply = async (themeId: string) => {
     await manager.apply(themeId);
@@ -88,6 +106,20 @@ export function useTheme(): UseThemeReturn {
     manager.updateThemeCustom(themeId, custom);
   };
 
+  const updateTokens = (themeId: string, tokens: PartialThemeTokens) => {
+    return manager.updateTokens(themeId, tokens);
+  };
+
+  const preview = (themeData: string | Theme) => manager.preview(themeData);
+
+  const commitPreview = () => manager.commitPreview();
+
+  const cancelPreview = () => manager.cancelPreview();
+
+  const undo = () => manager.undo();
+
+  const redo = () => manager.redo();
+
   return {
     theme,
     themes,
@@ -98,5 +130,13 @@ export function useTheme(): UseThemeReturn {
     has,
     get,
     updateThemeCustom,
+    updateTokens,
+    preview,
+    commitPreview,
+    cancelPreview,
+    undo,
+    redo,
+    canUndo,
+    canRedo,
   };
 }
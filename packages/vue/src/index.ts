@@ -3,12 +3,14 @@
 export { themedPlugin } from './plugin';
 export { useTheme } from './composables/useTheme';
 export { useAITheme } from './composables/useAITheme';
+export { useAIThemeStream } from './composables/useAIThemeStream';
 export { THEMED_INJECTION_KEY } from './keys';
 
 // Re-export core types for convenience
 export type {
   Theme,
   ThemeTokens,
+  PartialThemeTokens,
   ColorTokens,
   TypographyTokens,
   AIProviderConfig,
@@ -10,11 +10,19 @@ export interface ThemedInjection {
   theme: Theme | null;
   themes: Theme[];
   initialized: boolean;
+  canUndo: boolean;
+  canRedo: boolean;
   isGenerating: boolean;
   aiError: Error | null;
   isAIConfigured: boolean;
   modelInfo: { provider: string; model?: string } | null;
   configureAI: (options: AIOptions) => void;
+  /** Start an AI generation, aborting the in-flight one of any composable or $themed */
+  startGeneration: () => AbortController;
+  /** Mark a generation as finished */
+  finishGeneration: (controller: AbortController) => void;
+  /** Abort the in-flight AI generation */
+  cancelGeneration: () => void;
 }
 
 /**
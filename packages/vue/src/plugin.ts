@@ -3,11 +3,14 @@ import { ref, shallowRef } from 'vue';
 import {
   ThemeManager,
   type Theme,
+  type ThemeScheme,
   type ThemeChangedPayload,
+  type HistoryChangedPayload,
   type AIOptions,
   type StorageOptions,
   type CSSOptions,
   builtinThemes,
+  builtinSchemes,
 } from '@themed.js/core';
 import { THEMED_INJECTION_KEY, type ThemedInjection } from './keys';
 
@@ -19,6 +22,8 @@ export interface ThemedPluginOptions {
   defaultTheme?: string;
   /** Initial themes to register */
   themes?: Theme[];
+  /** Light/dark theme schemes to register */
+  schemes?: ThemeScheme[];
   /** AI configuration */
   ai?: AIOptions;
   /** Storage configuration */
@@ -55,6 +60,7 @@ export const themedPlugin = {
     // Create manager
     const manager = new ThemeManager({
       themes: [...builtinThemes, ...(options.themes ?? [])],
+      schemes: [...builtinSchemes, ...(options.schemes ?? [])],
       defaultTheme: options.defaultTheme ?? 'light',
       ai: options.ai,
       storage: options.storage,
@@ -66,9 +72,14 @@ export const themedPlugin = {
     const theme = shallowRef<Theme | null>(null);
     const themes = shallowRef<Theme[]>(manager.getAll());
     const initialized = ref(false);
+    const canUndo = ref(false);
+    const canRedo = ref(false);
     const isGenerating = ref(false);
     const aiError = shallowRef<Error | null>(null);
     const aiConfigVersion = ref(0);
+    let generation: AbortController | null = null;
+    // The latest $themed.generate() call, which owns isGenerating
+    let globalGeneration: AbortController | null = null;
 
     // Initialize manager
     manager.init().then(() => {
@@ -90,12 +101,35 @@ export const themedPlugin = {
       themes.value = manager.getAll();
     });
 
+    manager.on('theme:updated', () => {
+      theme.value = manager.getActive();
+      themes.value = manager.getAll();
+    });
+
+    manager.on('history:changed', (payload: HistoryChangedPayload) => {
+      canUndo.value = payload.canUndo;
+      canRedo.value = payload.canRedo;
+    });
+
     const configureAI = (options: AIOptions) => {
       manager.configureAI(options);
       aiError.value = null;
       aiConfigVersion.value++;
     };
 
+    // One generation at a time across the app: a new call aborts the previous in-flight one
+    const startGeneration = () => {
+      generation?.abort();
+      generation = new AbortController();
+      return generation;
+    };
+
+    const finishGeneration = (controller: AbortController) => {
+      if (generation === controller) generation = null;
+    };
+
+    const cancelGeneration = () => generation?.abort();
+
     // Provide injection
     const injection: ThemedInjection = {
       manager,
@@ -108,6 +142,12 @@ export const themedPlugin = {
       get initialized() {
         return initialized.value;
       },
+      get canUndo() {
+        return canUndo.value;
+      },
+      get canRedo() {
+        return canRedo.value;
+      },
       get isGenerating() {
         return isGenerating.value;
       },
@@ -123,6 +163,9 @@ export const themedPlugin = {
         return manager.getAIConfig();
       },
       configureAI,
+      startGeneration,
+      finishGeneration,
+      cancelGeneration,
     };
 
     app.provide(THEMED_INJECTION_KEY, injection);
@@ -131,20 +174,32 @@ export const themedPlugin = {
     app.config.globalProperties.$themed = {
       manager,
       apply: (themeId: string) => manager.apply(themeId),
-      generate: async (prompt: string) => {
+      generate: async (prompt: string, generateOptions?: { customSchema?: string }) => {
+        const current = startGeneration();
+        globalGeneration = current;
         isGenerating.value = true;
         aiError.value = null;
         try {
-          const result = await manager.generate(prompt);
+          const result = await manager.generate(prompt, {
+            ...generateOptions,
+            signal: current.signal,
+          });
           themes.value = manager.getAll();
           return result;
         } catch (e) {
-          aiError.value = e instanceof Error ? e : new Error(String(e));
+          if (!current.signal.aborted) {
+            aiError.value = e instanceof Error ? e : new Error(String(e));
+          }
           throw e;
         } finally {
-          isGenerating.value = false;
+          finishGeneration(current);
+          if (globalGeneration === current) {
+            globalGeneration = null;
+            isGenerating.value = false;
+          }
         }
       },
+      cancel: cancelGeneration,
     };
   },
 };
@@ -156,6 +211,8 @@ declare module 'vue' {
       manager: ThemeManager;
       apply: (themeId: string) => Promise<void>;
       generate: (prompt: string, options?: { customSchema?: string }) => Promise<Theme>;
+      /** Abort the in-flight generate() call */
+      cancel: () => void;
     };
   }
 }